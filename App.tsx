@@ -1,82 +1,355 @@
-import React, { useState, useCallback } from 'react';
-import { identifyLandmark, fetchLandmarkHistory, generateNarration } from './services/geminiService';
-import { fileToBase64 } from './utils/helpers';
-import { Status, GroundingChunk } from './types';
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import { getTourGuideProvider } from './services/providers';
+import { getTileSource } from './services/mapTiles';
+import { saveTour } from './services/tourHistory';
+import { createThumbnail } from './utils/helpers';
+import { loadPhotoSettings, preparePhoto, savePhotoSettings, toPreparedPhoto } from './utils/photoPreparation';
+import { DEFAULT_LANGUAGE, loadPreferredLanguage, savePreferredLanguage } from './utils/languages';
+import { DEFAULT_PERSONA, loadGuideSettings, saveGuideSettings } from './utils/personas';
+import { normalizeLandmarkName } from './utils/identification';
+import { useBatchAnalysis } from './hooks/useBatchAnalysis';
+import { useWalkingTour } from './hooks/useWalkingTour';
+import { useUploadQueue } from './hooks/useUploadQueue';
+import { useSharedTour } from './hooks/useSharedTour';
+import { TourPipelineServices, useTourPipeline } from './hooks/useTourPipeline';
+import { Status, BatchTour, GuideSettings, NearbyPlace, NewSavedTour, PhotoSettings, SavedTour } from './types';
 import { ImageUploader } from './components/ImageUploader';
 import { AnalysisResult } from './components/AnalysisResult';
 import { ErrorDisplay } from './components/ErrorDisplay';
+import { TourHistory } from './components/TourHistory';
+import { BatchView } from './components/BatchView';
+import { WalkingTourView } from './components/WalkingTourView';
+import { SharedTourView } from './components/SharedTourView';
+import { CameraCapture } from './components/CameraCapture';
+import { HistoryIcon } from './components/Icons';
+
+const provider = getTourGuideProvider();
+const tiles = getTileSource();
+
+/**
+ * Stores a finished tour for the history screen; failures are logged but never interrupt the tour.
+ * Resolves to whether the tour was stored.
+ */
+const persistTour = async (tour: Omit<NewSavedTour, 'thumbnail'>): Promise<boolean> => {
+  try {
+    await saveTour({ ...tour, thumbnail: await createThumbnail(tour.image) });
+    return true;
+  } catch (e) {
+    console.error('Failed to save tour to history:', e);
+    return false;
+  }
+};
+
+const logQueueError = (error: unknown) => console.error('Failed to update the upload queue:', error);
+
+// Shows which stage of a fresh tour was slow, in milliseconds
+const logTourTimings: TourPipelineServices['onTourTimed'] = (landmarkName, timings) => {
+  const durations = Object.fromEntries(Object.entries(timings).map(([stage, timing]) => [stage, timing?.durationMs]));
+  console.info(`Tour timings for ${landmarkName}:`, durations);
+};
+
+const loadPipelinePreferences = () => ({ language: loadPreferredLanguage(), guideSettings: loadGuideSettings() });
 
 export default function App() {
-  const [status, setStatus] = useState<Status>(Status.Idle);
-  const [error, setError] = useState<string | null>(null);
-  const [imageFile, setImageFile] = useState<File | null>(null);
-  const [imageUrl, setImageUrl] = useState<string>('');
-  const [landmarkName, setLandmarkName] = useState<string>('');
-  const [landmarkInfo, setLandmarkInfo] = useState<string>('');
-  const [groundingSources, setGroundingSources] = useState<GroundingChunk[]>([]);
-  const [audioData, setAudioData] = useState<string>('');
-
-  const resetState = useCallback(() => {
-    setStatus(Status.Idle);
-    setError(null);
-    setImageFile(null);
-    setImageUrl('');
-    setLandmarkName('');
-    setLandmarkInfo('');
-    setGroundingSources([]);
-    setAudioData('');
+  const uploadQueue = useUploadQueue();
+  const { remove: removeQueuedUpload } = uploadQueue;
+  // Photos handed over from the upload queue leave it only once their tour is saved: the queue entry
+  // of the photo in the pipeline, and those of the batch photos by item id
+  const queuedPhotoRef = useRef<string | null>(null);
+  const queuedBatchItemsRef = useRef(new Map<string, string>());
+
+  const pipelineServices = useMemo<TourPipelineServices>(() => ({
+    provider,
+    preparePhoto,
+    saveTour: async tour => {
+      const queuedId = queuedPhotoRef.current;
+      if (!await persistTour(tour) || !queuedId) return;
+      if (queuedPhotoRef.current === queuedId) queuedPhotoRef.current = null;
+      removeQueuedUpload(queuedId).catch(logQueueError);
+    },
+    onTourTimed: process.env.LOG_TOUR_TIMINGS ? logTourTimings : undefined,
+  }), [removeQueuedUpload]);
+  const pipeline = useTourPipeline(pipelineServices, loadPipelinePreferences);
+  const {
+    status,
+    failure,
+    photo,
+    imageUrl,
+    identification,
+    landmarkName,
+    coordinates,
+    landmarkInfo,
+    sources,
+    searchEntryPoint,
+    audioChunks,
+    language,
+    guideSettings,
+  } = pipeline.state;
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [isCameraOpen, setIsCameraOpen] = useState(false);
+  const [photoSettings, setPhotoSettings] = useState<PhotoSettings>(loadPhotoSettings);
+  // Landmarks of the current batch whose tour is in the history
+  const [savedBatchTourKeys, setSavedBatchTourKeys] = useState<ReadonlySet<string>>(() => new Set());
+  const saveBatchTour = useCallback(async (tour: Omit<NewSavedTour, 'thumbnail'>) => {
+    if (await persistTour(tour)) {
+      setSavedBatchTourKeys(keys => new Set(keys).add(normalizeLandmarkName(tour.landmarkName)));
+    }
+  }, []);
+  const batch = useBatchAnalysis(provider, saveBatchTour);
+  const walkingTour = useWalkingTour(provider);
+  const [isWalkingTourOpen, setIsWalkingTourOpen] = useState(false);
+  const sharedTour = useSharedTour(provider, guideSettings);
+
+  // Photos picked offline wait in the queue instead of failing at the first request
+  const handleImageSelect = useCallback((file: File) => {
+    queuedPhotoRef.current = null;
+    if (!uploadQueue.isOnline) {
+      uploadQueue.enqueue([file]).catch(pipeline.reportError);
+      return;
+    }
+    pipeline.selectPhoto(file, photoSettings);
+  }, [pipeline.selectPhoto, pipeline.reportError, photoSettings, uploadQueue.isOnline, uploadQueue.enqueue]);
+
+  const handleCameraCapture = useCallback((file: File) => {
+    setIsCameraOpen(false);
+    handleImageSelect(file);
+  }, [handleImageSelect]);
+
+  // Permission and missing-device problems are shown like any other failure
+  const handleCameraError = useCallback((e: unknown) => {
+    setIsCameraOpen(false);
+    pipeline.reportError(e);
+  }, [pipeline.reportError]);
+
+  const handlePhotoSettingsChange = useCallback((settings: PhotoSettings) => {
+    setPhotoSettings(settings);
+    savePhotoSettings(settings);
   }, []);
 
-  const handleImageSelect = useCallback(async (file: File) => {
-    resetState();
-    setImageFile(file);
-    setImageUrl(URL.createObjectURL(file));
-    setStatus(Status.Identifying);
-
-    try {
-      const imageBase64 = await fileToBase64(file);
-      
-      // Step 1: Identify landmark
-      const identifiedName = await identifyLandmark(imageBase64, file.type);
-      setLandmarkName(identifiedName);
-      setStatus(Status.Fetching);
-      
-      // Step 2: Fetch historical information
-      const { text: historyText, sources } = await fetchLandmarkHistory(identifiedName);
-      setLandmarkInfo(historyText);
-      setGroundingSources(sources);
-      setStatus(Status.Narrating);
-
-      // Step 3: Generate audio narration
-      const narratedAudio = await generateNarration(historyText);
-      setAudioData(narratedAudio);
-      setStatus(Status.Done);
-    } catch (e) {
-      console.error(e);
-      setError(e instanceof Error ? e.message : 'An unknown error occurred.');
-      setStatus(Status.Error);
+  // Remembers the choice; a finished tour is re-generated in the new language
+  const handleLanguageChange = useCallback((code: string) => {
+    savePreferredLanguage(code);
+    pipeline.changeLanguage(code);
+  }, [pipeline.changeLanguage]);
+
+  // Same for the persona and voice
+  const handleGuideSettingsChange = useCallback((settings: GuideSettings) => {
+    saveGuideSettings(settings);
+    pipeline.changeGuideSettings(settings);
+  }, [pipeline.changeGuideSettings]);
+
+  const handleOpenTour = useCallback((tour: SavedTour) => {
+    queuedPhotoRef.current = null;
+    setIsHistoryOpen(false);
+    pipeline.openTour({
+      photo: toPreparedPhoto(new File([tour.image], tour.landmarkName, { type: tour.image.type })),
+      imageUrl: URL.createObjectURL(tour.image),
+      identification: null,
+      landmarkName: tour.landmarkName,
+      coordinates: tour.coordinates ?? null,
+      landmarkInfo: tour.landmarkInfo,
+      sources: tour.sources,
+      searchEntryPoint: tour.searchEntryPoint,
+      audioChunks: tour.audioChunks,
+      language: tour.language ?? DEFAULT_LANGUAGE,
+      persona: tour.persona ?? DEFAULT_PERSONA,
+    });
+  }, [pipeline.openTour]);
+
+  // Returns the batch item ids of the files, or none when they were queued
+  const handleBatchSelect = useCallback((files: File[]): string[] => {
+    queuedPhotoRef.current = null;
+    if (!uploadQueue.isOnline) {
+      uploadQueue.enqueue(files).catch(pipeline.reportError);
+      return [];
     }
-  }, [resetState]);
+    pipeline.reset();
+    return batch.start(files, { language, guideSettings, photoSettings });
+  }, [pipeline.reset, pipeline.reportError, batch, language, guideSettings, photoSettings, uploadQueue.isOnline, uploadQueue.enqueue]);
+
+  // Shows a finished batch tour in the regular player; resetting returns to the album
+  const handleOpenBatchTour = useCallback((tour: BatchTour) => {
+    queuedPhotoRef.current = null;
+    const coverPhoto = batch.items.find(item => item.id === tour.itemIds[0]);
+    if (!coverPhoto) return;
+
+    pipeline.openTour({
+      photo: coverPhoto.metadata
+        ? { file: coverPhoto.file, metadata: coverPhoto.metadata, originalBytes: coverPhoto.originalBytes }
+        : toPreparedPhoto(coverPhoto.file),
+      imageUrl: URL.createObjectURL(coverPhoto.file),
+      identification: coverPhoto.identification,
+      landmarkName: tour.landmarkName,
+      coordinates: tour.coordinates,
+      landmarkInfo: tour.landmarkInfo,
+      sources: tour.sources,
+      searchEntryPoint: tour.searchEntryPoint,
+      audioChunks: tour.audioChunks,
+      language: tour.language,
+      persona: tour.persona,
+    });
+  }, [pipeline.openTour, batch.items]);
+
+  // The current guide is the walking tour's first stop, so its text and audio are reused as they are
+  const handleAddStop = useCallback((place: NearbyPlace) => {
+    walkingTour.addStop(place, {
+      name: landmarkName,
+      coordinates,
+      landmarkInfo,
+      sources,
+      searchEntryPoint,
+      audioChunks,
+    }, { language, guideSettings });
+  }, [walkingTour.addStop, landmarkName, coordinates, landmarkInfo, sources, searchEntryPoint, audioChunks, language, guideSettings]);
+
+  // Only a walking tour planned from the landmark on screen is offered under its guide
+  const plannedStops = useMemo(() => {
+    const [origin] = walkingTour.stops;
+    return origin?.key === normalizeLandmarkName(landmarkName) ? walkingTour.stops.map(stop => stop.name) : [];
+  }, [walkingTour.stops, landmarkName]);
 
   const isProcessing = status !== Status.Idle && status !== Status.Done && status !== Status.Error;
-  const showUploader = status === Status.Idle;
-  const showError = status === Status.Error;
-  const showResult = !showUploader && !showError && !!imageUrl;
+  // A share link in the address bar covers whatever else the app was doing
+  const showSharedTour = !!sharedTour.tour;
+  const showShareLinkError = !!sharedTour.linkError;
+  const isOwnTourVisible = !showSharedTour && !showShareLinkError;
+  const showHistory = isOwnTourVisible && status === Status.Idle && isHistoryOpen;
+  const showCamera = isOwnTourVisible && status === Status.Idle && isCameraOpen;
+  const showBatch = isOwnTourVisible && status === Status.Idle && !isHistoryOpen && !isCameraOpen && batch.items.length > 0;
+  const showUploader = isOwnTourVisible && status === Status.Idle && !isHistoryOpen && !isCameraOpen && batch.items.length === 0;
+  const showError = isOwnTourVisible && status === Status.Error && failure?.step === 'identify';
+  const showWalkingTour = isOwnTourVisible && status === Status.Done && isWalkingTourOpen && plannedStops.length > 0;
+  const showResult = isOwnTourVisible && !showUploader && !showBatch && !showError && !showWalkingTour && !!imageUrl;
+
+  const handleBatchClose = useCallback(() => {
+    batch.clear();
+    queuedBatchItemsRef.current.clear();
+    setSavedBatchTourKeys(new Set());
+  }, [batch.clear]);
+
+  // Once back online, queued photos are analyzed the same way as a fresh pick, but only from the
+  // upload screen so nothing the user is looking at gets replaced
+  const { isOnline, queuedCount, claimAll } = uploadQueue;
+  useEffect(() => {
+    if (!isOnline || queuedCount === 0 || !showUploader) return;
+    claimAll()
+      .then(uploads => {
+        if (uploads.length === 1) {
+          handleImageSelect(uploads[0].file);
+          queuedPhotoRef.current = uploads[0].id;
+        } else if (uploads.length > 1) {
+          const itemIds = handleBatchSelect(uploads.map(upload => upload.file));
+          itemIds.forEach((itemId, index) => queuedBatchItemsRef.current.set(itemId, uploads[index].id));
+        }
+      })
+      .catch(pipeline.reportError);
+  }, [isOnline, queuedCount, showUploader, claimAll, handleImageSelect, handleBatchSelect, pipeline.reportError]);
+
+  // A queued batch photo leaves the queue once the tour it was grouped into is saved, including
+  // photos of a landmark whose tour was already saved when they were identified
+  useEffect(() => {
+    batch.items.forEach(item => {
+      const queuedId = queuedBatchItemsRef.current.get(item.id);
+      if (!queuedId || !item.tourKey || !savedBatchTourKeys.has(item.tourKey)) return;
+      queuedBatchItemsRef.current.delete(item.id);
+      removeQueuedUpload(queuedId).catch(logQueueError);
+    });
+  }, [batch.items, savedBatchTourKeys, removeQueuedUpload]);
 
   return (
     <div className="min-h-screen bg-gray-900 bg-grid-cyan-500/10 flex items-center justify-center p-4">
       <div className="w-full">
+        {showSharedTour && (
+          <SharedTourView
+            tour={sharedTour.tour}
+            audioChunks={sharedTour.audioChunks}
+            narrationStatus={sharedTour.narrationStatus}
+            narrationFailure={sharedTour.narrationFailure}
+            onNarrate={sharedTour.narrate}
+            onClose={sharedTour.close}
+          />
+        )}
+
+        {showShareLinkError && (
+          <ErrorDisplay
+            error={sharedTour.linkError.message}
+            category={sharedTour.linkError.category}
+            onReset={sharedTour.close}
+          />
+        )}
+
         {showUploader && (
-          <ImageUploader 
-            onImageSelect={handleImageSelect} 
-            isProcessing={isProcessing} 
+          <>
+            <ImageUploader 
+              onImageSelect={handleImageSelect} 
+              onBatchSelect={handleBatchSelect}
+              onOpenCamera={() => setIsCameraOpen(true)}
+              isProcessing={isProcessing} 
+              language={language}
+              onLanguageChange={handleLanguageChange}
+              photoSettings={photoSettings}
+              onPhotoSettingsChange={handlePhotoSettingsChange}
+              guideSettings={guideSettings}
+              onGuideSettingsChange={handleGuideSettingsChange}
+              onPreviewVoice={pipeline.previewVoice}
+              isOnline={isOnline}
+              queuedUploads={queuedCount}
+            />
+            <div className="mt-6 text-center">
+              <button
+                onClick={() => setIsHistoryOpen(true)}
+                className="inline-flex items-center gap-2 px-4 py-2 text-cyan-300 font-semibold rounded-full hover:bg-cyan-900/30 transition-colors"
+              >
+                <HistoryIcon className="w-5 h-5" />
+                <span>Past Tours</span>
+              </button>
+            </div>
+          </>
+        )}
+
+        {showCamera && (
+          <CameraCapture
+            onCapture={handleCameraCapture}
+            onCancel={() => setIsCameraOpen(false)}
+            onError={handleCameraError}
+          />
+        )}
+
+        {showBatch && (
+          <BatchView
+            items={batch.items}
+            tours={batch.tours}
+            onRetry={batch.retry}
+            onOpenTour={handleOpenBatchTour}
+            onClose={handleBatchClose}
+          />
+        )}
+
+        {showWalkingTour && (
+          <WalkingTourView
+            stops={walkingTour.stops}
+            onMoveStop={walkingTour.moveStop}
+            onRemoveStop={walkingTour.removeStop}
+            onOptimizeRoute={walkingTour.optimizeRoute}
+            onRetryStop={walkingTour.retryStop}
+            onClose={() => setIsWalkingTourOpen(false)}
+          />
+        )}
+
+        {showHistory && (
+          <TourHistory
+            onOpenTour={handleOpenTour}
+            tiles={tiles}
+            onClose={() => setIsHistoryOpen(false)}
           />
         )}
         
         {showError && (
           <ErrorDisplay 
-            error={error || 'Unknown error'} 
-            onReset={resetState} 
+            error={failure.message} 
+            category={failure.category}
+            onReset={pipeline.reset} 
+            onRetry={photo ? pipeline.retryStep : undefined}
           />
         )}
 
@@ -85,10 +358,30 @@ export default function App() {
             imageUrl={imageUrl}
             landmarkName={landmarkName}
             landmarkInfo={landmarkInfo}
-            audioData={audioData}
-            sources={groundingSources}
-            onReset={resetState}
+            audioChunks={audioChunks}
+            sources={sources}
+            searchEntryPoint={searchEntryPoint}
+            onReset={pipeline.reset}
+            onRegenerate={pipeline.regenerate}
             status={status}
+            language={language}
+            onLanguageChange={handleLanguageChange}
+            guideSettings={guideSettings}
+            onGuideSettingsChange={handleGuideSettingsChange}
+            onPreviewVoice={pipeline.previewVoice}
+            identification={identification}
+            coordinates={coordinates}
+            tiles={tiles}
+            photoSize={photo && { originalBytes: photo.originalBytes, preparedBytes: photo.file.size }}
+            onConfirmLandmark={pipeline.confirmLandmark}
+            onAskQuestion={pipeline.askQuestion}
+            onSpeakAnswer={pipeline.speakAnswer}
+            onFindNearby={pipeline.findNearby}
+            plannedStops={plannedStops}
+            onAddStop={handleAddStop}
+            onOpenWalkingTour={() => setIsWalkingTourOpen(true)}
+            failure={failure}
+            onRetryStep={pipeline.retryStep}
           />
         )}
       </div>
@@ -1,9 +1,26 @@
-import React, { useMemo } from 'react';
+import React, { useEffect, useMemo, useRef } from 'react';
 import { AnalysisResultProps, Status } from '../types';
 import { useAudioPlayback } from '../hooks/useAudioPlayback';
-import { formatMarkdownToHTML } from '../utils/markdownFormatter';
+import { splitIntoNarrationSegments } from '../utils/narration';
+import { buildTranscriptTimeline, findSentenceAt } from '../utils/transcript';
+import { buildBibliography, mapCitationsToSentences } from '../utils/citations';
+import { formatByteSize } from '../utils/photoPreparation';
 import { InlineLoader } from './InlineLoader';
-import { PlayIcon, PauseIcon, ResetIcon, SpinnerIcon } from './Icons';
+import { NarrationControls } from './NarrationControls';
+import { ExportActions } from './ExportActions';
+import { ShareButton } from './ShareButton';
+import { LanguageSelector } from './LanguageSelector';
+import { GuideSettingsPanel } from './GuideSettingsPanel';
+import { NearbyPlacesPanel } from './NearbyPlacesPanel';
+import { LandmarkMap } from './LandmarkMap';
+import { LandmarkConfirmation } from './LandmarkConfirmation';
+import { ChatPanel } from './ChatPanel';
+import { MarkdownContent } from './MarkdownContent';
+import { SearchSuggestions } from './SearchSuggestions';
+import { StepErrorNotice } from './StepErrorNotice';
+import { PlayIcon, PauseIcon, ResetIcon, SparklesIcon, SpinnerIcon } from './Icons';
+
+const ACTIVE_SENTENCE_CLASSES = ['bg-cyan-500/20', 'text-white'];
 
 const getLoadingText = (status: Status): string => {
   switch (status) {
@@ -20,18 +37,80 @@ export const AnalysisResult: React.FC<AnalysisResultProps> = React.memo(({
   imageUrl,
   landmarkName,
   landmarkInfo,
-  audioData,
+  audioChunks,
   sources,
+  searchEntryPoint,
   onReset,
+  onRegenerate,
   status,
+  language,
+  onLanguageChange,
+  guideSettings,
+  onGuideSettingsChange,
+  onPreviewVoice,
+  identification,
+  coordinates,
+  tiles,
+  photoSize,
+  onConfirmLandmark,
+  onAskQuestion,
+  onSpeakAnswer,
+  onFindNearby,
+  plannedStops,
+  onAddStop,
+  onOpenWalkingTour,
+  failure,
+  onRetryStep,
 }) => {
-  const { isPlaying, isAudioReady, togglePlayback } = useAudioPlayback(audioData);
+  const {
+    isPlaying,
+    isAudioReady,
+    currentTime,
+    duration,
+    chunkDurations,
+    playbackRate,
+    togglePlayback,
+    seek,
+    skip,
+    setPlaybackRate,
+  } = useAudioPlayback(audioChunks, status === Status.Done);
+  const isCreatingAudio = !isAudioReady && (status === Status.Fetching || status === Status.Narrating);
+  
+  const transcriptRef = useRef<HTMLDivElement>(null);
   
-  const formattedInfo = useMemo(
-    () => formatMarkdownToHTML(landmarkInfo),
-    [landmarkInfo]
+  const bibliography = useMemo(() => buildBibliography(sources), [sources]);
+  const citations = useMemo(() => mapCitationsToSentences(landmarkInfo, bibliography), [landmarkInfo, bibliography]);
+
+  const isHistoryStreaming = status === Status.Fetching;
+  const timeline = useMemo(
+    () => buildTranscriptTimeline(splitIntoNarrationSegments(landmarkInfo, !isHistoryStreaming), chunkDurations),
+    [landmarkInfo, isHistoryStreaming, chunkDurations]
   );
 
+  const activeSentenceIndex = isPlaying || currentTime > 0
+    ? findSentenceAt(timeline, currentTime)?.index
+    : undefined;
+
+  // Highlight the sentence being spoken and keep it in view
+  useEffect(() => {
+    const container = transcriptRef.current;
+    if (!container || activeSentenceIndex === undefined) return;
+
+    // A sentence that crosses formatting (bold, links) is split over several spans
+    const active = container.querySelectorAll<HTMLElement>(`[data-sentence="${activeSentenceIndex}"]`);
+    active.forEach(span => span.classList.add(...ACTIVE_SENTENCE_CLASSES));
+    active[0]?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+    return () => active.forEach(span => span.classList.remove(...ACTIVE_SENTENCE_CLASSES));
+  }, [activeSentenceIndex, landmarkInfo]);
+
+  const handleTranscriptClick = (event: React.MouseEvent<HTMLDivElement>) => {
+    const sentence = (event.target as HTMLElement).closest<HTMLElement>('[data-sentence]');
+    const timedSentence = sentence ? timeline[Number(sentence.dataset.sentence)] : undefined;
+    if (timedSentence) {
+      seek(timedSentence.start);
+    }
+  };
+
   return (
     <div className="w-full max-w-5xl mx-auto animate-fade-in">
       <div className="relative rounded-2xl overflow-hidden shadow-2xl shadow-cyan-500/10">
@@ -46,6 +125,12 @@ export const AnalysisResult: React.FC<AnalysisResultProps> = React.memo(({
             {landmarkName || <span className="animate-pulse">Identifying...</span>}
           </h2>
         </div>
+        {photoSize && photoSize.preparedBytes < photoSize.originalBytes && (
+          <p className="absolute top-4 left-4 px-3 py-1 bg-black/50 rounded-full text-xs text-gray-200">
+            Sent {formatByteSize(photoSize.preparedBytes)} instead of {formatByteSize(photoSize.originalBytes)}
+            {' '}({Math.round((1 - photoSize.preparedBytes / photoSize.originalBytes) * 100)}% smaller)
+          </p>
+        )}
         <button 
           onClick={onReset} 
           className="absolute top-4 right-4 bg-black/50 p-2 rounded-full text-white hover:bg-cyan-500/80 transition-colors"
@@ -56,15 +141,22 @@ export const AnalysisResult: React.FC<AnalysisResultProps> = React.memo(({
       </div>
 
       <div className="mt-8 p-6 md:p-8 bg-gray-800/50 backdrop-blur-md rounded-2xl border border-white/10">
-        <div className="flex items-center justify-between mb-4">
-          <h3 className="text-2xl font-bold text-cyan-300">Generated Guide</h3>
+        <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+          <div className="flex flex-wrap items-center gap-4">
+            <h3 className="text-2xl font-bold text-cyan-300">Generated Guide</h3>
+            <LanguageSelector
+              value={language}
+              onChange={onLanguageChange}
+              disabled={status !== Status.Done}
+            />
+          </div>
           {landmarkInfo && (
             <button 
               onClick={togglePlayback} 
-              disabled={!isAudioReady || status === Status.Narrating}
+              disabled={!isAudioReady}
               className="flex items-center gap-2 px-4 py-2 bg-cyan-500 text-black font-semibold rounded-full hover:bg-cyan-400 transition-all disabled:bg-gray-600 disabled:cursor-not-allowed"
             >
-              {status === Status.Narrating ? (
+              {isCreatingAudio ? (
                 <SpinnerIcon className="w-6 h-6" />
               ) : isPlaying ? (
                 <PauseIcon className="w-6 h-6" />
@@ -72,8 +164,8 @@ export const AnalysisResult: React.FC<AnalysisResultProps> = React.memo(({
                 <PlayIcon className="w-6 h-6" />
               )}
               <span>
-                {status === Status.Narrating 
-                  ? 'Creating Audio' 
+                {isCreatingAudio
+                  ? 'Creating Audio'
                   : isPlaying 
                   ? 'Pause' 
                   : 'Play Narration'}
@@ -81,35 +173,122 @@ export const AnalysisResult: React.FC<AnalysisResultProps> = React.memo(({
             </button>
           )}
         </div>
+
+        {landmarkInfo && (
+          <NarrationControls
+            currentTime={currentTime}
+            duration={duration}
+            playbackRate={playbackRate}
+            disabled={!isAudioReady}
+            onSeek={seek}
+            onSkip={skip}
+            onPlaybackRateChange={setPlaybackRate}
+          />
+        )}
+
+        <GuideSettingsPanel
+          value={guideSettings}
+          onChange={onGuideSettingsChange}
+          onPreview={onPreviewVoice}
+          disabled={status !== Status.Done}
+        />
         
-        {!landmarkInfo ? (
-          <InlineLoader text={getLoadingText(status)} />
+        {failure && <StepErrorNotice failure={failure} onRetry={onRetryStep} />}
+
+        {status === Status.Confirming && identification ? (
+          <LandmarkConfirmation identification={identification} onConfirm={onConfirmLandmark} />
+        ) : !landmarkInfo ? (
+          !failure && <InlineLoader text={getLoadingText(status)} />
         ) : (
           <div 
+            ref={transcriptRef}
             className="prose prose-invert prose-lg max-w-none text-gray-300" 
-            dangerouslySetInnerHTML={{ __html: formattedInfo }}
-          />
+            onClick={handleTranscriptClick}
+          >
+            <MarkdownContent markdown={landmarkInfo} sentenceSpans citations={citations} />
+          </div>
         )}
         
-        {sources && sources.length > 0 && (
+        {coordinates && (
+          <div className="mt-6 pt-6 border-t border-white/10">
+            <h4 className="text-lg font-semibold text-cyan-400 mb-2">On the map</h4>
+            <LandmarkMap pins={[{ id: 'landmark', coordinates, label: landmarkName }]} tiles={tiles} />
+          </div>
+        )}
+
+        {bibliography.length > 0 && (
           <div className="mt-6 pt-6 border-t border-white/10">
             <h4 className="text-lg font-semibold text-cyan-400 mb-2">Sources:</h4>
-            <ul className="list-disc list-inside text-sm">
-              {sources.map((source, index) => (
-                source.web && (
-                  <li key={index}>
-                    <a 
-                      href={source.web.uri} 
-                      target="_blank" 
-                      rel="noopener noreferrer" 
+            <ol className="space-y-1 text-sm">
+              {bibliography.map(source => (
+                <li key={source.number} className="flex gap-2">
+                  <span className="text-gray-500">[{source.number}]</span>
+                  <span>
+                    <a
+                      href={source.uri}
+                      target="_blank"
+                      rel="noopener noreferrer"
                       className="text-cyan-500 hover:underline"
                     >
-                      {source.web.title}
+                      {source.title}
                     </a>
-                  </li>
-                )
+                    {source.domain !== source.title && <span className="text-gray-500"> · {source.domain}</span>}
+                  </span>
+                </li>
               ))}
-            </ul>
+            </ol>
+            {searchEntryPoint && <SearchSuggestions renderedContent={searchEntryPoint} />}
+          </div>
+        )}
+
+        {status === Status.Done && landmarkInfo && (
+          <ChatPanel
+            key={`${landmarkName}|${language}|${guideSettings.persona}`}
+            landmarkName={landmarkName}
+            onAsk={onAskQuestion}
+            onSpeak={onSpeakAnswer}
+          />
+        )}
+
+        {status === Status.Done && landmarkInfo && (
+          <NearbyPlacesPanel
+            key={`${landmarkName}|${language}`}
+            landmarkName={landmarkName}
+            onFind={onFindNearby}
+            plannedStops={plannedStops}
+            onAddStop={onAddStop}
+            onOpenWalkingTour={onOpenWalkingTour}
+          />
+        )}
+
+        {landmarkInfo && (
+          <div className="mt-6 pt-6 border-t border-white/10 flex flex-wrap items-center justify-between gap-3">
+            <div className="flex flex-wrap gap-3">
+              <ExportActions
+                imageUrl={imageUrl}
+                landmarkName={landmarkName}
+                landmarkInfo={landmarkInfo}
+                sources={sources}
+                audioChunks={audioChunks}
+                isNarrationComplete={status === Status.Done && !failure}
+              />
+              {status === Status.Done && (
+                <ShareButton
+                  tour={{ landmarkName, landmarkInfo, sources, language, persona: guideSettings.persona }}
+                  audioChunks={audioChunks}
+                  isNarrationComplete={!failure}
+                />
+              )}
+            </div>
+            <button
+              onClick={onRegenerate}
+              disabled={status !== Status.Done}
+              className="flex items-center gap-2 px-4 py-2 text-gray-300 font-semibold rounded-full hover:bg-white/10 hover:text-cyan-300 transition-colors disabled:text-gray-500 disabled:cursor-not-allowed"
+              title="Ask the AI again instead of using cached answers"
+            >
+              <SparklesIcon className="w-5 h-5" />
+              <span>Regenerate</span>
+            </button>
           </div>
         )}
       </div>
@@ -0,0 +1,113 @@
+import React from 'react';
+import { BatchItem, BatchViewProps, Status } from '../types';
+import { needsConfirmation } from '../utils/identification';
+import { formatByteSize } from '../utils/photoPreparation';
+import { ResetIcon, SpinnerIcon } from './Icons';
+
+const STATUS_LABELS: Record<Status, string> = {
+  [Status.Idle]: 'Waiting',
+  [Status.Identifying]: 'Identifying...',
+  [Status.Confirming]: 'Needs confirmation',
+  [Status.Fetching]: 'Writing guide...',
+  [Status.Narrating]: 'Recording narration...',
+  [Status.Done]: 'Ready',
+  [Status.Error]: 'Failed',
+};
+
+const isInProgress = (status: Status): boolean => status !== Status.Done && status !== Status.Error;
+
+const StatusBadge: React.FC<{ status: Status }> = ({ status }) => (
+  <span
+    className={`inline-flex items-center gap-1 text-xs font-semibold ${
+      status === Status.Error ? 'text-red-300' : status === Status.Done ? 'text-cyan-300' : 'text-gray-300'
+    }`}
+  >
+    {isInProgress(status) && <SpinnerIcon className="w-3 h-3" />}
+    {STATUS_LABELS[status]}
+  </span>
+);
+
+export const BatchView: React.FC<BatchViewProps> = ({ items, tours, onRetry, onOpenTour, onClose }) => {
+  const photosById = new Map(items.map(item => [item.id, item]));
+  const finishedCount = items.filter(item => !isInProgress(item.status)).length;
+  const unidentified = items.filter(item => !item.tourKey);
+  const prepared = items.filter(item => item.metadata);
+  const originalBytes = prepared.reduce((total, item) => total + item.originalBytes, 0);
+  const preparedBytes = prepared.reduce((total, item) => total + item.file.size, 0);
+
+  const renderPhoto = (item: BatchItem) => (
+    <li key={item.id} className="relative rounded-lg overflow-hidden bg-gray-900/60 border border-white/10">
+      <img src={item.imageUrl} alt="" className="w-full h-24 object-cover" />
+      <div className="p-2 space-y-1">
+        <StatusBadge status={item.status} />
+        {item.identification && needsConfirmation(item.identification) && (
+          <p className="text-xs text-yellow-300">Best guess</p>
+        )}
+        {item.status === Status.Error && (
+          <>
+            {item.error && <p className="text-xs text-red-200 line-clamp-2">{item.error}</p>}
+            <button
+              onClick={() => onRetry(item.id)}
+              className="text-xs font-semibold text-cyan-300 hover:text-cyan-200"
+            >
+              Retry
+            </button>
+          </>
+        )}
+      </div>
+    </li>
+  );
+
+  return (
+    <div className="w-full max-w-4xl mx-auto animate-fade-in">
+      <div className="flex items-center justify-between mb-2">
+        <h2 className="text-3xl font-bold text-cyan-300">Trip Album</h2>
+        <button
+          onClick={onClose}
+          className="bg-black/50 p-2 rounded-full text-white hover:bg-cyan-500/80 transition-colors"
+          aria-label="Close album"
+        >
+          <ResetIcon className="w-6 h-6" />
+        </button>
+      </div>
+      <p className="text-gray-400 mb-6">
+        {finishedCount} of {items.length} photos processed, {tours.length} {tours.length === 1 ? 'landmark' : 'landmarks'} found
+        {preparedBytes < originalBytes && (
+          <> · uploads reduced from {formatByteSize(originalBytes)} to {formatByteSize(preparedBytes)}</>
+        )}
+      </p>
+
+      <ul className="space-y-4">
+        {tours.map(tour => (
+          <li key={tour.key} className="p-4 bg-gray-800/50 backdrop-blur-md rounded-xl border border-white/10">
+            <div className="flex items-center justify-between gap-4 mb-3">
+              <div>
+                <p className="text-lg font-semibold text-white">{tour.landmarkName}</p>
+                <StatusBadge status={tour.status} />
+              </div>
+              <button
+                onClick={() => onOpenTour(tour)}
+                disabled={tour.status !== Status.Done}
+                className="px-4 py-2 bg-cyan-500 text-white font-semibold rounded-full hover:bg-cyan-400 transition-colors disabled:bg-gray-600 disabled:cursor-not-allowed"
+              >
+                Open tour
+              </button>
+            </div>
+            <ul className="grid grid-cols-3 sm:grid-cols-5 gap-2">
+              {tour.itemIds.map(id => photosById.get(id)).filter((item): item is BatchItem => !!item).map(renderPhoto)}
+            </ul>
+          </li>
+        ))}
+      </ul>
+
+      {unidentified.length > 0 && (
+        <div className="mt-6">
+          <h3 className="text-lg font-semibold text-white mb-3">Not identified yet</h3>
+          <ul className="grid grid-cols-3 sm:grid-cols-5 gap-2">
+            {unidentified.map(renderPhoto)}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
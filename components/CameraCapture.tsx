@@ -0,0 +1,101 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { CameraCaptureProps } from '../types';
+import { CameraFacing, captureFrame, hasMultipleCameras, openCamera, startPreview, stopCamera } from '../utils/camera';
+import { CameraIcon, ResetIcon, SpinnerIcon, SwitchCameraIcon } from './Icons';
+
+export const CameraCapture: React.FC<CameraCaptureProps> = ({ onCapture, onCancel, onError }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [facing, setFacing] = useState<CameraFacing>('environment');
+  const [isReady, setIsReady] = useState(false);
+  const [canSwitch, setCanSwitch] = useState(false);
+  const [isCapturing, setIsCapturing] = useState(false);
+
+  // (Re)opens the stream whenever the facing mode changes and releases the camera on the way out
+  useEffect(() => {
+    let stream: MediaStream | null = null;
+    let cancelled = false;
+    setIsReady(false);
+
+    openCamera(facing)
+      .then(async opened => {
+        if (cancelled) {
+          stopCamera(opened);
+          return;
+        }
+        stream = opened;
+        if (videoRef.current) {
+          await startPreview(videoRef.current, opened);
+        }
+        setIsReady(true);
+        // Device labels and counts are only reliable once permission has been granted
+        setCanSwitch(await hasMultipleCameras());
+      })
+      .catch(error => {
+        if (!cancelled) onError(error);
+      });
+
+    return () => {
+      cancelled = true;
+      if (stream) stopCamera(stream);
+    };
+  }, [facing, onError]);
+
+  const handleCapture = async () => {
+    if (!videoRef.current || isCapturing) return;
+
+    setIsCapturing(true);
+    try {
+      onCapture(await captureFrame(videoRef.current));
+    } catch (error) {
+      onError(error);
+    } finally {
+      setIsCapturing(false);
+    }
+  };
+
+  return (
+    <div className="w-full max-w-lg mx-auto text-center animate-fade-in">
+      <div className="relative rounded-2xl overflow-hidden bg-black aspect-[3/4] shadow-2xl shadow-cyan-500/10">
+        <video
+          ref={videoRef}
+          playsInline
+          muted
+          className={`w-full h-full object-cover ${facing === 'user' ? '-scale-x-100' : ''}`}
+        />
+        {!isReady && (
+          <div className="absolute inset-0 flex items-center justify-center text-gray-300">
+            <SpinnerIcon className="w-8 h-8" />
+          </div>
+        )}
+        <button
+          onClick={onCancel}
+          className="absolute top-4 right-4 bg-black/50 p-2 rounded-full text-white hover:bg-cyan-500/80 transition-colors"
+          aria-label="Close camera"
+        >
+          <ResetIcon className="w-6 h-6" />
+        </button>
+      </div>
+
+      <div className="mt-6 flex items-center justify-center gap-6">
+        <button
+          onClick={handleCapture}
+          disabled={!isReady || isCapturing}
+          className="p-4 bg-cyan-500 rounded-full text-white hover:bg-cyan-400 transition-colors disabled:bg-gray-600 disabled:cursor-not-allowed"
+          aria-label="Take photo"
+        >
+          <CameraIcon className="w-8 h-8" />
+        </button>
+        {canSwitch && (
+          <button
+            onClick={() => setFacing(prev => (prev === 'environment' ? 'user' : 'environment'))}
+            disabled={!isReady || isCapturing}
+            className="p-3 bg-black/50 rounded-full text-white hover:bg-cyan-500/80 transition-colors disabled:opacity-50"
+            aria-label={facing === 'environment' ? 'Switch to front camera' : 'Switch to rear camera'}
+          >
+            <SwitchCameraIcon className="w-6 h-6" />
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,142 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ChatMessage, ChatPanelProps } from '../types';
+import { useClipPlayback } from '../hooks/useClipPlayback';
+import { PauseIcon, PlayIcon, SpinnerIcon } from './Icons';
+import { MarkdownContent } from './MarkdownContent';
+
+const SUGGESTED_QUESTIONS = ['When was it last restored?', 'Is it open to visitors today?', 'What is nearby?'];
+
+export const ChatPanel: React.FC<ChatPanelProps> = ({ landmarkName, onAsk, onSpeak }) => {
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [draft, setDraft] = useState('');
+  const [isAsking, setIsAsking] = useState(false);
+  const [askError, setAskError] = useState<string | null>(null);
+  // The answer being read aloud, by index
+  const speech = useClipPlayback<number>();
+  const listEndRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    listEndRef.current?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+  }, [messages, isAsking]);
+
+  const ask = async (question: string) => {
+    const trimmed = question.trim();
+    if (!trimmed || isAsking) return;
+
+    const history = messages;
+    setMessages([...history, { role: 'user', text: trimmed, sources: [] }]);
+    setDraft('');
+    setAskError(null);
+    setIsAsking(true);
+    try {
+      const answer = await onAsk(trimmed, history);
+      setMessages(prev => [...prev, { role: 'model', text: answer.text, sources: answer.sources }]);
+    } catch (e) {
+      console.error(e);
+      // Drop the unanswered question so it can be edited and asked again
+      setMessages(history);
+      setDraft(trimmed);
+      setAskError(e instanceof Error ? e.message : 'The question could not be answered.');
+    } finally {
+      setIsAsking(false);
+    }
+  };
+
+  const handleSubmit = (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    ask(draft);
+  };
+
+  return (
+    <div className="mt-6 pt-6 border-t border-white/10">
+      <h4 className="text-lg font-semibold text-cyan-400 mb-3">Ask about {landmarkName}</h4>
+
+      {messages.length === 0 && (
+        <div className="flex flex-wrap gap-2 mb-4">
+          {SUGGESTED_QUESTIONS.map(question => (
+            <button
+              key={question}
+              onClick={() => ask(question)}
+              disabled={isAsking}
+              className="px-3 py-1 text-sm text-gray-300 border border-white/10 rounded-full hover:border-cyan-400 hover:text-cyan-300 transition-colors"
+            >
+              {question}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <ul className="space-y-4 mb-4">
+        {messages.map((message, index) => (
+          <li key={index} className={message.role === 'user' ? 'flex justify-end' : 'flex justify-start'}>
+            {message.role === 'user' ? (
+              <p className="max-w-[80%] px-4 py-2 bg-cyan-600/40 rounded-2xl text-white">{message.text}</p>
+            ) : (
+              <div className="max-w-[90%] px-4 py-3 bg-gray-900/60 border border-white/10 rounded-2xl">
+                <div className="prose prose-invert max-w-none text-gray-300">
+                  <MarkdownContent markdown={message.text} />
+                </div>
+                <div className="mt-2 flex flex-wrap items-center gap-x-4 gap-y-1 text-sm">
+                  <button
+                    onClick={() => speech.toggle(index, () => onSpeak(message.text))}
+                    className="inline-flex items-center gap-1 text-cyan-300 hover:text-cyan-200"
+                    aria-label={speech.activeKey === index ? 'Stop reading aloud' : 'Read answer aloud'}
+                  >
+                    {speech.activeKey !== index ? (
+                      <PlayIcon className="w-4 h-4" />
+                    ) : speech.isPlaying ? (
+                      <PauseIcon className="w-4 h-4" />
+                    ) : (
+                      <SpinnerIcon className="w-4 h-4" />
+                    )}
+                    <span>{speech.activeKey === index ? 'Stop' : 'Listen'}</span>
+                  </button>
+                  {message.sources.map((source, sourceIndex) => (
+                    source.web && (
+                      <a
+                        key={sourceIndex}
+                        href={source.web.uri}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="text-cyan-500 hover:underline"
+                      >
+                        {source.web.title}
+                      </a>
+                    )
+                  ))}
+                </div>
+              </div>
+            )}
+          </li>
+        ))}
+        {isAsking && (
+          <li className="flex items-center gap-2 text-gray-400">
+            <SpinnerIcon className="w-4 h-4" />
+            <span>Looking that up...</span>
+          </li>
+        )}
+      </ul>
+      <div ref={listEndRef} />
+
+      {askError && <p className="mb-3 text-sm text-red-300">{askError}</p>}
+
+      <form onSubmit={handleSubmit} className="flex gap-2">
+        <input
+          type="text"
+          value={draft}
+          onChange={(event) => setDraft(event.target.value)}
+          placeholder="Ask a follow-up question"
+          disabled={isAsking}
+          className="flex-1 px-4 py-2 bg-gray-900/60 border border-white/10 rounded-full text-white placeholder-gray-500 focus:outline-none focus:border-cyan-400"
+        />
+        <button
+          type="submit"
+          disabled={isAsking || !draft.trim()}
+          className="px-5 py-2 bg-cyan-500 text-white font-semibold rounded-full hover:bg-cyan-400 transition-colors disabled:bg-gray-600 disabled:cursor-not-allowed"
+        >
+          Ask
+        </button>
+      </form>
+    </div>
+  );
+};
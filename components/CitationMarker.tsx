@@ -0,0 +1,58 @@
+import React, { useRef, useState } from 'react';
+import { CitationMarkerProps } from '../types';
+
+/**
+ * Numbered superscript that previews its source on hover (mouse) or tap (touch)
+ */
+export const CitationMarker: React.FC<CitationMarkerProps> = ({ source }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const wrapperRef = useRef<HTMLSpanElement>(null);
+
+  const handlePointer = (open: boolean) => (event: React.PointerEvent) => {
+    // Touch screens fire pointerenter right before the click, which would immediately toggle it shut
+    if (event.pointerType === 'mouse') setIsOpen(open);
+  };
+
+  const handleBlur = (event: React.FocusEvent) => {
+    // Keep the preview open while focus moves to its own link
+    if (!wrapperRef.current?.contains(event.relatedTarget as Node | null)) setIsOpen(false);
+  };
+
+  return (
+    <span
+      ref={wrapperRef}
+      className="relative inline-block"
+      onPointerEnter={handlePointer(true)}
+      onPointerLeave={handlePointer(false)}
+    >
+      <button
+        type="button"
+        onClick={() => setIsOpen(prev => !prev)}
+        onBlur={handleBlur}
+        className="align-super text-[0.65em] font-semibold leading-none px-0.5 text-cyan-400 hover:text-cyan-300"
+        aria-label={`Source ${source.number}: ${source.title}`}
+        aria-expanded={isOpen}
+      >
+        [{source.number}]
+      </button>
+      {isOpen && (
+        <span
+          role="tooltip"
+          className="absolute z-20 bottom-full left-1/2 -translate-x-1/2 mb-1 w-64 p-3 text-left text-sm not-italic font-normal bg-gray-900 border border-white/10 rounded-lg shadow-xl"
+        >
+          <span className="block font-semibold text-white">{source.title}</span>
+          <span className="block text-xs text-gray-400">{source.domain}</span>
+          <a
+            href={source.uri}
+            target="_blank"
+            rel="noopener noreferrer"
+            onBlur={handleBlur}
+            className="mt-2 inline-block text-xs text-cyan-400 hover:underline"
+          >
+            Open source
+          </a>
+        </span>
+      )}
+    </span>
+  );
+};
@@ -1,17 +1,32 @@
 import React from 'react';
 import { ErrorDisplayProps } from '../types';
+import { ERROR_CATEGORY_DETAILS } from '../utils/errors';
 
-export const ErrorDisplay: React.FC<ErrorDisplayProps> = ({ error, onReset }) => (
-  <div className="text-center p-8 bg-red-900/50 border border-red-500 rounded-xl max-w-md mx-auto">
-    <h2 className="text-2xl font-bold text-red-300 mb-2">Analysis Failed</h2>
-    <p className="text-red-200 mb-6">{error}</p>
-    <button 
-      onClick={onReset} 
-      className="px-6 py-2 bg-red-500 text-white font-semibold rounded-full hover:bg-red-400 transition-colors"
-    >
-      Try Again
-    </button>
-  </div>
-);
-
-
+export const ErrorDisplay: React.FC<ErrorDisplayProps> = ({ error, category, onReset, onRetry }) => {
+  const { title, hint } = ERROR_CATEGORY_DETAILS[category];
+  return (
+    <div className="text-center p-8 bg-red-900/50 border border-red-500 rounded-xl max-w-md mx-auto">
+      <h2 className="text-2xl font-bold text-red-300 mb-2">{title}</h2>
+      <p className="text-red-200 mb-2">{error}</p>
+      {hint && <p className="text-sm text-red-200/70">{hint}</p>}
+      <div className="mt-6 flex flex-wrap justify-center gap-3">
+        {onRetry && (
+          <button
+            onClick={onRetry}
+            className="px-6 py-2 bg-red-500 text-white font-semibold rounded-full hover:bg-red-400 transition-colors"
+          >
+            Retry
+          </button>
+        )}
+        <button 
+          onClick={onReset} 
+          className={onRetry
+            ? 'px-6 py-2 text-red-200 font-semibold rounded-full hover:bg-red-500/20 transition-colors'
+            : 'px-6 py-2 bg-red-500 text-white font-semibold rounded-full hover:bg-red-400 transition-colors'}
+        >
+          {onRetry ? 'New Photo' : 'Try Again'}
+        </button>
+      </div>
+    </div>
+  );
+};
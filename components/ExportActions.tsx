@@ -0,0 +1,73 @@
+import React, { useState } from 'react';
+import { ExportActionsProps } from '../types';
+import { blobToDataUrl, downloadBlob, toFileSlug } from '../utils/helpers';
+import { createNarrationWav } from '../utils/audioExport';
+import { createOfflineGuideHtml } from '../utils/tourExport';
+import { DownloadIcon, SpinnerIcon } from './Icons';
+
+export const ExportActions: React.FC<ExportActionsProps> = ({
+  imageUrl,
+  landmarkName,
+  landmarkInfo,
+  sources,
+  audioChunks,
+  isNarrationComplete,
+}) => {
+  const [isExportingGuide, setIsExportingGuide] = useState(false);
+  const [exportError, setExportError] = useState<string | null>(null);
+  const canExportAudio = isNarrationComplete && audioChunks.length > 0;
+  const fileSlug = toFileSlug(landmarkName);
+
+  const handleDownloadAudio = () => {
+    setExportError(null);
+    try {
+      downloadBlob(createNarrationWav(audioChunks), `${fileSlug}-narration.wav`);
+    } catch (error) {
+      console.error('Failed to export narration:', error);
+      setExportError('The narration could not be saved. Please try again.');
+    }
+  };
+
+  const handleDownloadGuide = async () => {
+    setIsExportingGuide(true);
+    setExportError(null);
+    try {
+      const imageBlob = await fetch(imageUrl).then(response => response.blob());
+      const html = createOfflineGuideHtml({
+        landmarkName,
+        landmarkInfo,
+        sources,
+        imageDataUrl: await blobToDataUrl(imageBlob),
+        audioDataUrl: canExportAudio ? await blobToDataUrl(createNarrationWav(audioChunks)) : undefined,
+      });
+      downloadBlob(new Blob([html], { type: 'text/html' }), `${fileSlug}-guide.html`);
+    } catch (error) {
+      console.error('Failed to export offline guide:', error);
+      setExportError('The offline guide could not be saved. Please try again.');
+    } finally {
+      setIsExportingGuide(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-3">
+      <button
+        onClick={handleDownloadAudio}
+        disabled={!canExportAudio}
+        className="flex items-center gap-2 px-4 py-2 border border-cyan-500/50 text-cyan-300 font-semibold rounded-full hover:bg-cyan-500/10 transition-colors disabled:border-gray-600 disabled:text-gray-500 disabled:cursor-not-allowed"
+      >
+        <DownloadIcon className="w-5 h-5" />
+        <span>Download Audio</span>
+      </button>
+      <button
+        onClick={handleDownloadGuide}
+        disabled={!landmarkInfo || isExportingGuide}
+        className="flex items-center gap-2 px-4 py-2 border border-cyan-500/50 text-cyan-300 font-semibold rounded-full hover:bg-cyan-500/10 transition-colors disabled:border-gray-600 disabled:text-gray-500 disabled:cursor-not-allowed"
+      >
+        {isExportingGuide ? <SpinnerIcon className="w-5 h-5" /> : <DownloadIcon className="w-5 h-5" />}
+        <span>Save Offline Guide</span>
+      </button>
+      {exportError && <p className="text-sm text-red-300" role="alert">{exportError}</p>}
+    </div>
+  );
+};
@@ -0,0 +1,77 @@
+import React from 'react';
+import { GuideSettings, GuideSettingsPanelProps } from '../types';
+import { PERSONAS, VOICES } from '../utils/personas';
+import { useClipPlayback } from '../hooks/useClipPlayback';
+import { PauseIcon, PlayIcon, SpinnerIcon } from './Icons';
+
+const selectClassName = 'bg-gray-900/60 border border-white/10 rounded-full px-3 py-1 text-gray-200 disabled:opacity-50';
+
+export const GuideSettingsPanel: React.FC<GuideSettingsPanelProps> = ({ value, onChange, onPreview, disabled = false }) => {
+  const preview = useClipPlayback<string>();
+  const update = (changes: Partial<GuideSettings>) => {
+    preview.stop();
+    onChange({ ...value, ...changes });
+  };
+  const previewKey = `${value.persona}|${value.voice ?? ''}`;
+  const isPreviewing = preview.activeKey === previewKey;
+
+  return (
+    <details className="mt-4 text-sm text-gray-300">
+      <summary className="cursor-pointer select-none hover:text-cyan-300">Guide settings</summary>
+      <div className="mt-3 space-y-3 text-left inline-block max-w-md">
+        <fieldset className="space-y-2" disabled={disabled}>
+          <legend className="mb-1">Persona</legend>
+          {PERSONAS.map(persona => (
+            <label key={persona.id} className="flex items-start gap-2 cursor-pointer">
+              <input
+                type="radio"
+                name="guide-persona"
+                value={persona.id}
+                checked={value.persona === persona.id}
+                onChange={() => update({ persona: persona.id })}
+                className="mt-1 w-4 h-4 accent-cyan-500"
+              />
+              <span>
+                <span className="text-gray-200">{persona.label}</span>
+                <span className="block text-xs text-gray-500">{persona.description}</span>
+              </span>
+            </label>
+          ))}
+        </fieldset>
+
+        <div className="flex items-center justify-between gap-4">
+          <label className="flex items-center gap-2">
+            <span>Voice</span>
+            <select
+              value={value.voice ?? ''}
+              onChange={(event) => update({ voice: event.target.value || null })}
+              disabled={disabled}
+              className={selectClassName}
+            >
+              <option value="">Persona's voice</option>
+              {VOICES.map(voice => (
+                <option key={voice.name} value={voice.name}>{voice.name} · {voice.character}</option>
+              ))}
+            </select>
+          </label>
+          <button
+            type="button"
+            onClick={() => preview.toggle(previewKey, () => onPreview(value))}
+            disabled={disabled}
+            className="inline-flex items-center gap-1 text-cyan-300 hover:text-cyan-200 disabled:text-gray-500"
+            aria-label={isPreviewing ? 'Stop the voice preview' : 'Preview this voice'}
+          >
+            {!isPreviewing ? (
+              <PlayIcon className="w-4 h-4" />
+            ) : preview.isPlaying ? (
+              <PauseIcon className="w-4 h-4" />
+            ) : (
+              <SpinnerIcon className="w-4 h-4" />
+            )}
+            <span>{isPreviewing ? 'Stop' : 'Preview'}</span>
+          </button>
+        </div>
+      </div>
+    </details>
+  );
+};
@@ -1,14 +1,42 @@
 import React, { useState, useCallback } from 'react';
 import { ImageUploaderProps } from '../types';
-import { UploadIcon } from './Icons';
+import { CameraIcon, UploadIcon } from './Icons';
+import { LanguageSelector } from './LanguageSelector';
+import { PhotoSettingsPanel } from './PhotoSettingsPanel';
+import { GuideSettingsPanel } from './GuideSettingsPanel';
+import { isImageFile } from '../utils/photoPreparation';
 
-export const ImageUploader: React.FC<ImageUploaderProps> = React.memo(({ onImageSelect, isProcessing }) => {
+export const ImageUploader: React.FC<ImageUploaderProps> = React.memo(({
+  onImageSelect,
+  onBatchSelect,
+  onOpenCamera,
+  isProcessing,
+  language,
+  onLanguageChange,
+  photoSettings,
+  onPhotoSettingsChange,
+  guideSettings,
+  onGuideSettingsChange,
+  onPreviewVoice,
+  isOnline,
+  queuedUploads,
+}) => {
   const [isDragActive, setIsDragActive] = useState(false);
 
-  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
-    if (event.target.files && event.target.files[0]) {
-      onImageSelect(event.target.files[0]);
+  // A single photo opens a tour straight away; several start a batch. A lone file is passed through
+  // even if it isn't an image, so preparation can explain what is wrong with it.
+  const selectFiles = useCallback((fileList: FileList | null) => {
+    const selected = Array.from(fileList ?? []);
+    const files = selected.length === 1 ? selected : selected.filter(isImageFile);
+    if (files.length === 1) {
+      onImageSelect(files[0]);
+    } else if (files.length > 1) {
+      onBatchSelect(files);
     }
+  }, [onImageSelect, onBatchSelect]);
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    selectFiles(event.target.files);
   };
 
   const handleDragOver = useCallback((event: React.DragEvent<HTMLLabelElement>) => {
@@ -39,16 +67,20 @@ export const ImageUploader: React.FC<ImageUploaderProps> = React.memo(({ onImage
       return;
     }
 
-    const droppedFiles = event.dataTransfer.files;
-    if (droppedFiles && droppedFiles[0]) {
-      onImageSelect(droppedFiles[0]);
-    }
-  }, [isProcessing, onImageSelect]);
+    selectFiles(event.dataTransfer.files);
+  }, [isProcessing, selectFiles]);
 
   return (
     <div className="w-full max-w-lg mx-auto text-center">
       <h2 className="text-3xl font-bold text-cyan-300 mb-2">AI Photo Tour Guide</h2>
-      <p className="text-lg text-gray-300 mb-8">Upload a photo of a landmark to learn its story.</p>
+      <p className="text-lg text-gray-300 mb-8">Upload a photo of a landmark to learn its story, or a whole album for one tour per landmark.</p>
+      {(!isOnline || queuedUploads > 0) && (
+        <p className="mb-4 px-4 py-2 rounded-lg bg-yellow-900/30 border border-yellow-500/40 text-yellow-200 text-sm" role="status">
+          {isOnline
+            ? `Analyzing ${queuedUploads} queued ${queuedUploads === 1 ? 'photo' : 'photos'}...`
+            : `You're offline. Photos you pick are queued and analyzed when you reconnect${queuedUploads > 0 ? ` (${queuedUploads} waiting)` : ''}. Past Tours still open.`}
+        </p>
+      )}
       <label
         htmlFor="image-upload"
         className={`relative block w-full p-8 border-2 border-dashed rounded-xl cursor-pointer transition-colors duration-300 ${
@@ -68,17 +100,36 @@ export const ImageUploader: React.FC<ImageUploaderProps> = React.memo(({ onImage
           <span className="text-xl font-semibold text-white">
             {isProcessing ? 'Processing...' : 'Click to upload or drag & drop'}
           </span>
-          <span className="mt-2 text-gray-400">PNG, JPG, or WEBP</span>
+          <span className="mt-2 text-gray-400">PNG, JPG, WEBP or HEIC. Select several photos for batch mode.</span>
         </div>
         <input
           id="image-upload"
           type="file"
           className="sr-only"
-          accept="image/png, image/jpeg, image/webp"
+          accept="image/png, image/jpeg, image/webp, image/heic, image/heif, .heic, .heif"
+          multiple
           onChange={handleFileChange}
           disabled={isProcessing}
         />
       </label>
+      <button
+        onClick={onOpenCamera}
+        disabled={isProcessing}
+        className="mt-4 inline-flex items-center gap-2 px-5 py-2 bg-cyan-500 text-white font-semibold rounded-full hover:bg-cyan-400 transition-colors disabled:bg-gray-600 disabled:cursor-not-allowed"
+      >
+        <CameraIcon className="w-5 h-5" />
+        <span>Use camera</span>
+      </button>
+      <div className="mt-4">
+        <LanguageSelector value={language} onChange={onLanguageChange} disabled={isProcessing} />
+      </div>
+      <GuideSettingsPanel
+        value={guideSettings}
+        onChange={onGuideSettingsChange}
+        onPreview={onPreviewVoice}
+        disabled={isProcessing}
+      />
+      <PhotoSettingsPanel value={photoSettings} onChange={onPhotoSettingsChange} disabled={isProcessing} />
     </div>
   );
 });
@@ -0,0 +1,58 @@
+import React, { useState } from 'react';
+import { LandmarkConfirmationProps } from '../types';
+import { formatLandmarkName } from '../utils/identification';
+
+const formatConfidence = (confidence: number): string => `${Math.round(confidence * 100)}%`;
+
+export const LandmarkConfirmation: React.FC<LandmarkConfirmationProps> = ({ identification, onConfirm }) => {
+  const [correction, setCorrection] = useState('');
+  const candidates = [identification, ...identification.alternatives].filter(candidate => candidate.name);
+
+  const handleSubmit = (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (correction.trim()) {
+      onConfirm(correction.trim());
+    }
+  };
+
+  return (
+    <div className="py-4">
+      <p className="text-lg font-semibold text-white mb-1">Which landmark is this?</p>
+      <p className="text-gray-400 mb-4">We're not confident about this photo. Pick the right one or type the name.</p>
+
+      <ul className="space-y-2 mb-6">
+        {candidates.map(candidate => {
+          const name = formatLandmarkName(candidate);
+          return (
+            <li key={name}>
+              <button
+                onClick={() => onConfirm(name)}
+                className="w-full flex items-center justify-between gap-4 px-4 py-3 bg-gray-900/60 border border-white/10 rounded-xl text-left text-white hover:border-cyan-400 hover:bg-cyan-900/20 transition-colors"
+              >
+                <span>{name}</span>
+                <span className="text-sm text-gray-400">{formatConfidence(candidate.confidence)}</span>
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+
+      <form onSubmit={handleSubmit} className="flex gap-2">
+        <input
+          type="text"
+          value={correction}
+          onChange={(event) => setCorrection(event.target.value)}
+          placeholder="e.g. Sagrada Família, Barcelona, Spain"
+          className="flex-1 px-4 py-2 bg-gray-900/60 border border-white/10 rounded-full text-white placeholder-gray-500 focus:outline-none focus:border-cyan-400"
+        />
+        <button
+          type="submit"
+          disabled={!correction.trim()}
+          className="px-4 py-2 bg-cyan-500 text-black font-semibold rounded-full hover:bg-cyan-400 transition-all disabled:bg-gray-600 disabled:cursor-not-allowed"
+        >
+          Use this name
+        </button>
+      </form>
+    </div>
+  );
+};
@@ -0,0 +1,140 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { LandmarkMapProps } from '../types';
+import { MapPoint, MapView, TILE_SIZE, fitView, project, unproject } from '../utils/mapProjection';
+
+// Close enough to see the streets around a single landmark
+const MAX_FIT_ZOOM = 16;
+const MIN_ZOOM = 1;
+
+interface DragStart {
+  pointerId: number;
+  x: number;
+  y: number;
+  center: MapPoint;
+}
+
+/**
+ * A small slippy map: tiles from the given source, draggable, with zoom buttons and clickable pins
+ */
+export const LandmarkMap: React.FC<LandmarkMapProps> = ({ pins, tiles, onSelectPin, height = 240 }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [width, setWidth] = useState(0);
+  const [view, setView] = useState<MapView | null>(null);
+  const dragRef = useRef<DragStart | null>(null);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const observer = new ResizeObserver(([entry]) => setWidth(entry.contentRect.width));
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  // Frame all the pins once the map has a size, and again whenever the pins change
+  const isMeasured = width > 0;
+  const pinsKey = pins.map(pin => `${pin.id}@${pin.coordinates.latitude},${pin.coordinates.longitude}`).join('|');
+  useEffect(() => {
+    if (isMeasured) {
+      const maxZoom = Math.min(tiles.maxZoom, MAX_FIT_ZOOM);
+      setView(fitView(pins.map(pin => pin.coordinates), containerRef.current?.clientWidth ?? 0, height, maxZoom));
+    }
+  }, [pinsKey, isMeasured, height, tiles]);
+
+  const zoomBy = (delta: number) => {
+    setView(current => current && {
+      ...current,
+      zoom: Math.max(MIN_ZOOM, Math.min(tiles.maxZoom, current.zoom + delta)),
+    });
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLDivElement>) => {
+    // Pins and buttons keep their clicks
+    if (!view || (event.target as HTMLElement).closest('button')) return;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    dragRef.current = { pointerId: event.pointerId, x: event.clientX, y: event.clientY, center: project(view.center, view.zoom) };
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    if (!drag || drag.pointerId !== event.pointerId) return;
+    setView(current => current && {
+      ...current,
+      center: unproject({ x: drag.center.x - (event.clientX - drag.x), y: drag.center.y - (event.clientY - drag.y) }, current.zoom),
+    });
+  };
+
+  const handlePointerUp = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (dragRef.current?.pointerId === event.pointerId) dragRef.current = null;
+  };
+
+  const renderMap = ({ center, zoom }: MapView) => {
+    const centerPoint = project(center, zoom);
+    const left = centerPoint.x - width / 2;
+    const top = centerPoint.y - height / 2;
+    const tileCount = 2 ** zoom;
+
+    const tileImages: React.ReactNode[] = [];
+    for (let tileY = Math.max(0, Math.floor(top / TILE_SIZE)); tileY <= Math.min(tileCount - 1, Math.floor((top + height) / TILE_SIZE)); tileY++) {
+      for (let tileX = Math.floor(left / TILE_SIZE); tileX <= Math.floor((left + width) / TILE_SIZE); tileX++) {
+        // The world repeats sideways
+        const wrappedX = ((tileX % tileCount) + tileCount) % tileCount;
+        tileImages.push(
+          <img
+            key={`${zoom}/${tileX}/${tileY}`}
+            src={tiles.tileUrl(zoom, wrappedX, tileY)}
+            alt=""
+            draggable={false}
+            className="absolute max-w-none select-none"
+            style={{ left: tileX * TILE_SIZE - left, top: tileY * TILE_SIZE - top, width: TILE_SIZE, height: TILE_SIZE }}
+          />
+        );
+      }
+    }
+
+    return (
+      <>
+        {tileImages}
+        {pins.map(pin => {
+          const point = project(pin.coordinates, zoom);
+          const style = { left: point.x - left, top: point.y - top };
+          const marker = <span className="block w-4 h-4 rounded-full bg-cyan-400 border-2 border-white shadow-lg" />;
+          return onSelectPin ? (
+            <button
+              key={pin.id}
+              onClick={() => onSelectPin(pin.id)}
+              className="absolute -translate-x-1/2 -translate-y-1/2 hover:scale-125 transition-transform"
+              style={style}
+              title={pin.label}
+              aria-label={`Open ${pin.label}`}
+            >
+              {marker}
+            </button>
+          ) : (
+            <span key={pin.id} className="absolute -translate-x-1/2 -translate-y-1/2" style={style} title={pin.label}>
+              {marker}
+            </span>
+          );
+        })}
+      </>
+    );
+  };
+
+  return (
+    <div
+      ref={containerRef}
+      className="relative overflow-hidden rounded-xl border border-white/10 bg-gray-900 touch-none cursor-grab active:cursor-grabbing"
+      style={{ height }}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+    >
+      {view && isMeasured && renderMap(view)}
+      <div className="absolute top-2 right-2 flex flex-col rounded-lg overflow-hidden bg-black/60 text-white">
+        <button onClick={() => zoomBy(1)} className="w-8 h-8 hover:bg-cyan-500/80" aria-label="Zoom in">+</button>
+        <button onClick={() => zoomBy(-1)} className="w-8 h-8 hover:bg-cyan-500/80" aria-label="Zoom out">−</button>
+      </div>
+      <p className="absolute bottom-0 right-0 px-1 text-[10px] text-gray-300 bg-black/60">{tiles.attribution}</p>
+    </div>
+  );
+};
@@ -0,0 +1,19 @@
+import React from 'react';
+import { LanguageSelectorProps } from '../types';
+import { LANGUAGES } from '../utils/languages';
+
+export const LanguageSelector: React.FC<LanguageSelectorProps> = ({ value, onChange, disabled = false }) => (
+  <label className="inline-flex items-center gap-2 text-sm text-gray-300">
+    <span>Guide language</span>
+    <select
+      value={value}
+      onChange={(event) => onChange(event.target.value)}
+      disabled={disabled}
+      className="bg-gray-900/60 border border-white/10 rounded-full px-3 py-1 text-gray-200 disabled:opacity-50"
+    >
+      {LANGUAGES.map(language => (
+        <option key={language.code} value={language.code}>{language.label}</option>
+      ))}
+    </select>
+  </label>
+);
@@ -0,0 +1,75 @@
+import { readFileSync } from 'fs';
+import path from 'path';
+import React from 'react';
+import { renderToStaticMarkup } from 'react-dom/server';
+import { describe, expect, it } from 'vitest';
+import { CitedSource } from '../types';
+import { MarkdownContent } from './MarkdownContent';
+
+const history = readFileSync(path.resolve(__dirname, '../utils/__fixtures__/gemini-history-eiffel.md'), 'utf8');
+const chatAnswer = readFileSync(path.resolve(__dirname, '../utils/__fixtures__/gemini-chat-colosseum.md'), 'utf8');
+
+const render = (element: React.ReactElement) => renderToStaticMarkup(element);
+
+const officialSite: CitedSource = {
+  number: 1,
+  uri: 'https://www.toureiffel.paris/en',
+  title: 'toureiffel.paris',
+  domain: 'toureiffel.paris',
+  supports: [],
+};
+
+describe('MarkdownContent', () => {
+  it('renders "# " as h2 and "## " as h3 under the landmark name', () => {
+    const html = render(<MarkdownContent markdown={history} />);
+    expect(html).toContain('The Eiffel Tower: The Iron Lady of Paris</h2>');
+    expect(html).toContain('A Controversial Beginning</h3>');
+    expect(html).not.toContain('<h1');
+  });
+
+  it('renders nested lists inside their items', () => {
+    const html = render(<MarkdownContent markdown={history} />);
+    expect(html).toMatch(/<ol start="1"[^>]*><li>.*?<li><strong[^>]*>The first platform \(1888\):<\/strong> The legs were joined at 57 metres\.<ul[^>]*><li>Hydraulic jacks/);
+    expect(render(<MarkdownContent markdown={chatAnswer} />)).toMatch(/ordinary citizens\.<ul[^>]*><li>Women and the poor/);
+  });
+
+  it('renders tables with their alignments', () => {
+    const html = render(<MarkdownContent markdown={history} />);
+    expect(html).toMatch(/<th class="[^"]*text-left">Feature<\/th><th class="[^"]*text-right">Figure<\/th>/);
+    expect(html).toMatch(/<td class="[^"]*text-left">Rivets<\/td><td class="[^"]*text-right">2\.5 million<\/td>/);
+  });
+
+  it('opens links in a new tab without an opener', () => {
+    const html = render(<MarkdownContent markdown={history} />);
+    expect(html).toContain('<a href="https://www.toureiffel.paris/en" target="_blank" rel="noopener noreferrer"');
+  });
+
+  it('wraps sentences in numbered spans and cites after the sentence', () => {
+    const markdown = 'Tickets can be booked online. The tower opened in 1889.';
+    const citations = new Map([[0, [officialSite]]]);
+    const html = render(<MarkdownContent markdown={markdown} sentenceSpans citations={citations} />);
+
+    expect(html).toMatch(/<span data-sentence="0"[^>]*>Tickets can be booked online\.<\/span><span[^>]*><button[^>]*>\[1\]<\/button>/);
+    expect(html).toMatch(/<\/span> <span data-sentence="1"[^>]*>The tower opened in 1889\.<\/span>/);
+    expect(html.match(/\[1\]<\/button>/g)).toHaveLength(1);
+  });
+
+  it('keeps a sentence running across bold text in one sentence index', () => {
+    const html = render(<MarkdownContent markdown="**Height:** 330 m. Second sentence." sentenceSpans />);
+    expect(html).toMatch(/<strong[^>]*><span data-sentence="0"[^>]*>Height:<\/span><\/strong><span data-sentence="0"[^>]*> 330 m\.<\/span>/);
+    expect(html).toContain('data-sentence="1"');
+  });
+
+  it('escapes raw HTML instead of rendering it', () => {
+    const html = render(<MarkdownContent markdown={'Hello <script>alert(1)</script> <img src=x onerror=alert(1)>'} sentenceSpans />);
+    expect(html).not.toContain('<script');
+    expect(html).not.toContain('<img');
+    expect(html).toContain('&lt;script&gt;alert(1)&lt;/script&gt;');
+  });
+
+  it('never renders javascript: or data: links', () => {
+    const html = render(<MarkdownContent markdown="[click](javascript:alert(1)) and [this](data:text/html,hi)" />);
+    expect(html).not.toContain('href');
+    expect(html).toContain('click and this');
+  });
+});
@@ -0,0 +1,205 @@
+import React, { useMemo } from 'react';
+import { CitedSource, MarkdownContentProps } from '../types';
+import {
+  MarkdownBlock,
+  MarkdownInline,
+  SENTENCE_MARKER_SPLIT_PATTERN,
+  TableAlignment,
+  parseMarkdown,
+  stripSentenceMarkers,
+} from '../utils/markdown';
+import { CitationMarker } from './CitationMarker';
+
+const SENTENCE_CLASS = 'transcript-sentence cursor-pointer rounded transition-colors hover:bg-white/5';
+
+const HEADING_CLASSES: Record<number, string> = {
+  1: 'text-2xl font-bold mt-6 mb-3 text-cyan-300',
+  2: 'text-xl font-semibold mt-4 mb-2 text-cyan-300',
+  3: 'text-lg font-semibold mt-4 mb-2 text-cyan-200',
+};
+const MINOR_HEADING_CLASS = 'font-semibold mt-3 mb-1 text-cyan-200';
+
+const ALIGNMENT_CLASSES: Record<NonNullable<TableAlignment>, string> = {
+  left: 'text-left',
+  center: 'text-center',
+  right: 'text-right',
+};
+
+const NO_CITATIONS = new Map<number, CitedSource[]>();
+
+// The sentence the text being rendered belongs to. A sentence can run across several elements
+// (e.g. "**Height:** 330 m."), so every text leaf gets its own span carrying the same index.
+interface SentenceCursor {
+  current: number | null;
+  citations: Map<number, CitedSource[]>;
+  // Sentences whose citation markers have already been placed
+  cited: Set<number>;
+}
+
+/**
+ * Places the current sentence's citation markers; called where the sentence ends
+ */
+const closeSentence = (cursor: SentenceCursor): React.ReactNode => {
+  const sentence = cursor.current;
+  const sources = sentence === null ? undefined : cursor.citations.get(sentence);
+  if (sentence === null || !sources || cursor.cited.has(sentence)) return null;
+
+  cursor.cited.add(sentence);
+  return (
+    <React.Fragment key={`cite-${sentence}`}>
+      {sources.map(source => <CitationMarker key={source.number} source={source} />)}
+    </React.Fragment>
+  );
+};
+
+const renderText = (text: string, cursor: SentenceCursor): React.ReactNode[] => {
+  const nodes: React.ReactNode[] = [];
+  const parts = text.split(SENTENCE_MARKER_SPLIT_PATTERN);
+  // Space between two sentences is placed after the first one's citation markers
+  let gap = '';
+  // Odd positions hold the indexes captured by the split pattern
+  parts.forEach((part, index) => {
+    if (index % 2 === 1) {
+      nodes.push(closeSentence(cursor), gap);
+      gap = '';
+      cursor.current = Number(part);
+      return;
+    }
+    const body = index < parts.length - 1 ? part.trimEnd() : part;
+    gap = part.slice(body.length);
+    if (body) {
+      nodes.push(cursor.current === null ? body : (
+        <span key={index} data-sentence={cursor.current} className={SENTENCE_CLASS}>{body}</span>
+      ));
+    }
+  });
+  return nodes;
+};
+
+const renderInline = (nodes: MarkdownInline[], cursor: SentenceCursor): React.ReactNode[] =>
+  nodes.map((node, index) => {
+    switch (node.type) {
+      case 'text':
+        return <React.Fragment key={index}>{renderText(node.text, cursor)}</React.Fragment>;
+      case 'code':
+        return (
+          <code key={index} className="px-1 py-0.5 rounded bg-gray-900/60 text-cyan-200 text-[0.9em]">
+            {renderText(node.text, cursor)}
+          </code>
+        );
+      case 'strong':
+        return <strong key={index} className="font-semibold text-white">{renderInline(node.children, cursor)}</strong>;
+      case 'emphasis':
+        return <em key={index}>{renderInline(node.children, cursor)}</em>;
+      case 'strikethrough':
+        return <del key={index}>{renderInline(node.children, cursor)}</del>;
+      case 'link':
+        return (
+          <a key={index} href={node.href} target="_blank" rel="noopener noreferrer" className="text-cyan-400 hover:underline">
+            {renderInline(node.children, cursor)}
+          </a>
+        );
+      case 'break':
+        return <br key={index} />;
+    }
+  });
+
+const renderBlocks = (blocks: MarkdownBlock[], cursor: SentenceCursor): React.ReactNode[] =>
+  blocks.map((block, index) => {
+    // Sentences never continue from one block into the next
+    cursor.current = null;
+    switch (block.type) {
+      case 'heading': {
+        // The landmark name is the page's h2, so "# " maps to h2 and "## " to h3 as before
+        const Tag = `h${Math.min(block.level + 1, 6)}` as 'h3';
+        return (
+          <Tag key={index} className={HEADING_CLASSES[block.level] ?? MINOR_HEADING_CLASS}>
+            {renderInline(block.children, cursor)}
+            {closeSentence(cursor)}
+          </Tag>
+        );
+      }
+      case 'paragraph':
+        return (
+          <p key={index} className="my-3 whitespace-pre-line">
+            {renderInline(block.children, cursor)}
+            {closeSentence(cursor)}
+          </p>
+        );
+      case 'list': {
+        const items = block.items.map((item, itemIndex) => {
+          cursor.current = null;
+          return (
+            <li key={itemIndex}>
+              {renderInline(item.content, cursor)}
+              {closeSentence(cursor)}
+              {renderBlocks(item.children, cursor)}
+            </li>
+          );
+        });
+        return block.ordered ? (
+          <ol key={index} start={block.start} className="ml-5 my-2 list-decimal space-y-1">{items}</ol>
+        ) : (
+          <ul key={index} className="ml-5 my-2 list-disc space-y-1">{items}</ul>
+        );
+      }
+      case 'blockquote':
+        return (
+          <blockquote key={index} className="my-3 pl-4 border-l-4 border-cyan-500/40 italic text-gray-400">
+            {renderBlocks(block.children, cursor)}
+          </blockquote>
+        );
+      case 'code':
+        return (
+          <pre key={index} className="my-3 p-3 rounded-lg bg-gray-900/60 overflow-x-auto text-sm">
+            <code>{stripSentenceMarkers(block.text)}</code>
+          </pre>
+        );
+      case 'table':
+        return (
+          <div key={index} className="my-4 overflow-x-auto">
+            <table className="w-full text-sm border-collapse">
+              <thead>
+                <tr>
+                  {block.header.map((cell, column) => (
+                    <th
+                      key={column}
+                      className={`px-3 py-2 font-semibold text-cyan-200 border-b border-white/20 ${ALIGNMENT_CLASSES[block.alignments[column] ?? 'left']}`}
+                    >
+                      {renderInline(cell, cursor)}
+                      {closeSentence(cursor)}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {block.rows.map((row, rowIndex) => (
+                  <tr key={rowIndex}>
+                    {row.map((cell, column) => (
+                      <td
+                        key={column}
+                        className={`px-3 py-2 border-b border-white/10 ${ALIGNMENT_CLASSES[block.alignments[column] ?? 'left']}`}
+                      >
+                        {renderInline(cell, cursor)}
+                        {closeSentence(cursor)}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        );
+      case 'rule':
+        return <hr key={index} className="my-6 border-white/10" />;
+    }
+  });
+
+/**
+ * Renders model markdown as React elements. Nothing is injected as HTML, and only http(s) and
+ * mailto links are kept, so the output is safe for untrusted text.
+ */
+export const MarkdownContent: React.FC<MarkdownContentProps> = React.memo(({ markdown, sentenceSpans = false, citations }) => {
+  const blocks = useMemo(() => parseMarkdown(markdown, { sentenceMarkers: sentenceSpans }), [markdown, sentenceSpans]);
+  return <>{renderBlocks(blocks, { current: null, citations: citations ?? NO_CITATIONS, cited: new Set() })}</>;
+});
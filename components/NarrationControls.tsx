@@ -0,0 +1,66 @@
+import React from 'react';
+import { NarrationControlsProps } from '../types';
+import { PLAYBACK_RATES } from '../hooks/useAudioPlayback';
+import { formatPlaybackTime } from '../utils/helpers';
+import { SkipBackIcon, SkipForwardIcon } from './Icons';
+
+const SKIP_SECONDS = 15;
+
+export const NarrationControls: React.FC<NarrationControlsProps> = ({
+  currentTime,
+  duration,
+  playbackRate,
+  disabled,
+  onSeek,
+  onSkip,
+  onPlaybackRateChange,
+}) => (
+  <div className="mb-6 flex flex-col gap-2">
+    <input
+      type="range"
+      min={0}
+      max={duration || 0}
+      step={0.1}
+      value={Math.min(currentTime, duration)}
+      onChange={(event) => onSeek(Number(event.target.value))}
+      disabled={disabled}
+      className="w-full accent-cyan-400 disabled:opacity-50"
+      aria-label="Narration progress"
+    />
+    <div className="flex items-center justify-between text-sm text-gray-400">
+      <span>{formatPlaybackTime(currentTime)}</span>
+      <div className="flex items-center gap-2">
+        <button
+          onClick={() => onSkip(-SKIP_SECONDS)}
+          disabled={disabled}
+          className="flex items-center gap-1 px-2 py-1 rounded-full hover:bg-white/10 hover:text-cyan-300 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          aria-label={`Back ${SKIP_SECONDS} seconds`}
+        >
+          <SkipBackIcon className="w-5 h-5" />
+          <span>{SKIP_SECONDS}s</span>
+        </button>
+        <button
+          onClick={() => onSkip(SKIP_SECONDS)}
+          disabled={disabled}
+          className="flex items-center gap-1 px-2 py-1 rounded-full hover:bg-white/10 hover:text-cyan-300 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          aria-label={`Forward ${SKIP_SECONDS} seconds`}
+        >
+          <span>{SKIP_SECONDS}s</span>
+          <SkipForwardIcon className="w-5 h-5" />
+        </button>
+        <select
+          value={playbackRate}
+          onChange={(event) => onPlaybackRateChange(Number(event.target.value))}
+          disabled={disabled}
+          className="bg-gray-900/60 border border-white/10 rounded-full px-2 py-1 text-gray-200 disabled:opacity-50"
+          aria-label="Playback speed"
+        >
+          {PLAYBACK_RATES.map(rate => (
+            <option key={rate} value={rate}>{rate}x</option>
+          ))}
+        </select>
+      </div>
+      <span>{formatPlaybackTime(duration)}</span>
+    </div>
+  </div>
+);
@@ -0,0 +1,103 @@
+import React, { useState } from 'react';
+import { NearbyPlaces, NearbyPlacesPanelProps } from '../types';
+import { buildBibliography } from '../utils/citations';
+import { formatDistance } from '../utils/nearby';
+import { SpinnerIcon } from './Icons';
+
+export const NearbyPlacesPanel: React.FC<NearbyPlacesPanelProps> = ({
+  landmarkName,
+  onFind,
+  plannedStops,
+  onAddStop,
+  onOpenWalkingTour,
+}) => {
+  const [result, setResult] = useState<NearbyPlaces | null>(null);
+  const [isSearching, setIsSearching] = useState(false);
+  const [searchError, setSearchError] = useState<string | null>(null);
+
+  const search = async () => {
+    setIsSearching(true);
+    setSearchError(null);
+    try {
+      setResult(await onFind());
+    } catch (e) {
+      console.error(e);
+      setSearchError(e instanceof Error ? e.message : 'Nearby places could not be found.');
+    } finally {
+      setIsSearching(false);
+    }
+  };
+
+  const sources = result ? buildBibliography(result.sources) : [];
+  // The first planned stop is this landmark itself
+  const stopCount = Math.max(0, plannedStops.length - 1);
+
+  return (
+    <div className="mt-6 pt-6 border-t border-white/10">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-3">
+        <h4 className="text-lg font-semibold text-cyan-400">What's nearby</h4>
+        {stopCount > 0 && (
+          <button
+            onClick={onOpenWalkingTour}
+            className="px-4 py-2 bg-cyan-500 text-white font-semibold rounded-full hover:bg-cyan-400 transition-colors"
+          >
+            Walking tour ({stopCount} {stopCount === 1 ? 'stop' : 'stops'})
+          </button>
+        )}
+      </div>
+
+      {!result && (
+        <button
+          onClick={search}
+          disabled={isSearching}
+          className="inline-flex items-center gap-2 px-3 py-1 text-sm text-gray-300 border border-white/10 rounded-full hover:border-cyan-400 hover:text-cyan-300 transition-colors disabled:cursor-not-allowed"
+        >
+          {isSearching && <SpinnerIcon className="w-4 h-4" />}
+          <span>{isSearching ? 'Searching...' : `Find places within walking distance of ${landmarkName}`}</span>
+        </button>
+      )}
+      {searchError && <p className="mt-2 text-sm text-red-300">{searchError}</p>}
+
+      {result && result.places.length === 0 && (
+        <p className="text-sm text-gray-400">No other landmarks were found within walking distance.</p>
+      )}
+      {result && result.places.length > 0 && (
+        <ul className="space-y-3">
+          {result.places.map(place => {
+            const isPlanned = plannedStops.includes(place.name);
+            return (
+              <li key={place.name} className="flex items-start justify-between gap-4">
+                <div>
+                  <p className="text-white">
+                    {place.name} <span className="text-sm text-gray-500">· {formatDistance(place.distanceMeters)}</span>
+                  </p>
+                  <p className="text-sm text-gray-400">{place.hook}</p>
+                </div>
+                <button
+                  onClick={() => onAddStop(place)}
+                  disabled={isPlanned}
+                  className="shrink-0 text-sm font-semibold text-cyan-300 hover:text-cyan-200 disabled:text-gray-500"
+                >
+                  {isPlanned ? 'On the tour' : 'Add to walk'}
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+      {sources.length > 0 && (
+        <p className="mt-3 text-xs text-gray-500">
+          Found with:{' '}
+          {sources.map((source, index) => (
+            <React.Fragment key={source.number}>
+              {index > 0 && ', '}
+              <a href={source.uri} target="_blank" rel="noopener noreferrer" className="hover:underline">
+                {source.domain}
+              </a>
+            </React.Fragment>
+          ))}
+        </p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,80 @@
+import React from 'react';
+import { PhotoSettings, PhotoSettingsPanelProps } from '../types';
+import { MAX_DIMENSION_OPTIONS } from '../utils/photoPreparation';
+
+const FORMAT_LABELS: Record<PhotoSettings['format'], string> = {
+  'image/jpeg': 'JPEG',
+  'image/webp': 'WebP',
+};
+
+const selectClassName = 'bg-gray-900/60 border border-white/10 rounded-full px-3 py-1 text-gray-200 disabled:opacity-50';
+
+export const PhotoSettingsPanel: React.FC<PhotoSettingsPanelProps> = ({ value, onChange, disabled = false }) => {
+  const update = (changes: Partial<PhotoSettings>) => onChange({ ...value, ...changes });
+
+  return (
+    <details className="mt-4 text-sm text-gray-300">
+      <summary className="cursor-pointer select-none hover:text-cyan-300">Photo settings</summary>
+      <div className="mt-3 space-y-3 text-left inline-block">
+        <label className="flex items-center gap-2 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={value.shareLocation}
+            onChange={(event) => update({ shareLocation: event.target.checked })}
+            disabled={disabled}
+            className="w-4 h-4 accent-cyan-500"
+          />
+          <span>Use the photo's location to help identify it</span>
+        </label>
+        {!value.shareLocation && (
+          <p className="text-xs text-gray-500">GPS data is removed from photos before they are sent.</p>
+        )}
+
+        <label className="flex items-center justify-between gap-4">
+          <span>Maximum size</span>
+          <select
+            value={value.maxDimension}
+            onChange={(event) => update({ maxDimension: Number(event.target.value) })}
+            disabled={disabled}
+            className={selectClassName}
+          >
+            {MAX_DIMENSION_OPTIONS.map(size => (
+              <option key={size} value={size}>{size}px</option>
+            ))}
+          </select>
+        </label>
+
+        <label className="flex items-center justify-between gap-4">
+          <span>Format</span>
+          <select
+            value={value.format}
+            onChange={(event) => update({ format: event.target.value as PhotoSettings['format'] })}
+            disabled={disabled}
+            className={selectClassName}
+          >
+            {Object.entries(FORMAT_LABELS).map(([format, label]) => (
+              <option key={format} value={format}>{label}</option>
+            ))}
+          </select>
+        </label>
+
+        <label className="flex items-center justify-between gap-4">
+          <span>Quality</span>
+          <span className="flex items-center gap-2">
+            <input
+              type="range"
+              min={0.5}
+              max={1}
+              step={0.05}
+              value={value.quality}
+              onChange={(event) => update({ quality: Number(event.target.value) })}
+              disabled={disabled}
+              className="accent-cyan-500"
+            />
+            <span className="w-10 text-right tabular-nums">{Math.round(value.quality * 100)}%</span>
+          </span>
+        </label>
+      </div>
+    </details>
+  );
+};
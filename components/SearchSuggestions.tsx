@@ -0,0 +1,15 @@
+import React from 'react';
+import { SearchSuggestionsProps } from '../types';
+
+/**
+ * Google's search suggestion chips, which grounded answers are required to show. The snippet comes
+ * with its own markup and styles, so it is isolated in a sandboxed frame; its links open in a new tab.
+ */
+export const SearchSuggestions: React.FC<SearchSuggestionsProps> = ({ renderedContent }) => (
+  <iframe
+    title="Google Search suggestions"
+    srcDoc={`<!DOCTYPE html><html><head><base target="_blank" /></head><body style="margin:0">${renderedContent}</body></html>`}
+    sandbox="allow-popups allow-popups-to-escape-sandbox"
+    className="mt-4 w-full h-16 border-0 rounded-lg"
+  />
+);
@@ -0,0 +1,79 @@
+import React, { useEffect, useState } from 'react';
+import { ShareButtonProps } from '../types';
+import { createNarrationWav } from '../utils/audioExport';
+import { toFileSlug } from '../utils/helpers';
+import { isAbortError } from '../utils/retry';
+import { createShareUrl } from '../utils/shareLink';
+import { ShareIcon, SpinnerIcon } from './Icons';
+
+/**
+ * Shares a link that opens the tour read-only. Where the Web Share API is available (mostly mobile)
+ * the narration goes along as a WAV file; elsewhere the link is copied to the clipboard.
+ */
+export const ShareButton: React.FC<ShareButtonProps> = ({ tour, audioChunks, isNarrationComplete }) => {
+  const [shareUrl, setShareUrl] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [linkError, setLinkError] = useState<string | null>(null);
+  // Bumped by "Try again" to build the link once more
+  const [linkAttempt, setLinkAttempt] = useState(0);
+  const { landmarkName, landmarkInfo, sources, language, persona } = tour;
+
+  // Built ahead of the click: browsers only allow sharing right after a tap, and compressing takes a moment
+  useEffect(() => {
+    let isCurrent = true;
+    setShareUrl(null);
+    setLinkError(null);
+    createShareUrl({ landmarkName, landmarkInfo, sources, language, persona })
+      .then(url => { if (isCurrent) setShareUrl(url); })
+      .catch(error => {
+        console.error('Failed to create share link:', error);
+        if (isCurrent) setLinkError('Could not create a share link');
+      });
+    return () => { isCurrent = false; };
+  }, [landmarkName, landmarkInfo, sources, language, persona, linkAttempt]);
+
+  const handleShare = async () => {
+    if (!shareUrl) return;
+    setNotice(null);
+    try {
+      if (navigator.share) {
+        const data: ShareData = { title: landmarkName, text: `A tour of ${landmarkName}`, url: shareUrl };
+        if (isNarrationComplete && audioChunks.length > 0) {
+          const audio = new File([createNarrationWav(audioChunks)], `${toFileSlug(landmarkName)}-narration.wav`, { type: 'audio/wav' });
+          if (navigator.canShare?.({ files: [audio] })) data.files = [audio];
+        }
+        await navigator.share(data);
+      } else {
+        await navigator.clipboard.writeText(shareUrl);
+        setNotice('Link copied');
+      }
+    } catch (error) {
+      // Closing the share sheet is not a failure
+      if (isAbortError(error)) return;
+      console.error('Failed to share tour:', error);
+      setNotice('Could not share this tour');
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-3">
+      <button
+        onClick={handleShare}
+        disabled={!shareUrl}
+        className="flex items-center gap-2 px-4 py-2 border border-cyan-500/50 text-cyan-300 font-semibold rounded-full hover:bg-cyan-500/10 transition-colors disabled:border-gray-600 disabled:text-gray-500 disabled:cursor-not-allowed"
+      >
+        {shareUrl || linkError ? <ShareIcon className="w-5 h-5" /> : <SpinnerIcon className="w-5 h-5" />}
+        <span>Share</span>
+      </button>
+      {notice && <span className="text-sm text-gray-400" role="status">{notice}</span>}
+      {linkError && (
+        <p className="text-sm text-red-300" role="alert">
+          {linkError}.{' '}
+          <button onClick={() => setLinkAttempt(attempt => attempt + 1)} className="underline hover:text-red-200">
+            Try again
+          </button>
+        </p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,116 @@
+import React, { useMemo } from 'react';
+import { SharedTourViewProps } from '../types';
+import { useAudioPlayback } from '../hooks/useAudioPlayback';
+import { buildBibliography, mapCitationsToSentences } from '../utils/citations';
+import { getLanguage } from '../utils/languages';
+import { getPersona } from '../utils/personas';
+import { NarrationControls } from './NarrationControls';
+import { MarkdownContent } from './MarkdownContent';
+import { StepErrorNotice } from './StepErrorNotice';
+import { PauseIcon, PlayIcon, ResetIcon, SpinnerIcon } from './Icons';
+
+/**
+ * A tour opened from a share link: read-only, without the photo, with narration created on request
+ */
+export const SharedTourView: React.FC<SharedTourViewProps> = ({
+  tour,
+  audioChunks,
+  narrationStatus,
+  narrationFailure,
+  onNarrate,
+  onClose,
+}) => {
+  const { isPlaying, isAudioReady, currentTime, duration, playbackRate, togglePlayback, seek, skip, setPlaybackRate } =
+    useAudioPlayback(audioChunks, narrationStatus === 'done');
+  const bibliography = useMemo(() => buildBibliography(tour.sources), [tour.sources]);
+  const citations = useMemo(() => mapCitationsToSentences(tour.landmarkInfo, bibliography), [tour.landmarkInfo, bibliography]);
+  const isCreatingAudio = narrationStatus === 'narrating' && !isAudioReady;
+
+  const handlePlay = () => {
+    if (narrationStatus === 'idle') {
+      onNarrate();
+    } else {
+      togglePlayback();
+    }
+  };
+
+  return (
+    <div className="w-full max-w-5xl mx-auto animate-fade-in">
+      <div className="p-6 md:p-8 bg-gray-800/50 backdrop-blur-md rounded-2xl border border-white/10">
+        <div className="flex items-start justify-between gap-3">
+          <div>
+            <p className="text-sm text-gray-400">
+              Shared tour · {getPersona(tour.persona).label} · {getLanguage(tour.language).label}
+            </p>
+            <h2 className="text-3xl md:text-5xl font-bold text-white">{tour.landmarkName}</h2>
+          </div>
+          <button
+            onClick={onClose}
+            className="shrink-0 bg-black/50 p-2 rounded-full text-white hover:bg-cyan-500/80 transition-colors"
+            aria-label="Close shared tour"
+          >
+            <ResetIcon className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="mt-6 flex flex-wrap items-center justify-between gap-3 mb-4">
+          <h3 className="text-2xl font-bold text-cyan-300">Guide</h3>
+          <button
+            onClick={handlePlay}
+            disabled={narrationStatus !== 'idle' && !isAudioReady}
+            className="flex items-center gap-2 px-4 py-2 bg-cyan-500 text-black font-semibold rounded-full hover:bg-cyan-400 transition-all disabled:bg-gray-600 disabled:cursor-not-allowed"
+          >
+            {isCreatingAudio ? (
+              <SpinnerIcon className="w-6 h-6" />
+            ) : isPlaying ? (
+              <PauseIcon className="w-6 h-6" />
+            ) : (
+              <PlayIcon className="w-6 h-6" />
+            )}
+            <span>
+              {isCreatingAudio
+                ? 'Creating Audio'
+                : isPlaying
+                ? 'Pause'
+                : 'Play Narration'}
+            </span>
+          </button>
+        </div>
+
+        {narrationStatus !== 'idle' && (
+          <NarrationControls
+            currentTime={currentTime}
+            duration={duration}
+            playbackRate={playbackRate}
+            disabled={!isAudioReady}
+            onSeek={seek}
+            onSkip={skip}
+            onPlaybackRateChange={setPlaybackRate}
+          />
+        )}
+
+        {narrationFailure && <StepErrorNotice failure={narrationFailure} onRetry={onNarrate} />}
+
+        <div className="prose prose-invert prose-lg max-w-none text-gray-300">
+          <MarkdownContent markdown={tour.landmarkInfo} sentenceSpans citations={citations} />
+        </div>
+
+        {bibliography.length > 0 && (
+          <div className="mt-6 pt-6 border-t border-white/10">
+            <h4 className="text-lg font-semibold text-cyan-400 mb-2">Sources:</h4>
+            <ol className="space-y-1 text-sm">
+              {bibliography.map(source => (
+                <li key={source.number} className="flex gap-2">
+                  <span className="text-gray-500">[{source.number}]</span>
+                  <a href={source.uri} target="_blank" rel="noopener noreferrer" className="text-cyan-500 hover:underline">
+                    {source.title}
+                  </a>
+                </li>
+              ))}
+            </ol>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
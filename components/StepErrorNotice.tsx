@@ -0,0 +1,34 @@
+import React from 'react';
+import { PipelineStep, StepErrorNoticeProps } from '../types';
+import { ERROR_CATEGORY_DETAILS } from '../utils/errors';
+import { ResetIcon } from './Icons';
+
+const STEP_LABELS: Record<PipelineStep, { title: string; retry: string }> = {
+  identify: { title: 'The landmark could not be identified', retry: 'Retry identification' },
+  history: { title: 'The guide could not be loaded', retry: 'Retry history' },
+  narration: { title: 'The audio narration could not be created', retry: 'Retry audio' },
+};
+
+/**
+ * Inline notice for a step that failed while the rest of the tour stays usable
+ */
+export const StepErrorNotice: React.FC<StepErrorNoticeProps> = ({ failure, onRetry }) => {
+  const { title, retry } = STEP_LABELS[failure.step];
+  const { hint } = ERROR_CATEGORY_DETAILS[failure.category];
+  return (
+    <div role="alert" className="my-4 p-4 flex flex-wrap items-center justify-between gap-3 bg-red-900/40 border border-red-500/60 rounded-xl">
+      <div className="min-w-0 flex-1">
+        <p className="font-semibold text-red-300">{title}</p>
+        <p className="text-sm text-red-200">{failure.message}</p>
+        {hint && <p className="text-xs text-red-200/70 mt-1">{hint}</p>}
+      </div>
+      <button
+        onClick={onRetry}
+        className="flex items-center gap-2 px-4 py-2 bg-red-500 text-white font-semibold rounded-full hover:bg-red-400 transition-colors"
+      >
+        <ResetIcon className="w-5 h-5" />
+        <span>{retry}</span>
+      </button>
+    </div>
+  );
+};
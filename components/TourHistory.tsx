@@ -0,0 +1,139 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { SavedTour, TourHistoryProps } from '../types';
+import { deleteTour, listTours } from '../services/tourHistory';
+import { InlineLoader } from './InlineLoader';
+import { LandmarkMap } from './LandmarkMap';
+import { ResetIcon, TrashIcon } from './Icons';
+
+const formatTourDate = (timestamp: number): string => {
+  return new Date(timestamp).toLocaleDateString(undefined, { year: 'numeric', month: 'short', day: 'numeric' });
+};
+
+export const TourHistory: React.FC<TourHistoryProps> = ({ onOpenTour, onClose, tiles }) => {
+  const [tours, setTours] = useState<SavedTour[] | null>(null);
+  const [query, setQuery] = useState('');
+  const [isMapView, setIsMapView] = useState(false);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  useEffect(() => {
+    listTours()
+      .then(setTours)
+      .catch(error => {
+        console.error('Failed to load tour history:', error);
+        setLoadError('Could not load your saved tours.');
+        setTours([]);
+      });
+  }, []);
+
+  const thumbnailUrls = useMemo(
+    () => new Map((tours ?? []).map(tour => [tour.id, URL.createObjectURL(tour.thumbnail)])),
+    [tours]
+  );
+
+  useEffect(() => () => thumbnailUrls.forEach(url => URL.revokeObjectURL(url)), [thumbnailUrls]);
+
+  const visibleTours = useMemo(() => {
+    const needle = query.trim().toLowerCase();
+    return (tours ?? []).filter(tour => !needle || tour.landmarkName.toLowerCase().includes(needle));
+  }, [tours, query]);
+
+  const mapPins = useMemo(() => visibleTours.flatMap(tour => (
+    tour.coordinates ? [{ id: tour.id, coordinates: tour.coordinates, label: tour.landmarkName }] : []
+  )), [visibleTours]);
+
+  const handleSelectPin = (id: string) => {
+    const tour = visibleTours.find(candidate => candidate.id === id);
+    if (tour) onOpenTour(tour);
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      await deleteTour(id);
+      setTours(prev => (prev ?? []).filter(tour => tour.id !== id));
+    } catch (error) {
+      console.error('Failed to delete tour:', error);
+      setLoadError('Could not delete that tour.');
+    }
+  };
+
+  return (
+    <div className="w-full max-w-3xl mx-auto animate-fade-in">
+      <div className="flex items-center justify-between mb-6">
+        <h2 className="text-3xl font-bold text-cyan-300">Past Tours</h2>
+        <button
+          onClick={onClose}
+          className="bg-black/50 p-2 rounded-full text-white hover:bg-cyan-500/80 transition-colors"
+          aria-label="Back to upload"
+        >
+          <ResetIcon className="w-6 h-6" />
+        </button>
+      </div>
+
+      <div className="flex items-center gap-3 mb-6">
+        <input
+          type="search"
+          value={query}
+          onChange={(event) => setQuery(event.target.value)}
+          placeholder="Search by landmark name"
+          className="flex-1 px-4 py-2 bg-gray-800/50 border border-white/10 rounded-full text-white placeholder-gray-500 focus:outline-none focus:border-cyan-400"
+        />
+        <button
+          onClick={() => setIsMapView(value => !value)}
+          className="px-4 py-2 text-cyan-300 font-semibold rounded-full hover:bg-cyan-900/30 transition-colors"
+        >
+          {isMapView ? 'List' : 'Map'}
+        </button>
+      </div>
+
+      {loadError && <p className="mb-4 text-red-300">{loadError}</p>}
+
+      {tours === null ? (
+        <InlineLoader text="Loading saved tours..." />
+      ) : visibleTours.length === 0 ? (
+        <p className="text-center text-gray-400 py-10">
+          {tours.length === 0 ? 'No saved tours yet. Finished tours appear here.' : 'No tours match your search.'}
+        </p>
+      ) : isMapView ? (
+        <>
+          <LandmarkMap pins={mapPins} tiles={tiles} onSelectPin={handleSelectPin} height={420} />
+          {mapPins.length < visibleTours.length && (
+            <p className="mt-2 text-sm text-gray-400">
+              {visibleTours.length - mapPins.length} of these tours have no known location and are only in the list.
+            </p>
+          )}
+        </>
+      ) : (
+        <ul className="space-y-3">
+          {visibleTours.map(tour => (
+            <li
+              key={tour.id}
+              className="flex items-center gap-4 p-3 bg-gray-800/50 backdrop-blur-md rounded-xl border border-white/10 hover:border-cyan-400/50 transition-colors"
+            >
+              <button
+                onClick={() => onOpenTour(tour)}
+                className="flex flex-1 items-center gap-4 text-left"
+              >
+                <img
+                  src={thumbnailUrls.get(tour.id)}
+                  alt=""
+                  className="w-16 h-16 rounded-lg object-cover"
+                />
+                <div>
+                  <p className="text-lg font-semibold text-white">{tour.landmarkName}</p>
+                  <p className="text-sm text-gray-400">{formatTourDate(tour.createdAt)}</p>
+                </div>
+              </button>
+              <button
+                onClick={() => handleDelete(tour.id)}
+                className="p-2 rounded-full text-gray-400 hover:text-red-300 hover:bg-red-900/30 transition-colors"
+                aria-label={`Delete ${tour.landmarkName}`}
+              >
+                <TrashIcon className="w-5 h-5" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
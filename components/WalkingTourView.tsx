@@ -0,0 +1,198 @@
+import React, { useMemo } from 'react';
+import { Status, WalkingTourStop, WalkingTourViewProps } from '../types';
+import { useAudioPlayback } from '../hooks/useAudioPlayback';
+import { distanceInMeters, formatDistance } from '../utils/nearby';
+import { MarkdownContent } from './MarkdownContent';
+import { NarrationControls } from './NarrationControls';
+import { PauseIcon, PlayIcon, ResetIcon, SpinnerIcon, TrashIcon } from './Icons';
+
+const STATUS_LABELS: Partial<Record<Status, string>> = {
+  [Status.Fetching]: 'Writing guide...',
+  [Status.Narrating]: 'Recording narration...',
+  [Status.Done]: 'Ready',
+  [Status.Error]: 'Failed',
+};
+
+/**
+ * Index of the stop playing at `time`, given how many narration chunks each stop has
+ */
+const findPlayingStop = (chunkCounts: number[], chunkDurations: number[], time: number): number => {
+  let chunk = 0;
+  let elapsed = 0;
+  for (let stop = 0; stop < chunkCounts.length; stop++) {
+    for (let i = 0; i < chunkCounts[stop]; i++, chunk++) {
+      elapsed += chunkDurations[chunk] ?? 0;
+      if (time < elapsed) return stop;
+    }
+  }
+  return chunkCounts.length - 1;
+};
+
+// Plays the stops back to back. Only stops that are ready and not behind an unfinished one are
+// queued, so the audio list only ever grows; reordering remounts the player.
+const WalkingTourPlayer: React.FC<{ stops: WalkingTourStop[] }> = ({ stops }) => {
+  const readyCount = stops.findIndex(stop => stop.status !== Status.Done);
+  const playable = useMemo(() => (readyCount === -1 ? stops : stops.slice(0, readyCount)), [stops, readyCount]);
+  const audioChunks = useMemo(() => playable.flatMap(stop => stop.audioChunks), [playable]);
+  const {
+    isPlaying,
+    isAudioReady,
+    currentTime,
+    duration,
+    chunkDurations,
+    playbackRate,
+    togglePlayback,
+    seek,
+    skip,
+    setPlaybackRate,
+  } = useAudioPlayback(audioChunks, readyCount === -1);
+  const playingStop = findPlayingStop(playable.map(stop => stop.audioChunks.length), chunkDurations, currentTime);
+
+  return (
+    <div className="mb-6 p-4 bg-gray-800/50 backdrop-blur-md rounded-xl border border-white/10">
+      <div className="flex items-center justify-between gap-4 mb-3">
+        <p className="text-gray-300">
+          {isPlaying || currentTime > 0 ? (
+            <>Stop {playingStop + 1}: <span className="text-white">{playable[playingStop]?.name}</span></>
+          ) : (
+            `${playable.length} of ${stops.length} stops ready to play`
+          )}
+        </p>
+        <button
+          onClick={togglePlayback}
+          disabled={!isAudioReady}
+          className="flex items-center gap-2 px-4 py-2 bg-cyan-500 text-black font-semibold rounded-full hover:bg-cyan-400 transition-all disabled:bg-gray-600 disabled:cursor-not-allowed"
+        >
+          {isPlaying ? <PauseIcon className="w-6 h-6" /> : <PlayIcon className="w-6 h-6" />}
+          <span>{isPlaying ? 'Pause' : 'Play Walking Tour'}</span>
+        </button>
+      </div>
+      <NarrationControls
+        currentTime={currentTime}
+        duration={duration}
+        playbackRate={playbackRate}
+        disabled={!isAudioReady}
+        onSeek={seek}
+        onSkip={skip}
+        onPlaybackRateChange={setPlaybackRate}
+      />
+    </div>
+  );
+};
+
+export const WalkingTourView: React.FC<WalkingTourViewProps> = ({
+  stops,
+  onMoveStop,
+  onRemoveStop,
+  onOptimizeRoute,
+  onRetryStop,
+  onClose,
+}) => {
+  // Straight-line distance from the previous stop, where both positions are known
+  const legs = stops.map((stop, index) => {
+    const previous = stops[index - 1];
+    return previous?.coordinates && stop.coordinates ? distanceInMeters(previous.coordinates, stop.coordinates) : null;
+  });
+  const totalDistance = legs.reduce((total: number, leg) => total + (leg ?? 0), 0);
+
+  return (
+    <div className="w-full max-w-4xl mx-auto animate-fade-in">
+      <div className="flex items-center justify-between mb-2">
+        <h2 className="text-3xl font-bold text-cyan-300">Walking Tour</h2>
+        <button
+          onClick={onClose}
+          className="bg-black/50 p-2 rounded-full text-white hover:bg-cyan-500/80 transition-colors"
+          aria-label="Back to the guide"
+        >
+          <ResetIcon className="w-6 h-6" />
+        </button>
+      </div>
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-6">
+        <p className="text-gray-400">
+          {stops.length} {stops.length === 1 ? 'stop' : 'stops'}
+          {totalDistance > 0 && <> · about {formatDistance(totalDistance)} on foot, as the crow flies</>}
+        </p>
+        <button
+          onClick={onOptimizeRoute}
+          disabled={stops.length < 3}
+          className="text-sm font-semibold text-cyan-300 hover:text-cyan-200 disabled:text-gray-500"
+          title="Always walk to the closest remaining stop next"
+        >
+          Shortest route
+        </button>
+      </div>
+
+      <WalkingTourPlayer key={stops.map(stop => stop.key).join('|')} stops={stops} />
+
+      {stops.length < 2 && (
+        <p className="mb-4 text-gray-400">Add places from "What's nearby" under the guide to plan your walk.</p>
+      )}
+      <ol className="space-y-3">
+        {stops.map((stop, index) => (
+          <li key={stop.key} className="p-4 bg-gray-800/50 backdrop-blur-md rounded-xl border border-white/10">
+            <div className="flex items-start justify-between gap-4">
+              <div>
+                <p className="text-lg font-semibold text-white">
+                  <span className="text-gray-500">{index + 1}.</span> {stop.name}
+                </p>
+                {legs[index] !== null && (
+                  <p className="text-xs text-gray-500">{formatDistance(legs[index]!)} from the previous stop</p>
+                )}
+                {stop.hook && <p className="text-sm text-gray-400">{stop.hook}</p>}
+                <p className={`mt-1 inline-flex items-center gap-1 text-xs font-semibold ${
+                  stop.status === Status.Error ? 'text-red-300' : stop.status === Status.Done ? 'text-cyan-300' : 'text-gray-300'
+                }`}>
+                  {(stop.status === Status.Fetching || stop.status === Status.Narrating) && <SpinnerIcon className="w-3 h-3" />}
+                  {STATUS_LABELS[stop.status]}
+                </p>
+                {stop.status === Status.Error && (
+                  <div className="text-xs">
+                    {stop.error && <p className="text-red-200">{stop.error}</p>}
+                    <button onClick={() => onRetryStop(stop.key)} className="font-semibold text-cyan-300 hover:text-cyan-200">
+                      Retry
+                    </button>
+                  </div>
+                )}
+              </div>
+              {index > 0 && (
+                <div className="flex shrink-0 items-center gap-1 text-gray-300">
+                  <button
+                    onClick={() => onMoveStop(stop.key, -1)}
+                    disabled={index === 1}
+                    className="px-2 py-1 rounded hover:bg-white/10 disabled:text-gray-600"
+                    aria-label={`Move ${stop.name} earlier`}
+                  >
+                    ↑
+                  </button>
+                  <button
+                    onClick={() => onMoveStop(stop.key, 1)}
+                    disabled={index === stops.length - 1}
+                    className="px-2 py-1 rounded hover:bg-white/10 disabled:text-gray-600"
+                    aria-label={`Move ${stop.name} later`}
+                  >
+                    ↓
+                  </button>
+                  <button
+                    onClick={() => onRemoveStop(stop.key)}
+                    className="p-1 rounded hover:bg-white/10 hover:text-red-300"
+                    aria-label={`Remove ${stop.name}`}
+                  >
+                    <TrashIcon className="w-5 h-5" />
+                  </button>
+                </div>
+              )}
+            </div>
+            {stop.landmarkInfo && (
+              <details className="mt-3 text-sm">
+                <summary className="cursor-pointer select-none text-cyan-300 hover:text-cyan-200">Read the guide</summary>
+                <div className="mt-2 prose prose-invert max-w-none text-gray-300">
+                  <MarkdownContent markdown={stop.landmarkInfo} />
+                </div>
+              </details>
+            )}
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+};
@@ -1,72 +1,265 @@
 import { useState, useEffect, useRef } from 'react';
-import { decode, decodeAudioData } from '../utils/helpers';
+import { decode, decodeAudioData, NARRATION_CHANNELS, NARRATION_SAMPLE_RATE } from '../utils/helpers';
 
 interface UseAudioPlaybackReturn {
   isPlaying: boolean;
   isAudioReady: boolean;
+  // Seconds into the narration, and the length decoded so far
+  currentTime: number;
+  duration: number;
+  // Length of each decoded chunk, in the same order as audioChunks
+  chunkDurations: number[];
+  playbackRate: number;
   togglePlayback: () => void;
+  seek: (time: number) => void;
+  skip: (seconds: number) => void;
+  setPlaybackRate: (rate: number) => void;
 }
 
-const SAMPLE_RATE = 24000;
-const NUM_CHANNELS = 1;
+const TIME_UPDATE_INTERVAL_MS = 200;
 
-export const useAudioPlayback = (audioData: string): UseAudioPlaybackReturn => {
+export const PLAYBACK_RATES = [0.75, 1, 1.25, 1.5, 2];
+
+/**
+ * Plays a growing list of base64 PCM chunks back to back on a single seekable timeline.
+ * Chunks that arrive while playing are scheduled straight after the current one.
+ */
+export const useAudioPlayback = (audioChunks: string[], isComplete: boolean): UseAudioPlaybackReturn => {
   const [isPlaying, setIsPlaying] = useState(false);
   const [isAudioReady, setIsAudioReady] = useState(false);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [duration, setDuration] = useState(0);
+  const [chunkDurations, setChunkDurations] = useState<number[]>([]);
+  const [playbackRate, setPlaybackRateState] = useState(1);
   const audioContextRef = useRef<AudioContext | null>(null);
-  const audioBufferRef = useRef<AudioBuffer | null>(null);
-  const sourceRef = useRef<AudioBufferSourceNode | null>(null);
+  const buffersRef = useRef<AudioBuffer[]>([]);
+  const decodedCountRef = useRef(0);
+  const decodeChainRef = useRef<Promise<void>>(Promise.resolve());
+  const sourcesRef = useRef<AudioBufferSourceNode[]>([]);
+  const scheduledCountRef = useRef(0);
+  const nextStartTimeRef = useRef(0);
+  const isPlayingRef = useRef(false);
+  const isCompleteRef = useRef(isComplete);
+  const rateRef = useRef(1);
+  // Timeline position of the last (re)start and the context time it happened at
+  const anchorOffsetRef = useRef(0);
+  const anchorContextTimeRef = useRef(0);
+  const pausedAtRef = useRef(0);
+  // Bumped on every restart so stale onended callbacks are ignored
+  const generationRef = useRef(0);
+
+  isCompleteRef.current = isComplete;
+
+  const getTotalDuration = () => buffersRef.current.reduce((total, buffer) => total + buffer.duration, 0);
+
+  const getPosition = (): number => {
+    const ctx = audioContextRef.current;
+    if (!ctx || !isPlayingRef.current) return pausedAtRef.current;
+    const elapsed = Math.max(0, ctx.currentTime - anchorContextTimeRef.current) * rateRef.current;
+    return Math.min(anchorOffsetRef.current + elapsed, getTotalDuration());
+  };
+
+  const stopSources = () => {
+    generationRef.current += 1;
+    const sources = sourcesRef.current;
+    sourcesRef.current = [];
+    sources.forEach(source => source.stop());
+  };
+
+  const handleDrained = () => {
+    // Still streaming: keep "playing" and pick up again when the next chunk decodes
+    if (!isCompleteRef.current) return;
+
+    const total = getTotalDuration();
+    isPlayingRef.current = false;
+    pausedAtRef.current = total;
+    setCurrentTime(total);
+    setIsPlaying(false);
+  };
+
+  const scheduleBuffer = (index: number, offsetInBuffer: number) => {
+    const ctx = audioContextRef.current;
+    if (!ctx) return;
+
+    const generation = generationRef.current;
+    const buffer = buffersRef.current[index];
+    const source = ctx.createBufferSource();
+    source.buffer = buffer;
+    source.playbackRate.value = rateRef.current;
+    source.connect(ctx.destination);
+
+    const startAt = nextStartTimeRef.current;
+    source.start(startAt, offsetInBuffer);
+    nextStartTimeRef.current = startAt + (buffer.duration - offsetInBuffer) / rateRef.current;
+    scheduledCountRef.current = index + 1;
+    sourcesRef.current.push(source);
 
+    source.onended = () => {
+      if (generation !== generationRef.current) return;
+      sourcesRef.current = sourcesRef.current.filter(active => active !== source);
+      if (sourcesRef.current.length === 0 && scheduledCountRef.current === buffersRef.current.length) {
+        handleDrained();
+      }
+    };
+  };
+
+  const startPlayback = (from: number) => {
+    const ctx = audioContextRef.current;
+    if (!ctx) return;
+
+    stopSources();
+    ctx.resume();
+    isPlayingRef.current = true;
+    anchorOffsetRef.current = from;
+    anchorContextTimeRef.current = ctx.currentTime;
+    nextStartTimeRef.current = ctx.currentTime;
+
+    let chunkStart = 0;
+    buffersRef.current.forEach((buffer, index) => {
+      const chunkEnd = chunkStart + buffer.duration;
+      if (chunkEnd > from) {
+        scheduleBuffer(index, Math.max(0, from - chunkStart));
+      }
+      chunkStart = chunkEnd;
+    });
+    scheduledCountRef.current = buffersRef.current.length;
+
+    setCurrentTime(from);
+    setIsPlaying(true);
+    if (sourcesRef.current.length === 0) {
+      handleDrained();
+    }
+  };
+
+  const pausePlayback = () => {
+    pausedAtRef.current = getPosition();
+    isPlayingRef.current = false;
+    stopSources();
+    setCurrentTime(pausedAtRef.current);
+    setIsPlaying(false);
+  };
+
+  // A new first chunk means a new tour: start over with a fresh context
+  const firstChunk = audioChunks[0];
   useEffect(() => {
-    if (!audioData) {
+    if (!firstChunk) {
       setIsAudioReady(false);
       return;
     }
 
-    setIsAudioReady(false);
-    audioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ 
-      sampleRate: SAMPLE_RATE 
+    const ctx = new (window.AudioContext || (window as any).webkitAudioContext)({
+      sampleRate: NARRATION_SAMPLE_RATE
     });
-    
-    const decodedData = decode(audioData);
-    decodeAudioData(decodedData, audioContextRef.current, SAMPLE_RATE, NUM_CHANNELS)
-      .then(buffer => {
-        audioBufferRef.current = buffer;
-        setIsAudioReady(true);
-      })
-      .catch(error => {
-        console.error('Failed to decode audio:', error);
-        setIsAudioReady(false);
-      });
+    audioContextRef.current = ctx;
+    buffersRef.current = [];
+    decodedCountRef.current = 0;
+    decodeChainRef.current = Promise.resolve();
+    scheduledCountRef.current = 0;
+    pausedAtRef.current = 0;
+    setCurrentTime(0);
+    setDuration(0);
+    setChunkDurations([]);
+    setIsAudioReady(false);
 
     return () => {
-      sourceRef.current?.stop();
-      audioContextRef.current?.close();
+      isPlayingRef.current = false;
+      stopSources();
+      ctx.close();
+      audioContextRef.current = null;
+      setIsPlaying(false);
     };
-  }, [audioData]);
+  }, [firstChunk]);
+
+  // Decode newly arrived chunks in order, scheduling them if playback is underway
+  useEffect(() => {
+    const ctx = audioContextRef.current;
+    if (!ctx) return;
+
+    const pending = audioChunks.slice(decodedCountRef.current);
+    decodedCountRef.current = audioChunks.length;
+
+    pending.forEach(chunk => {
+      decodeChainRef.current = decodeChainRef.current
+        .then(() => decodeAudioData(decode(chunk), ctx, NARRATION_SAMPLE_RATE, NARRATION_CHANNELS))
+        .then(buffer => {
+          if (ctx !== audioContextRef.current) return;
+          const chunkStart = getTotalDuration();
+          buffersRef.current.push(buffer);
+          setDuration(getTotalDuration());
+          setChunkDurations(buffersRef.current.map(decoded => decoded.duration));
+          setIsAudioReady(true);
+
+          if (!isPlayingRef.current) return;
+          if (sourcesRef.current.length === 0) {
+            // Playback stalled waiting for this chunk, so re-anchor the timeline at its start
+            startPlayback(chunkStart);
+          } else {
+            scheduleBuffer(buffersRef.current.length - 1, 0);
+          }
+        })
+        .catch(error => {
+          console.error('Failed to decode audio:', error);
+        });
+    });
+  }, [audioChunks]);
+
+  useEffect(() => {
+    if (isComplete && isPlayingRef.current && sourcesRef.current.length === 0) {
+      handleDrained();
+    }
+  }, [isComplete]);
+
+  useEffect(() => {
+    if (!isPlaying) return;
+    const interval = setInterval(() => setCurrentTime(getPosition()), TIME_UPDATE_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [isPlaying]);
 
   const togglePlayback = () => {
-    if (!audioContextRef.current || !audioBufferRef.current) return;
+    if (!audioContextRef.current || buffersRef.current.length === 0) return;
 
-    if (isPlaying) {
-      sourceRef.current?.stop();
-      setIsPlaying(false);
+    if (isPlayingRef.current) {
+      pausePlayback();
+    } else {
+      // Replaying a finished narration starts from the top
+      const atEnd = isCompleteRef.current && pausedAtRef.current >= getTotalDuration();
+      startPlayback(atEnd ? 0 : pausedAtRef.current);
+    }
+  };
+
+  const seek = (time: number) => {
+    if (!audioContextRef.current || buffersRef.current.length === 0) return;
+
+    const target = Math.min(Math.max(0, time), getTotalDuration());
+    if (isPlayingRef.current) {
+      startPlayback(target);
     } else {
-      const source = audioContextRef.current.createBufferSource();
-      source.buffer = audioBufferRef.current;
-      source.connect(audioContextRef.current.destination);
-      source.onended = () => setIsPlaying(false);
-      source.start();
-      sourceRef.current = source;
-      setIsPlaying(true);
+      pausedAtRef.current = target;
+      setCurrentTime(target);
+    }
+  };
+
+  const skip = (seconds: number) => seek(getPosition() + seconds);
+
+  const setPlaybackRate = (rate: number) => {
+    const position = getPosition();
+    rateRef.current = rate;
+    setPlaybackRateState(rate);
+    if (isPlayingRef.current) {
+      startPlayback(position);
     }
   };
 
   return {
     isPlaying,
     isAudioReady,
+    currentTime,
+    duration,
+    chunkDurations,
+    playbackRate,
     togglePlayback,
+    seek,
+    skip,
+    setPlaybackRate,
   };
 };
-
-
@@ -0,0 +1,221 @@
+import { useCallback, useMemo, useRef, useState } from 'react';
+import { BatchItem, BatchTour, Coordinates, GuideSettings, NewSavedTour, PhotoSettings, Status, TourGuideProvider } from '../types';
+import { TourGuideError } from '../utils/errors';
+import { fileToBase64 } from '../utils/helpers';
+import { formatLandmarkName, normalizeLandmarkName, resolveNamedIdentification } from '../utils/identification';
+import { DEFAULT_LANGUAGE } from '../utils/languages';
+import { splitIntoNarrationSegments } from '../utils/narration';
+import { DEFAULT_GUIDE_SETTINGS, resolveVoice } from '../utils/personas';
+import { DEFAULT_PHOTO_SETTINGS, preparePhoto, toPhotoContext } from '../utils/photoPreparation';
+import { createTaskQueue } from '../utils/taskQueue';
+
+// At most one call started every two seconds keeps a batch under the server's default 30 requests a minute
+const BATCH_CONCURRENCY = 2;
+const BATCH_MIN_START_INTERVAL_MS = 2000;
+
+const toErrorMessage = (e: unknown): string => (e instanceof Error ? e.message : 'An unknown error occurred.');
+
+export interface BatchOptions {
+  language: string;
+  guideSettings: GuideSettings;
+  photoSettings: PhotoSettings;
+}
+
+export interface BatchAnalysis {
+  // Photos in upload order, each with its own status
+  items: BatchItem[];
+  // One entry per distinct landmark, in the order they were first identified
+  tours: BatchTour[];
+  // Returns the new photos' item ids, in the order of files
+  start: (files: File[], options: BatchOptions) => string[];
+  // Re-identifies a failed photo, or re-generates the failed tour it belongs to
+  retry: (itemId: string) => void;
+  clear: () => void;
+}
+
+/**
+ * Identifies many photos through a shared rate-limited queue and generates one tour per landmark
+ */
+export const useBatchAnalysis = (
+  provider: TourGuideProvider,
+  onTourComplete: (tour: Omit<NewSavedTour, 'thumbnail'>) => void,
+): BatchAnalysis => {
+  const [photos, setPhotos] = useState<BatchItem[]>([]);
+  const [tours, setTours] = useState<BatchTour[]>([]);
+  const queue = useMemo(
+    () => createTaskQueue({ concurrency: BATCH_CONCURRENCY, minStartIntervalMs: BATCH_MIN_START_INTERVAL_MS }),
+    []
+  );
+  // Landmarks whose tour has been started, so concurrent photos of the same place fetch it only once
+  const startedTours = useRef(new Set<string>());
+  const batchOptions = useRef<BatchOptions>({
+    language: DEFAULT_LANGUAGE,
+    guideSettings: DEFAULT_GUIDE_SETTINGS,
+    photoSettings: DEFAULT_PHOTO_SETTINGS,
+  });
+  // Bumped by clear() so work belonging to a discarded batch neither runs nor updates state
+  const generation = useRef(0);
+  // Replaced by clear() after aborting, which cancels the discarded batch's requests in flight
+  const cancellation = useRef(new AbortController());
+
+  const schedule = useCallback(<T>(run: number, task: () => Promise<T>): Promise<T> => {
+    return queue.add(() => (run === generation.current ? task() : Promise.reject(new Error('The batch was cleared.'))));
+  }, [queue]);
+
+  const updatePhoto = useCallback((id: string, changes: Partial<BatchItem>) => {
+    setPhotos(prev => prev.map(photo => (photo.id === id ? { ...photo, ...changes } : photo)));
+  }, []);
+
+  const updateTour = useCallback((key: string, changes: Partial<BatchTour>) => {
+    setTours(prev => prev.map(tour => (tour.key === key ? { ...tour, ...changes } : tour)));
+  }, []);
+
+  const generateTour = useCallback(async (
+    key: string,
+    landmarkName: string,
+    language: string,
+    guideSettings: GuideSettings,
+    coordinates: Coordinates | null,
+    image: File,
+  ) => {
+    const { persona } = guideSettings;
+    const run = generation.current;
+    const { signal } = cancellation.current;
+    updateTour(key, { status: Status.Fetching, error: null, landmarkInfo: '', sources: [], searchEntryPoint: undefined, audioChunks: [] });
+
+    try {
+      const { text, sources, searchEntryPoint } = await schedule(run, () =>
+        provider.fetchLandmarkHistory(landmarkName, { language, persona, signal })
+      );
+      if (run !== generation.current) return;
+      updateTour(key, { status: Status.Narrating, landmarkInfo: text, sources, searchEntryPoint });
+
+      // Segments are queued together but resolve in order, so the chunks stay in playback order
+      const narrationOptions = { language, voice: resolveVoice(guideSettings, language), persona, signal };
+      const audioChunks = await Promise.all(
+        splitIntoNarrationSegments(text).map(segment =>
+          schedule(run, () => provider.generateNarration(segment, narrationOptions))
+        )
+      );
+      if (run !== generation.current) return;
+      updateTour(key, { status: Status.Done, audioChunks });
+
+      onTourComplete({ landmarkName, landmarkInfo: text, sources, searchEntryPoint, audioChunks, language, persona, coordinates, image });
+    } catch (e) {
+      if (run !== generation.current) return;
+      console.error(e);
+      updateTour(key, { status: Status.Error, error: toErrorMessage(e) });
+    }
+  }, [provider, schedule, updateTour, onTourComplete]);
+
+  const identifyPhoto = useCallback(async (photo: BatchItem, { language, guideSettings, photoSettings }: BatchOptions) => {
+    const run = generation.current;
+    const { signal } = cancellation.current;
+    updatePhoto(photo.id, { status: Status.Identifying, error: null });
+
+    try {
+      // Photos are prepared once; a retry reuses the downscaled copy
+      let { file, metadata } = photo;
+      if (!metadata) {
+        ({ file, metadata } = await preparePhoto(photo.file, photoSettings));
+        if (run !== generation.current) return;
+        URL.revokeObjectURL(photo.imageUrl);
+        updatePhoto(photo.id, { file, metadata, imageUrl: URL.createObjectURL(file) });
+      }
+
+      const context = toPhotoContext(metadata);
+      const result = await schedule(run, async () =>
+        provider.identifyLandmark(await fileToBase64(file), file.type, { context, signal })
+      );
+      if (run !== generation.current) return;
+
+      // Batches skip the confirmation step and go with the best guess; the view flags uncertain ones
+      const identification = resolveNamedIdentification(result);
+      if (!identification) {
+        // Grouping by an empty name would merge every such photo into one nameless tour
+        throw new TourGuideError('Could not identify a landmark in the photo.', 'unrecognized');
+      }
+      const landmarkName = formatLandmarkName(identification);
+      const key = normalizeLandmarkName(landmarkName);
+      const coordinates = identification.coordinates ?? metadata.coordinates;
+      updatePhoto(photo.id, { status: Status.Done, identification, tourKey: key });
+      setTours(prev => prev.some(tour => tour.key === key)
+        ? prev.map(tour => (tour.key === key ? { ...tour, itemIds: [...tour.itemIds, photo.id] } : tour))
+        : [...prev, {
+            key,
+            landmarkName,
+            itemIds: [photo.id],
+            status: Status.Fetching,
+            landmarkInfo: '',
+            sources: [],
+            audioChunks: [],
+            language,
+            persona: guideSettings.persona,
+            coordinates,
+            error: null,
+          }]
+      );
+
+      if (!startedTours.current.has(key)) {
+        startedTours.current.add(key);
+        generateTour(key, landmarkName, language, guideSettings, coordinates, file);
+      }
+    } catch (e) {
+      if (run !== generation.current) return;
+      console.error(e);
+      updatePhoto(photo.id, { status: Status.Error, error: toErrorMessage(e) });
+    }
+  }, [provider, schedule, updatePhoto, generateTour]);
+
+  const start = useCallback((files: File[], options: BatchOptions) => {
+    const newPhotos: BatchItem[] = files.map(file => ({
+      id: crypto.randomUUID(),
+      file,
+      originalBytes: file.size,
+      imageUrl: URL.createObjectURL(file),
+      status: Status.Identifying,
+      metadata: null,
+      identification: null,
+      tourKey: null,
+      error: null,
+    }));
+    batchOptions.current = options;
+    setPhotos(prev => [...prev, ...newPhotos]);
+    newPhotos.forEach(photo => identifyPhoto(photo, options));
+    return newPhotos.map(photo => photo.id);
+  }, [identifyPhoto]);
+
+  const retry = useCallback((itemId: string) => {
+    const photo = photos.find(candidate => candidate.id === itemId);
+    if (!photo) return;
+
+    const tour = tours.find(candidate => candidate.key === photo.tourKey);
+    if (!tour) {
+      identifyPhoto(photo, batchOptions.current);
+    } else if (tour.status === Status.Error) {
+      const image = photos.find(candidate => candidate.id === tour.itemIds[0])?.file ?? photo.file;
+      const guideSettings = { ...batchOptions.current.guideSettings, persona: tour.persona };
+      generateTour(tour.key, tour.landmarkName, tour.language, guideSettings, tour.coordinates, image);
+    }
+  }, [photos, tours, identifyPhoto, generateTour]);
+
+  const clear = useCallback(() => {
+    generation.current += 1;
+    cancellation.current.abort();
+    cancellation.current = new AbortController();
+    startedTours.current.clear();
+    setPhotos(prev => {
+      prev.forEach(photo => URL.revokeObjectURL(photo.imageUrl));
+      return [];
+    });
+    setTours([]);
+  }, []);
+
+  // Grouped photos report their tour's progress, so a photo is only Done once its tour is
+  const items = useMemo(() => photos.map(photo => {
+    const tour = tours.find(candidate => candidate.key === photo.tourKey);
+    return tour ? { ...photo, status: tour.status, error: tour.error } : photo;
+  }), [photos, tours]);
+
+  return { items, tours, start, retry, clear };
+};
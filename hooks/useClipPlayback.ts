@@ -0,0 +1,78 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { NARRATION_CHANNELS, NARRATION_SAMPLE_RATE, decode, decodeAudioData } from '../utils/helpers';
+
+interface UseClipPlaybackReturn<K> {
+  // The clip being loaded or played, if any
+  activeKey: K | null;
+  // Whether the active clip's audio has started, as opposed to still loading
+  isPlaying: boolean;
+  // Loads and plays the clip, or stops it if it is the active one
+  toggle: (key: K, load: () => Promise<string>) => Promise<void>;
+  stop: () => void;
+}
+
+/**
+ * Plays one short base64 PCM clip at a time (answers read aloud, voice previews)
+ */
+export const useClipPlayback = <K>(): UseClipPlaybackReturn<K> => {
+  const [activeKey, setActiveKey] = useState<K | null>(null);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const audioContextRef = useRef<AudioContext | null>(null);
+  const sourceRef = useRef<AudioBufferSourceNode | null>(null);
+  const activeKeyRef = useRef<K | null>(null);
+  // Bumped on every start or stop, so audio that arrives after the user moved on is dropped
+  const requestRef = useRef(0);
+
+  useEffect(() => () => {
+    sourceRef.current?.stop();
+    audioContextRef.current?.close();
+  }, []);
+
+  const stop = useCallback(() => {
+    requestRef.current += 1;
+    const source = sourceRef.current;
+    sourceRef.current = null;
+    source?.stop();
+    activeKeyRef.current = null;
+    setActiveKey(null);
+    setIsPlaying(false);
+  }, []);
+
+  const toggle = useCallback(async (key: K, load: () => Promise<string>) => {
+    const wasActive = activeKeyRef.current === key;
+    stop();
+    if (wasActive) return;
+
+    const request = ++requestRef.current;
+    activeKeyRef.current = key;
+    setActiveKey(key);
+    try {
+      const audio = await load();
+      const ctx = audioContextRef.current
+        ?? new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: NARRATION_SAMPLE_RATE });
+      audioContextRef.current = ctx;
+      await ctx.resume();
+
+      const buffer = await decodeAudioData(decode(audio), ctx, NARRATION_SAMPLE_RATE, NARRATION_CHANNELS);
+      if (request !== requestRef.current) return;
+
+      const source = ctx.createBufferSource();
+      source.buffer = buffer;
+      source.connect(ctx.destination);
+      source.onended = () => {
+        if (sourceRef.current === source) stop();
+      };
+      sourceRef.current = source;
+      source.start();
+      setIsPlaying(true);
+    } catch (e) {
+      console.error('Failed to play audio clip:', e);
+      if (request === requestRef.current) {
+        activeKeyRef.current = null;
+        setActiveKey(null);
+      }
+    }
+  }, [stop]);
+
+  return { activeKey, isPlaying, toggle, stop };
+};
@@ -0,0 +1,110 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { ErrorCategory, GuideSettings, SharedNarrationStatus, SharedTour, StepFailure, TourGuideProvider } from '../types';
+import { getErrorCategory, toStepFailure } from '../utils/errors';
+import { createNarrationQueue, splitIntoNarrationSegments } from '../utils/narration';
+import { resolveVoice } from '../utils/personas';
+import { isAbortError } from '../utils/retry';
+import { clearShareFragment, decodeSharedTour, readShareFragment } from '../utils/shareLink';
+
+export interface SharedTourState {
+  // The tour from the share link in the address bar, if any
+  tour: SharedTour | null;
+  // Why the link in the address bar could not be opened
+  linkError: { message: string; category: ErrorCategory } | null;
+  audioChunks: string[];
+  narrationStatus: SharedNarrationStatus;
+  narrationFailure: StepFailure | null;
+  narrate: () => void;
+  // Leaves the shared tour (or the broken link) and removes it from the address bar
+  close: () => void;
+}
+
+/**
+ * Opens tours from share links (utils/shareLink.ts). Links carry only the text, so the narration
+ * is generated on demand, in the tour's language and persona with the viewer's preferred voice.
+ */
+export const useSharedTour = (provider: TourGuideProvider, guideSettings: GuideSettings): SharedTourState => {
+  const [tour, setTour] = useState<SharedTour | null>(null);
+  const [linkError, setLinkError] = useState<SharedTourState['linkError']>(null);
+  const [audioChunks, setAudioChunks] = useState<string[]>([]);
+  const [narrationStatus, setNarrationStatus] = useState<SharedNarrationStatus>('idle');
+  const [narrationFailure, setNarrationFailure] = useState<StepFailure | null>(null);
+  const narrationRef = useRef<AbortController | null>(null);
+
+  const stopNarration = useCallback(() => {
+    narrationRef.current?.abort();
+    narrationRef.current = null;
+    setAudioChunks([]);
+    setNarrationStatus('idle');
+    setNarrationFailure(null);
+  }, []);
+
+  // Read on load, and again when a link is pasted into the address bar of an open tab
+  useEffect(() => {
+    let isCurrent = true;
+    const open = () => {
+      const encoded = readShareFragment(window.location.hash);
+      if (!encoded) return;
+      stopNarration();
+      decodeSharedTour(encoded)
+        .then(decoded => {
+          if (!isCurrent) return;
+          setTour(decoded);
+          setLinkError(null);
+        })
+        .catch(error => {
+          if (!isCurrent) return;
+          setTour(null);
+          setLinkError({
+            message: error instanceof Error ? error.message : 'This share link can\'t be opened.',
+            category: getErrorCategory(error),
+          });
+        });
+    };
+    open();
+    window.addEventListener('hashchange', open);
+    return () => {
+      isCurrent = false;
+      window.removeEventListener('hashchange', open);
+    };
+  }, [stopNarration]);
+
+  useEffect(() => () => narrationRef.current?.abort(), []);
+
+  const narrate = useCallback(async () => {
+    if (!tour) return;
+    stopNarration();
+    const controller = new AbortController();
+    narrationRef.current = controller;
+    const { signal } = controller;
+    setNarrationStatus('narrating');
+
+    const narrationOptions = {
+      signal,
+      language: tour.language,
+      voice: resolveVoice({ ...guideSettings, persona: tour.persona }, tour.language),
+      persona: tour.persona,
+    };
+    const narration = createNarrationQueue(text => provider.generateNarration(text, narrationOptions), chunk => {
+      if (!signal.aborted) setAudioChunks(chunks => [...chunks, chunk]);
+    });
+    narration.update(splitIntoNarrationSegments(tour.landmarkInfo));
+    try {
+      await narration.finish();
+    } catch (error) {
+      if (isAbortError(error) || signal.aborted) return;
+      console.error(error);
+      setNarrationFailure(toStepFailure('narration', error));
+    }
+    if (!signal.aborted) setNarrationStatus('done');
+  }, [provider, tour, guideSettings, stopNarration]);
+
+  const close = useCallback(() => {
+    stopNarration();
+    clearShareFragment();
+    setTour(null);
+    setLinkError(null);
+  }, [stopNarration]);
+
+  return { tour, linkError, audioChunks, narrationStatus, narrationFailure, narrate, close };
+};
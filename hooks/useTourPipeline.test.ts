@@ -0,0 +1,164 @@
+// @vitest-environment jsdom
+import { act, cleanup, renderHook, waitFor } from '@testing-library/react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { LandmarkIdentification, Status, TourGuideProvider } from '../types';
+import { TourGuideError } from '../utils/errors';
+import { DEFAULT_PHOTO_SETTINGS, toPreparedPhoto } from '../utils/photoPreparation';
+import { TourPipelineServices, useTourPipeline } from './useTourPipeline';
+
+const preferences = { language: 'en-US', guideSettings: { persona: 'classic', voice: null } };
+
+const identification: LandmarkIdentification = {
+  name: 'Eiffel Tower',
+  city: 'Paris',
+  country: 'France',
+  confidence: 0.95,
+  coordinates: { latitude: 48.85837, longitude: 2.29448 },
+  alternatives: [],
+};
+
+// Two paragraphs long enough to be narrated separately
+const guideText = [
+  'The tower was built as the entrance arch to the 1889 World\'s Fair, held to mark the hundredth anniversary of the French Revolution.',
+  'It is repainted by hand every seven years, using around sixty tonnes of paint in three graded shades of bronze brown.',
+].join('\n\n');
+
+const createFakeProvider = () => ({
+  identifyLandmark: vi.fn<TourGuideProvider['identifyLandmark']>().mockResolvedValue(identification),
+  fetchLandmarkHistory: vi.fn<TourGuideProvider['fetchLandmarkHistory']>().mockResolvedValue({ text: guideText, sources: [] }),
+  generateNarration: vi.fn<TourGuideProvider['generateNarration']>(async text => `pcm:${text.length}`),
+  askFollowUp: vi.fn<TourGuideProvider['askFollowUp']>(),
+  findNearbyPlaces: vi.fn<TourGuideProvider['findNearbyPlaces']>(),
+});
+
+const createServices = (provider = createFakeProvider()) => {
+  let clock = 0;
+  return {
+    provider,
+    preparePhoto: vi.fn(async (file: File) => toPreparedPhoto(file)),
+    saveTour: vi.fn<TourPipelineServices['saveTour']>().mockResolvedValue(),
+    // Every reading moves the clock a second on
+    now: () => (clock += 1000),
+    onTourTimed: vi.fn<NonNullable<TourPipelineServices['onTourTimed']>>(),
+  };
+};
+
+const renderPipeline = (services: ReturnType<typeof createServices>) =>
+  renderHook(() => useTourPipeline(services, () => preferences));
+
+const photo = () => new File(['jpeg'], 'eiffel.jpg', { type: 'image/jpeg' });
+
+beforeEach(() => {
+  // jsdom has no object URLs
+  let urlCount = 0;
+  URL.createObjectURL = vi.fn(() => `blob:photo-${++urlCount}`);
+  URL.revokeObjectURL = vi.fn();
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  cleanup();
+  vi.restoreAllMocks();
+});
+
+describe('useTourPipeline', () => {
+  it('runs a photo through to a narrated, saved tour', async () => {
+    const services = createServices();
+    const { result } = renderPipeline(services);
+
+    act(() => { result.current.selectPhoto(photo(), DEFAULT_PHOTO_SETTINGS); });
+    await waitFor(() => expect(result.current.state.status).toBe(Status.Done));
+
+    expect(result.current.state.landmarkName).toBe('Eiffel Tower, Paris, France');
+    expect(result.current.state.landmarkInfo).toBe(guideText);
+    expect(services.provider.fetchLandmarkHistory).toHaveBeenCalledWith('Eiffel Tower, Paris, France', expect.objectContaining({ language: 'en-US', persona: 'classic' }));
+    expect(services.provider.generateNarration).toHaveBeenCalledTimes(2);
+    expect(result.current.state.audioChunks).toHaveLength(2);
+    await waitFor(() => expect(services.saveTour).toHaveBeenCalledTimes(1));
+    expect(services.saveTour.mock.calls[0][0]).toMatchObject({
+      landmarkName: 'Eiffel Tower, Paris, France',
+      audioChunks: result.current.state.audioChunks,
+      coordinates: identification.coordinates,
+    });
+  });
+
+  it('reports the stage timings of a finished tour once', async () => {
+    const services = createServices();
+    const { result, rerender } = renderPipeline(services);
+
+    act(() => { result.current.selectPhoto(photo(), DEFAULT_PHOTO_SETTINGS); });
+    await waitFor(() => expect(services.onTourTimed).toHaveBeenCalledTimes(1));
+    rerender();
+
+    expect(services.onTourTimed).toHaveBeenCalledTimes(1);
+    const [landmarkName, timings] = services.onTourTimed.mock.calls[0];
+    expect(landmarkName).toBe('Eiffel Tower, Paris, France');
+    expect(timings.identify?.durationMs).toBeGreaterThan(0);
+    expect(timings.history?.durationMs).toBeGreaterThan(0);
+    expect(timings.narration?.durationMs).toBeGreaterThan(0);
+  });
+
+  it('releases the previous photo\'s object URL when it is replaced or reset', async () => {
+    const services = createServices();
+    const { result } = renderPipeline(services);
+
+    act(() => { result.current.selectPhoto(photo(), DEFAULT_PHOTO_SETTINGS); });
+    await waitFor(() => expect(result.current.state.status).toBe(Status.Done));
+    act(() => { result.current.selectPhoto(photo(), DEFAULT_PHOTO_SETTINGS); });
+    await waitFor(() => expect(result.current.state.imageUrl).toBe('blob:photo-2'));
+    expect(URL.revokeObjectURL).toHaveBeenCalledWith('blob:photo-1');
+
+    act(() => { result.current.reset(); });
+    expect(URL.revokeObjectURL).toHaveBeenCalledWith('blob:photo-2');
+    expect(URL.revokeObjectURL).toHaveBeenCalledTimes(2);
+  });
+
+  it('waits for the user to confirm an uncertain landmark', async () => {
+    const services = createServices();
+    services.provider.identifyLandmark.mockResolvedValue({ ...identification, confidence: 0.3 });
+    const { result } = renderPipeline(services);
+
+    act(() => { result.current.selectPhoto(photo(), DEFAULT_PHOTO_SETTINGS); });
+    await waitFor(() => expect(result.current.state.status).toBe(Status.Confirming));
+    expect(services.provider.fetchLandmarkHistory).not.toHaveBeenCalled();
+
+    act(() => { result.current.confirmLandmark('Tokyo Tower'); });
+    await waitFor(() => expect(result.current.state.status).toBe(Status.Done));
+    expect(services.provider.fetchLandmarkHistory).toHaveBeenCalledWith('Tokyo Tower', expect.anything());
+  });
+
+  it('retries only the history after it failed', async () => {
+    const services = createServices();
+    services.provider.fetchLandmarkHistory.mockRejectedValueOnce(new TourGuideError('Offline.', 'network'));
+    const { result } = renderPipeline(services);
+
+    act(() => { result.current.selectPhoto(photo(), DEFAULT_PHOTO_SETTINGS); });
+    await waitFor(() => expect(result.current.state.status).toBe(Status.Error));
+    expect(result.current.state.failure).toMatchObject({ step: 'history', category: 'network' });
+    expect(services.onTourTimed).not.toHaveBeenCalled();
+
+    act(() => { result.current.retryStep(); });
+    await waitFor(() => expect(result.current.state.status).toBe(Status.Done));
+    expect(services.provider.identifyLandmark).toHaveBeenCalledTimes(1);
+    expect(services.provider.fetchLandmarkHistory).toHaveBeenCalledTimes(2);
+  });
+
+  it('drops the responses of a run abandoned by reset', async () => {
+    const services = createServices();
+    let resolveHistory: (history: { text: string; sources: [] }) => void = () => {};
+    services.provider.fetchLandmarkHistory.mockReturnValue(new Promise(resolve => { resolveHistory = resolve; }));
+    const { result } = renderPipeline(services);
+
+    act(() => { result.current.selectPhoto(photo(), DEFAULT_PHOTO_SETTINGS); });
+    await waitFor(() => expect(result.current.state.status).toBe(Status.Fetching));
+    const { signal } = services.provider.fetchLandmarkHistory.mock.calls[0][1]!;
+
+    act(() => { result.current.reset(); });
+    expect(signal?.aborted).toBe(true);
+    await act(async () => resolveHistory({ text: guideText, sources: [] }));
+
+    expect(result.current.state.status).toBe(Status.Idle);
+    expect(result.current.state.landmarkInfo).toBe('');
+    expect(services.saveTour).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,386 @@
+import { useCallback, useEffect, useReducer, useRef } from 'react';
+import {
+  ChatPanelProps,
+  GuideSettings,
+  GuideSettingsPanelProps,
+  NearbyPlacesPanelProps,
+  NewSavedTour,
+  PhotoSettings,
+  PipelineStep,
+  RequestOptions,
+  Status,
+  TourGuideProvider,
+} from '../types';
+import { toStepFailure } from '../utils/errors';
+import { GuideRequestOptions, startGuideNarration, streamGuide } from '../utils/guideGeneration';
+import { fileToBase64 } from '../utils/helpers';
+import { formatLandmarkName, needsConfirmation } from '../utils/identification';
+import { DEFAULT_LANGUAGE } from '../utils/languages';
+import { NarrationQueue, splitIntoNarrationSegments } from '../utils/narration';
+import { getPersona, resolveVoice } from '../utils/personas';
+import { PreparedPhoto, toPhotoContext } from '../utils/photoPreparation';
+import { isAbortError } from '../utils/retry';
+import {
+  OpenedTour,
+  PipelinePreferences,
+  TourPipelineEvent,
+  TourPipelineState,
+  createInitialPipelineState,
+  transitionPipeline,
+} from '../utils/tourPipeline';
+
+// Everything the pipeline reaches outside of React for, so it can run against fakes
+export interface TourPipelineServices {
+  provider: TourGuideProvider;
+  // Decodes, downscales and re-encodes a picked photo before anything is sent
+  preparePhoto: (file: File, settings: PhotoSettings) => Promise<PreparedPhoto>;
+  // Stores a finished tour; expected to handle its own failures
+  saveTour: (tour: Omit<NewSavedTour, 'thumbnail'>) => Promise<void>;
+  // Clock for the stage timings; Date.now by default
+  now?: () => number;
+  // Receives the stage timings of each freshly generated tour, to spot which step is slow
+  onTourTimed?: (landmarkName: string, timings: TourPipelineState['timings']) => void;
+}
+
+export interface TourPipeline {
+  state: TourPipelineState;
+  selectPhoto: (file: File, settings: PhotoSettings) => void;
+  // Continues with the landmark the user picked or typed while Confirming
+  confirmLandmark: (landmarkName: string) => void;
+  // For a finished tour, also re-generates the guide and narration in the new language
+  changeLanguage: (code: string) => void;
+  // Like changeLanguage, for the persona and voice
+  changeGuideSettings: (settings: GuideSettings) => void;
+  // Re-runs only the step that failed
+  retryStep: () => void;
+  // Re-runs the whole tour for the current photo, skipping cached responses
+  regenerate: () => void;
+  openTour: (tour: OpenedTour) => void;
+  // Reports a failure from outside the pipeline, such as the camera, as a failed identification
+  reportError: (error: unknown) => void;
+  reset: () => void;
+  askQuestion: ChatPanelProps['onAsk'];
+  speakAnswer: ChatPanelProps['onSpeak'];
+  // Landmarks within walking distance of the current one
+  findNearby: NearbyPlacesPanelProps['onFind'];
+  previewVoice: GuideSettingsPanelProps['onPreview'];
+}
+
+interface TimedEvent {
+  event: TourPipelineEvent;
+  at: number;
+}
+
+const pipelineReducer = (state: TourPipelineState, { event, at }: TimedEvent) => transitionPipeline(state, event, at);
+
+/**
+ * Runs a tour from photo to narrated guide as an explicit state machine (utils/tourPipeline.ts).
+ * Every async step reports back through events, and each run has its own AbortSignal, so
+ * responses for an abandoned run are dropped before they can reach the state.
+ */
+export const useTourPipeline = (
+  { provider, preparePhoto, saveTour, now = Date.now, onTourTimed }: TourPipelineServices,
+  loadPreferences: () => PipelinePreferences,
+): TourPipeline => {
+  const [state, dispatchTimed] = useReducer(pipelineReducer, undefined, () => createInitialPipelineState(loadPreferences()));
+  // Handlers read the latest state through this instead of being re-created on every streamed chunk.
+  // dispatch advances it right away, so a step that continues before React re-renders (such as a
+  // cached response) still sees the events before it.
+  const stateRef = useRef(state);
+  // The tour being worked on; aborting it cancels its requests so late responses cannot overwrite a newer tour
+  const runRef = useRef<AbortController | null>(null);
+
+  const dispatch = useCallback((event: TourPipelineEvent) => {
+    const at = now();
+    const { imageUrl } = stateRef.current;
+    stateRef.current = transitionPipeline(stateRef.current, event, at);
+    // The pipeline owns the photo's object URL, including the one an opened tour brings along,
+    // so it is released as soon as a new photo, an opened tour or a reset replaces it
+    if (imageUrl && imageUrl !== stateRef.current.imageUrl) {
+      URL.revokeObjectURL(imageUrl);
+    }
+    dispatchTimed({ event, at });
+  }, [now]);
+
+  useEffect(() => () => {
+    if (stateRef.current.imageUrl) URL.revokeObjectURL(stateRef.current.imageUrl);
+  }, []);
+
+  // Dispatches on behalf of a run, dropping events once the run has been abandoned
+  const dispatchFor = useCallback((signal: AbortSignal) => (event: TourPipelineEvent) => {
+    if (!signal.aborted) dispatch(event);
+  }, [dispatch]);
+
+  const startRun = useCallback((): AbortSignal => {
+    runRef.current?.abort();
+    runRef.current = new AbortController();
+    return runRef.current.signal;
+  }, []);
+
+  const cancelRun = useCallback(() => {
+    runRef.current?.abort();
+    runRef.current = null;
+  }, []);
+
+  const fail = useCallback((step: PipelineStep, error: unknown, signal?: AbortSignal) => {
+    // Cancelled on purpose (reset or a newer photo); whatever replaced it owns the state now
+    if (isAbortError(error) || signal?.aborted) return;
+    console.error(error);
+    dispatch({ type: 'failed', failure: toStepFailure(step, error) });
+  }, [dispatch]);
+
+  // Records each narrated audio chunk in the state and in narratedChunks
+  const recordAudio = useCallback((signal: AbortSignal, narratedChunks: string[]) => {
+    const send = dispatchFor(signal);
+    return (chunk: string) => {
+      narratedChunks.push(chunk);
+      send({ type: 'audioChunk', chunk });
+    };
+  }, [dispatchFor]);
+
+  // Step 3: wait for the queued narration, then save the finished tour
+  const finishNarration = useCallback(async (
+    narration: NarrationQueue,
+    narratedChunks: string[],
+    tour: Omit<NewSavedTour, 'audioChunks' | 'thumbnail'>,
+    signal: AbortSignal,
+  ) => {
+    try {
+      await narration.finish();
+    } catch (e) {
+      fail('narration', e, signal);
+      return;
+    }
+    if (signal.aborted) return;
+    dispatch({ type: 'narrationFinished' });
+    saveTour({ ...tour, audioChunks: narratedChunks });
+  }, [dispatch, fail, saveTour]);
+
+  // Steps 2 and 3: stream the guide and narrate it paragraph by paragraph, then save the finished tour
+  const generateGuide = useCallback(async (
+    photo: PreparedPhoto,
+    landmarkName: string,
+    preferences: PipelinePreferences,
+    requestOptions: GuideRequestOptions,
+  ) => {
+    const { signal } = requestOptions;
+    const { language, guideSettings } = preferences;
+    const send = dispatchFor(signal);
+    send({ type: 'guideRequested', landmarkName, preferences });
+
+    const narratedChunks: string[] = [];
+    try {
+      const { history, narration } = await streamGuide(provider, landmarkName, preferences, requestOptions, {
+        onText: text => send({ type: 'historyProgress', text }),
+        onAudioChunk: recordAudio(signal, narratedChunks),
+      });
+      send({ type: 'historyLoaded', history });
+
+      await finishNarration(narration, narratedChunks, {
+        landmarkName,
+        landmarkInfo: history.text,
+        sources: history.sources,
+        searchEntryPoint: history.searchEntryPoint,
+        language,
+        persona: guideSettings.persona,
+        coordinates: stateRef.current.coordinates,
+        image: photo.file,
+      }, signal);
+    } catch (e) {
+      fail('history', e, signal);
+    }
+  }, [provider, dispatchFor, recordAudio, finishNarration, fail]);
+
+  // Step 1: identify the landmark in an already prepared photo, using its EXIF position and date as hints
+  const identify = useCallback(async (photo: PreparedPhoto, requestOptions: RequestOptions = {}) => {
+    const signal = startRun();
+    const send = dispatchFor(signal);
+    send({ type: 'photoSelected', photo, imageUrl: URL.createObjectURL(photo.file) });
+
+    try {
+      const identification = await provider.identifyLandmark(await fileToBase64(photo.file), photo.file.type, {
+        ...requestOptions,
+        signal,
+        context: toPhotoContext(photo.metadata),
+      });
+      const landmarkName = formatLandmarkName(identification);
+      // Uncertain matches wait for the user to confirm before any history is fetched
+      const isUncertain = needsConfirmation(identification);
+      send({ type: 'identified', identification, landmarkName, needsConfirmation: isUncertain });
+      if (isUncertain || signal.aborted) return;
+
+      const { language, guideSettings } = stateRef.current;
+      await generateGuide(photo, landmarkName, { language, guideSettings }, { ...requestOptions, signal });
+    } catch (e) {
+      fail('identify', e, signal);
+    }
+  }, [provider, startRun, dispatchFor, generateGuide, fail]);
+
+  const selectPhoto = useCallback(async (file: File, settings: PhotoSettings) => {
+    // Claims the run so a photo picked while this one is still being prepared wins
+    const signal = startRun();
+    let prepared: PreparedPhoto;
+    try {
+      prepared = await preparePhoto(file, settings);
+    } catch (e) {
+      fail('identify', e, signal);
+      return;
+    }
+    if (!signal.aborted) {
+      identify(prepared);
+    }
+  }, [preparePhoto, startRun, identify, fail]);
+
+  const confirmLandmark = useCallback((landmarkName: string) => {
+    const { photo, language, guideSettings } = stateRef.current;
+    if (photo) {
+      generateGuide(photo, landmarkName, { language, guideSettings }, { signal: startRun() });
+    }
+  }, [startRun, generateGuide]);
+
+  const changeLanguage = useCallback((code: string) => {
+    const { photo, landmarkName, status, guideSettings } = stateRef.current;
+    dispatch({ type: 'languageChanged', language: code });
+    if (photo && landmarkName && status === Status.Done) {
+      generateGuide(photo, landmarkName, { language: code, guideSettings }, { signal: startRun() });
+    }
+  }, [dispatch, startRun, generateGuide]);
+
+  const changeGuideSettings = useCallback((settings: GuideSettings) => {
+    const { photo, landmarkName, status, language } = stateRef.current;
+    dispatch({ type: 'guideSettingsChanged', guideSettings: settings });
+    if (photo && landmarkName && status === Status.Done) {
+      generateGuide(photo, landmarkName, { language, guideSettings: settings }, { signal: startRun() });
+    }
+  }, [dispatch, startRun, generateGuide]);
+
+  const retryStep = useCallback(async () => {
+    const {
+      photo,
+      failure,
+      landmarkName,
+      coordinates,
+      landmarkInfo,
+      sources,
+      searchEntryPoint,
+      audioChunks,
+      language,
+      guideSettings,
+    } = stateRef.current;
+    if (!photo || !failure) return;
+
+    if (failure.step === 'identify') {
+      identify(photo);
+      return;
+    }
+    const signal = startRun();
+    if (failure.step === 'history') {
+      generateGuide(photo, landmarkName, { language, guideSettings }, { signal });
+      return;
+    }
+
+    dispatchFor(signal)({ type: 'narrationRetried' });
+    // Segments that were narrated before the failure keep their audio
+    const narratedChunks = [...audioChunks];
+    const narration = startGuideNarration(provider, { language, guideSettings }, { signal }, recordAudio(signal, narratedChunks));
+    narration.update(splitIntoNarrationSegments(landmarkInfo).slice(audioChunks.length));
+    await finishNarration(narration, narratedChunks, {
+      landmarkName,
+      landmarkInfo,
+      sources,
+      searchEntryPoint,
+      language,
+      persona: guideSettings.persona,
+      coordinates,
+      image: photo.file,
+    }, signal);
+  }, [provider, startRun, dispatchFor, identify, generateGuide, recordAudio, finishNarration]);
+
+  const regenerate = useCallback(() => {
+    const { photo } = stateRef.current;
+    if (photo) {
+      identify(photo, { bypassCache: true });
+    }
+  }, [identify]);
+
+  // Restores a finished tour exactly as it was, without calling the AI backend again
+  const openTour = useCallback((tour: OpenedTour) => {
+    cancelRun();
+    dispatch({ type: 'tourOpened', tour });
+  }, [cancelRun, dispatch]);
+
+  const reportError = useCallback((error: unknown) => fail('identify', error), [fail]);
+
+  const reset = useCallback(() => {
+    cancelRun();
+    dispatch({ type: 'reset' });
+  }, [cancelRun, dispatch]);
+
+  // Follow-up questions are answered from the photo and the guide as shown, in the guide's language
+  const askQuestion = useCallback<TourPipeline['askQuestion']>(async (question, history) => {
+    const { photo, landmarkName, landmarkInfo, language } = stateRef.current;
+    if (!photo) {
+      throw new Error('The photo for this tour is no longer available.');
+    }
+    return provider.askFollowUp(question, {
+      imageBase64: await fileToBase64(photo.file),
+      mimeType: photo.file.type,
+      landmarkName,
+      landmarkInfo,
+      history,
+    }, { language, signal: runRef.current?.signal });
+  }, [provider]);
+
+  const speakAnswer = useCallback<TourPipeline['speakAnswer']>(text => {
+    const { language, guideSettings } = stateRef.current;
+    return provider.generateNarration(text, {
+      language,
+      voice: resolveVoice(guideSettings, language),
+      persona: guideSettings.persona,
+      signal: runRef.current?.signal,
+    });
+  }, [provider]);
+
+  const findNearby = useCallback<TourPipeline['findNearby']>(() => {
+    const { landmarkName, coordinates, language } = stateRef.current;
+    return provider.findNearbyPlaces(landmarkName, {
+      language,
+      coordinates,
+      signal: runRef.current?.signal,
+    });
+  }, [provider]);
+
+  // The sample lines are English, so only the voice follows the guide's language
+  const previewVoice = useCallback<TourPipeline['previewVoice']>(settings => {
+    return provider.generateNarration(getPersona(settings.persona).sampleLine, {
+      language: DEFAULT_LANGUAGE,
+      voice: resolveVoice(settings, stateRef.current.language),
+      persona: settings.persona,
+    });
+  }, [provider]);
+
+  // Opened tours have no timings, so only freshly generated ones are reported
+  const { status, failure, landmarkName, timings } = state;
+  useEffect(() => {
+    if (onTourTimed && status === Status.Done && !failure && timings.narration?.durationMs != null) {
+      onTourTimed(landmarkName, timings);
+    }
+  }, [onTourTimed, status, failure, landmarkName, timings]);
+
+  return {
+    state,
+    selectPhoto,
+    confirmLandmark,
+    changeLanguage,
+    changeGuideSettings,
+    retryStep,
+    regenerate,
+    openTour,
+    reportError,
+    reset,
+    askQuestion,
+    speakAnswer,
+    findNearby,
+    previewVoice,
+  };
+};
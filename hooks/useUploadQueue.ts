@@ -0,0 +1,63 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { countQueuedUploads, listQueuedUploads, queueUploads, removeQueuedUpload } from '../services/uploadQueue';
+import { QueuedUpload } from '../types';
+
+export interface UploadQueue {
+  // False when the browser knows it has no connection; true does not guarantee the server is reachable
+  isOnline: boolean;
+  // Photos waiting to be handed over
+  queuedCount: number;
+  enqueue: (files: File[]) => Promise<void>;
+  // Hands over the queued photos not handed over yet, oldest first. They stay stored until removed.
+  claimAll: () => Promise<QueuedUpload[]>;
+  // Drops a handed-over photo from the queue, once its tour is saved
+  remove: (id: string) => Promise<void>;
+}
+
+/**
+ * Tracks connectivity and keeps photos picked while offline in IndexedDB, so they survive a reload
+ */
+export const useUploadQueue = (): UploadQueue => {
+  const [isOnline, setIsOnline] = useState(() => navigator.onLine);
+  const [queuedCount, setQueuedCount] = useState(0);
+  // Set while a claimAll is running, so the same photos are not handed over twice
+  const isClaimingRef = useRef(false);
+  // Photos already handed over in this session; after a reload, unsaved ones are handed over again
+  const claimedIdsRef = useRef(new Set<string>());
+
+  useEffect(() => {
+    const update = () => setIsOnline(navigator.onLine);
+    window.addEventListener('online', update);
+    window.addEventListener('offline', update);
+    return () => {
+      window.removeEventListener('online', update);
+      window.removeEventListener('offline', update);
+    };
+  }, []);
+
+  useEffect(() => {
+    countQueuedUploads()
+      .then(setQueuedCount)
+      .catch(error => console.error('Failed to read the upload queue:', error));
+  }, []);
+
+  const enqueue = useCallback(async (files: File[]) => {
+    await queueUploads(files);
+    setQueuedCount(count => count + files.length);
+  }, []);
+
+  const claimAll = useCallback(async () => {
+    if (isClaimingRef.current) return [];
+    isClaimingRef.current = true;
+    try {
+      const uploads = (await listQueuedUploads()).filter(upload => !claimedIdsRef.current.has(upload.id));
+      uploads.forEach(upload => claimedIdsRef.current.add(upload.id));
+      setQueuedCount(0);
+      return uploads;
+    } finally {
+      isClaimingRef.current = false;
+    }
+  }, []);
+
+  return { isOnline, queuedCount, enqueue, claimAll, remove: removeQueuedUpload };
+};
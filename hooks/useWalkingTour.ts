@@ -0,0 +1,160 @@
+import { useCallback, useMemo, useRef, useState } from 'react';
+import { NearbyPlace, Status, TourGuideProvider, WalkingTourStop } from '../types';
+import { streamGuide } from '../utils/guideGeneration';
+import { normalizeLandmarkName } from '../utils/identification';
+import { orderByNearestNext } from '../utils/nearby';
+import { createTaskQueue } from '../utils/taskQueue';
+import { PipelinePreferences } from '../utils/tourPipeline';
+
+// Same pacing as batch mode, to stay under the server's default rate limit
+const STOP_CONCURRENCY = 2;
+const STOP_MIN_START_INTERVAL_MS = 2000;
+
+const toErrorMessage = (e: unknown): string => (e instanceof Error ? e.message : 'An unknown error occurred.');
+
+// The finished tour a walking tour is planned from; it becomes the first stop as it is
+export type WalkingTourOrigin = Pick<
+  WalkingTourStop,
+  'name' | 'coordinates' | 'landmarkInfo' | 'sources' | 'searchEntryPoint' | 'audioChunks'
+>;
+
+export interface WalkingTour {
+  // In walking order; the first stop is the origin and never moves
+  stops: WalkingTourStop[];
+  // Appends a place and starts generating its guide. A place found from another landmark starts a new tour.
+  addStop: (place: NearbyPlace, origin: WalkingTourOrigin, preferences: PipelinePreferences) => void;
+  removeStop: (key: string) => void;
+  moveStop: (key: string, offset: number) => void;
+  optimizeRoute: () => void;
+  retryStop: (key: string) => void;
+  clear: () => void;
+}
+
+/**
+ * Plans a walking tour from a finished guide and generates each added stop's guide and narration
+ */
+export const useWalkingTour = (provider: TourGuideProvider): WalkingTour => {
+  const [stops, setStops] = useState<WalkingTourStop[]>([]);
+  // Updated together with the state, so calls in the same tick see each other's stops
+  const stopsRef = useRef<WalkingTourStop[]>([]);
+  const queue = useMemo(
+    () => createTaskQueue({ concurrency: STOP_CONCURRENCY, minStartIntervalMs: STOP_MIN_START_INTERVAL_MS }),
+    []
+  );
+  // One per stop being generated; aborted when the stop is removed or the tour replaced
+  const controllers = useRef(new Map<string, AbortController>());
+  const preferencesRef = useRef<PipelinePreferences | null>(null);
+
+  const commit = useCallback((next: WalkingTourStop[]) => {
+    stopsRef.current = next;
+    setStops(next);
+  }, []);
+
+  const updateStop = useCallback((key: string, changes: Partial<WalkingTourStop>) => {
+    commit(stopsRef.current.map(stop => (stop.key === key ? { ...stop, ...changes } : stop)));
+  }, [commit]);
+
+  const abortStop = useCallback((key: string) => {
+    controllers.current.get(key)?.abort();
+    controllers.current.delete(key);
+  }, []);
+
+  // Same streaming guide and narration as a single tour, paced through the shared queue
+  const generateStop = useCallback(async (key: string, name: string, preferences: PipelinePreferences) => {
+    abortStop(key);
+    const controller = new AbortController();
+    controllers.current.set(key, controller);
+    const { signal } = controller;
+    const schedule = <T>(task: () => Promise<T>): Promise<T> => queue.add(() => {
+      signal.throwIfAborted();
+      return task();
+    });
+    updateStop(key, { status: Status.Fetching, error: null, landmarkInfo: '', sources: [], searchEntryPoint: undefined, audioChunks: [] });
+
+    const audioChunks: string[] = [];
+    try {
+      const { history, narration } = await streamGuide(provider, name, preferences, { signal, schedule }, {
+        onAudioChunk: chunk => audioChunks.push(chunk),
+      });
+      if (signal.aborted) return;
+      const { text, sources, searchEntryPoint } = history;
+      updateStop(key, { status: Status.Narrating, landmarkInfo: text, sources, searchEntryPoint });
+
+      await narration.finish();
+      if (signal.aborted) return;
+      updateStop(key, { status: Status.Done, audioChunks });
+    } catch (e) {
+      if (signal.aborted) return;
+      console.error(e);
+      updateStop(key, { status: Status.Error, error: toErrorMessage(e) });
+    } finally {
+      if (controllers.current.get(key) === controller) controllers.current.delete(key);
+    }
+  }, [provider, queue, abortStop, updateStop]);
+
+  const clear = useCallback(() => {
+    controllers.current.forEach(controller => controller.abort());
+    controllers.current.clear();
+    commit([]);
+  }, [commit]);
+
+  const addStop = useCallback((place: NearbyPlace, origin: WalkingTourOrigin, preferences: PipelinePreferences) => {
+    const key = normalizeLandmarkName(place.name);
+    const originKey = normalizeLandmarkName(origin.name);
+    preferencesRef.current = preferences;
+
+    let current = stopsRef.current;
+    if (current[0]?.key !== originKey) {
+      clear();
+      current = [{ ...origin, key: originKey, hook: '', status: Status.Done, error: null }];
+    }
+    if (current.some(stop => stop.key === key)) return;
+
+    commit([...current, {
+      key,
+      name: place.name,
+      coordinates: place.coordinates,
+      hook: place.hook,
+      status: Status.Fetching,
+      landmarkInfo: '',
+      sources: [],
+      audioChunks: [],
+      error: null,
+    }]);
+    generateStop(key, place.name, preferences);
+  }, [clear, commit, generateStop]);
+
+  const removeStop = useCallback((key: string) => {
+    const index = stopsRef.current.findIndex(stop => stop.key === key);
+    if (index < 1) return;
+    abortStop(key);
+    commit(stopsRef.current.filter(stop => stop.key !== key));
+  }, [abortStop, commit]);
+
+  const moveStop = useCallback((key: string, offset: number) => {
+    const current = stopsRef.current;
+    const index = current.findIndex(stop => stop.key === key);
+    const target = index + offset;
+    if (index < 1 || target < 1 || target >= current.length) return;
+
+    const next = [...current];
+    [next[index], next[target]] = [next[target], next[index]];
+    commit(next);
+  }, [commit]);
+
+  const optimizeRoute = useCallback(() => {
+    const [origin, ...rest] = stopsRef.current;
+    if (origin) {
+      commit([origin, ...orderByNearestNext(origin, rest)]);
+    }
+  }, [commit]);
+
+  const retryStop = useCallback((key: string) => {
+    const stop = stopsRef.current.find(candidate => candidate.key === key);
+    if (stop?.status === Status.Error && preferencesRef.current) {
+      generateStop(key, stop.name, preferencesRef.current);
+    }
+  }, [generateStop]);
+
+  return { stops, addStop, removeStop, moveStop, optimizeRoute, retryStop, clear };
+};
@@ -0,0 +1,29 @@
+import { readFileSync } from 'fs';
+import path from 'path';
+import type { Plugin } from 'vite';
+
+const SOURCE = path.resolve(__dirname, 'serviceWorker.js');
+// Copied from public/ as they are, so they are not part of the bundle
+const PUBLIC_URLS = ['/manifest.webmanifest', '/icon.svg'];
+
+/**
+ * Emits the service worker as /sw.js at build time, with every file of the bundle in its precache list
+ */
+export const precachePlugin = (): Plugin => ({
+  name: 'photo-tour-guide:precache',
+  apply: 'build',
+  generateBundle(_options, bundle) {
+    const urls = ['/', '/index.html', ...PUBLIC_URLS, ...Object.keys(bundle).filter(file => file !== 'index.html').map(file => `/${file}`)];
+    // The bundle's file names carry content hashes, so they identify the build
+    const version = Object.keys(bundle).sort().join('|');
+    let hash = 0;
+    for (let i = 0; i < version.length; i++) {
+      hash = (hash * 31 + version.charCodeAt(i)) | 0;
+    }
+
+    const source = readFileSync(SOURCE, 'utf8')
+      .replace('__PRECACHE_URLS__', JSON.stringify(urls))
+      .replace('__CACHE_VERSION__', JSON.stringify((hash >>> 0).toString(36)));
+    this.emitFile({ type: 'asset', fileName: 'sw.js', source });
+  },
+});
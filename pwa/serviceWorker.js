@@ -0,0 +1,97 @@
+// Service worker source. The build (see precachePlugin.ts) fills in the placeholders below and
+// emits the result as /sw.js; it is not registered during development.
+
+const PRECACHE_URLS = __PRECACHE_URLS__;
+const CACHE_VERSION = __CACHE_VERSION__;
+
+const SHELL_CACHE = `shell-${CACHE_VERSION}`;
+const RUNTIME_CACHE = `runtime-${CACHE_VERSION}`;
+
+// Loaded from CDNs by index.html; cached too, but a failure here must not stop installation
+const CDN_URLS = [
+  'https://cdn.tailwindcss.com',
+  'https://fonts.googleapis.com/css2?family=Inter:wght@400;500;600;700&display=swap',
+];
+const FONT_ORIGINS = ['https://fonts.googleapis.com', 'https://fonts.gstatic.com'];
+
+self.addEventListener('install', (event) => {
+  event.waitUntil((async () => {
+    const cache = await caches.open(SHELL_CACHE);
+    await cache.addAll(PRECACHE_URLS);
+    await Promise.all(CDN_URLS.map(async (url) => {
+      try {
+        // no-cors, since the CDNs don't all send CORS headers; the opaque response still works in <script> and <link>
+        await cache.put(url, await fetch(url, { mode: 'no-cors' }));
+      } catch (error) {
+        console.warn(`Could not precache ${url}:`, error);
+      }
+    }));
+    await self.skipWaiting();
+  })());
+});
+
+// Drops the caches of older builds
+self.addEventListener('activate', (event) => {
+  event.waitUntil((async () => {
+    const keep = [SHELL_CACHE, RUNTIME_CACHE];
+    const names = await caches.keys();
+    await Promise.all(names.filter(name => !keep.includes(name)).map(name => caches.delete(name)));
+    await self.clients.claim();
+  })());
+});
+
+const cacheFirst = async (request) => {
+  const cached = await caches.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (response.ok) {
+    const cache = await caches.open(RUNTIME_CACHE);
+    await cache.put(request, response.clone());
+  }
+  return response;
+};
+
+// Fonts come from the cache straight away and are refreshed in the background
+const staleWhileRevalidate = async (event) => {
+  const cache = await caches.open(RUNTIME_CACHE);
+  // The stylesheet may already be in the shell cache from installation
+  const cached = await caches.match(event.request);
+  const refresh = fetch(event.request).then(async (response) => {
+    if (response.ok || response.type === 'opaque') await cache.put(event.request, response.clone());
+    return response;
+  });
+  if (cached) {
+    event.waitUntil(refresh.catch(() => undefined));
+    return cached;
+  }
+  return refresh;
+};
+
+// Pages always try the network first so a new build shows up; offline, the cached shell takes over
+const networkFirstPage = async (request) => {
+  try {
+    return await fetch(request);
+  } catch (error) {
+    const shell = await caches.match('/index.html');
+    if (shell) return shell;
+    throw error;
+  }
+};
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+
+  if (request.mode === 'navigate') {
+    event.respondWith(networkFirstPage(request));
+  } else if (FONT_ORIGINS.includes(url.origin)) {
+    event.respondWith(staleWhileRevalidate(event));
+  } else if (CDN_URLS.includes(request.url)) {
+    event.respondWith(cacheFirst(request));
+  } else if (url.origin === self.location.origin && !url.pathname.startsWith('/api/')) {
+    // Built assets have content hashes in their names, so a cached copy is never stale
+    event.respondWith(cacheFirst(request));
+  }
+  // Everything else, the tour guide API in particular, goes straight to the network
+});
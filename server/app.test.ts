@@ -0,0 +1,174 @@
+import { AddressInfo } from 'node:net';
+import { Server, createServer } from 'node:http';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { AppDependencies, Logger, createRequestHandler } from './app';
+import { GeminiClient } from './gemini';
+import { RateLimiter } from './rateLimiter';
+
+// Stands in for @google/genai; each test sets up the calls it expects
+const createStubGemini = () => {
+  const models = {
+    generateContent: vi.fn(),
+    generateContentStream: vi.fn(),
+  };
+  return { ai: { models } as unknown as GeminiClient, models };
+};
+
+const allowAll: RateLimiter = { check: () => ({ allowed: true, remaining: 10, retryAfterSeconds: 60 }) };
+
+const createLogger = (): Logger & { lines: string[] } => {
+  const lines: string[] = [];
+  return { lines, info: message => lines.push(message), error: message => lines.push(message) };
+};
+
+let server: Server | undefined;
+
+const startServer = async (dependencies: Partial<AppDependencies> & Pick<AppDependencies, 'ai'>) => {
+  server = createServer(createRequestHandler({ rateLimiter: allowAll, logger: createLogger(), ...dependencies }));
+  await new Promise<void>(resolve => server!.listen(0, '127.0.0.1', resolve));
+  return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+};
+
+const post = (baseUrl: string, path: string, body: unknown) => fetch(`${baseUrl}${path}`, {
+  method: 'POST',
+  headers: { 'Content-Type': 'application/json' },
+  body: typeof body === 'string' ? body : JSON.stringify(body),
+});
+
+async function* streamOf<T>(chunks: T[]) {
+  for (const chunk of chunks) yield chunk;
+}
+
+afterEach(async () => {
+  await new Promise(resolve => server ? server.close(resolve) : resolve(undefined));
+  server = undefined;
+});
+
+describe('request limits', () => {
+  it('answers an oversized body with 413 instead of dropping the connection', async () => {
+    const { ai, models } = createStubGemini();
+    const logger = createLogger();
+    const baseUrl = await startServer({ ai, logger, maxBodyBytes: 1024 });
+
+    const response = await post(baseUrl, '/api/identify', { imageBase64: 'A'.repeat(256 * 1024), mimeType: 'image/jpeg' });
+
+    expect(response.status).toBe(413);
+    expect(response.headers.get('connection')).toBe('close');
+    expect(await response.json()).toEqual({ error: 'Request body is too large.' });
+    expect(models.generateContent).not.toHaveBeenCalled();
+    expect(logger.lines.some(line => line.startsWith('POST /api/identify 413'))).toBe(true);
+  });
+
+  it('answers 429 with Retry-After when the client is over its limit', async () => {
+    const { ai } = createStubGemini();
+    const rateLimiter: RateLimiter = { check: () => ({ allowed: false, remaining: 0, retryAfterSeconds: 42 }) };
+    const baseUrl = await startServer({ ai, rateLimiter });
+
+    const response = await post(baseUrl, '/api/narration', { text: 'Hello.' });
+
+    expect(response.status).toBe(429);
+    expect(response.headers.get('retry-after')).toBe('42');
+    expect(response.headers.get('x-ratelimit-remaining')).toBe('0');
+  });
+
+  it('passes on Gemini\'s own retry delay as Retry-After', async () => {
+    const { ai, models } = createStubGemini();
+    models.generateContent.mockRejectedValue(Object.assign(
+      new Error('{"error":{"code":429,"message":"Quota exceeded","details":[{"retryDelay": "27.5s"}]}}'),
+      { status: 429 },
+    ));
+    const baseUrl = await startServer({ ai });
+
+    const response = await post(baseUrl, '/api/identify', { imageBase64: 'AAAA', mimeType: 'image/jpeg' });
+
+    expect(response.status).toBe(429);
+    expect(response.headers.get('retry-after')).toBe('28');
+  });
+});
+
+describe('validation', () => {
+  it.each([
+    ['a body that is not JSON', '/api/identify', 'not json', 'Request body must be a JSON object.'],
+    ['a missing field', '/api/identify', { mimeType: 'image/jpeg' }, 'Missing or invalid "imageBase64" field.'],
+    ['an unsupported language', '/api/narration', { text: 'Hi.', language: 'xx-XX' }, 'Unsupported language "xx-XX".'],
+    ['an unknown persona', '/api/history', { landmarkName: 'Eiffel Tower', persona: 'pirate' }, 'Unknown persona "pirate".'],
+    ['a voice that is not a plain name', '/api/narration', { text: 'Hi.', voice: 'Kore"; drop' }, 'Missing or invalid "voice" field.'],
+    ['out of range coordinates', '/api/nearby', { landmarkName: 'Eiffel Tower', coordinates: { latitude: 91, longitude: 0 } }, 'Invalid "coordinates" field.'],
+  ])('rejects %s with 400', async (_, path, body, error) => {
+    const { ai, models } = createStubGemini();
+    const baseUrl = await startServer({ ai });
+
+    const response = await post(baseUrl, path, body);
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({ error });
+    expect(models.generateContent).not.toHaveBeenCalled();
+    expect(models.generateContentStream).not.toHaveBeenCalled();
+  });
+
+  it('answers 404 for unknown routes and 405 for other methods', async () => {
+    const { ai } = createStubGemini();
+    const baseUrl = await startServer({ ai });
+
+    expect((await post(baseUrl, '/api/unknown', {})).status).toBe(404);
+    expect((await fetch(`${baseUrl}/api/identify`)).status).toBe(405);
+  });
+});
+
+describe('NDJSON streaming', () => {
+  const readEvents = async (response: Response) => (await response.text())
+    .split('\n')
+    .filter(line => line.length > 0)
+    .map(line => JSON.parse(line));
+
+  it('streams the history text, then the grounding, then done', async () => {
+    const { ai, models } = createStubGemini();
+    models.generateContentStream.mockResolvedValue(streamOf([
+      { text: '# Eiffel Tower\n\n' },
+      {
+        text: 'Built in 1889.',
+        candidates: [{
+          groundingMetadata: {
+            groundingChunks: [{ web: { uri: 'https://example.com/eiffel', title: 'example.com' } }],
+            groundingSupports: [{ segment: { text: 'Built in 1889.' }, groundingChunkIndices: [0] }],
+            searchEntryPoint: { renderedContent: '<div>suggestions</div>' },
+          },
+        }],
+      },
+    ]));
+    const baseUrl = await startServer({ ai });
+
+    const response = await post(baseUrl, '/api/history', { landmarkName: 'Eiffel Tower', language: 'fr-FR' });
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('content-type')).toBe('application/x-ndjson');
+    expect(await readEvents(response)).toEqual([
+      { type: 'text', text: '# Eiffel Tower\n\n' },
+      { type: 'text', text: 'Built in 1889.' },
+      {
+        type: 'grounding',
+        sources: [{ web: { uri: 'https://example.com/eiffel', title: 'example.com' }, supports: ['Built in 1889.'] }],
+        searchEntryPoint: '<div>suggestions</div>',
+      },
+      { type: 'done' },
+    ]);
+    expect(models.generateContentStream.mock.calls[0][0].contents).toContain('in French');
+  });
+
+  it('reports a failure after the stream has started in-band', async () => {
+    const { ai, models } = createStubGemini();
+    models.generateContentStream.mockResolvedValue(streamOf([
+      { text: 'Built in' },
+      { candidates: [{ finishReason: 'SAFETY' }] },
+    ]));
+    const baseUrl = await startServer({ ai });
+
+    const response = await post(baseUrl, '/api/history', { landmarkName: 'Eiffel Tower' });
+
+    expect(response.status).toBe(200);
+    expect(await readEvents(response)).toEqual([
+      { type: 'text', text: 'Built in' },
+      { type: 'error', status: 422, error: 'Gemini declined this request because of its safety filters.', category: 'safety' },
+    ]);
+  });
+});
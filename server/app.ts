@@ -0,0 +1,321 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import {
+  FollowUpRequest,
+  GeminiClient,
+  answerFollowUp,
+  findNearbyPlaces,
+  generateNarration,
+  identifyLandmark,
+  streamLandmarkHistory,
+} from './gemini';
+import { HttpError } from './httpError';
+import { RateLimiter } from './rateLimiter';
+import { DEFAULT_LANGUAGE, LanguageOption, findLanguage } from '../utils/languages';
+import { DEFAULT_PERSONA, TourPersona, findPersona } from '../utils/personas';
+import { Coordinates, PhotoContext } from '../types';
+
+export interface Logger {
+  info: (message: string) => void;
+  error: (message: string, error?: unknown) => void;
+}
+
+export interface AppDependencies {
+  ai: GeminiClient;
+  rateLimiter: RateLimiter;
+  logger?: Logger;
+  // Honour X-Forwarded-For when running behind a reverse proxy
+  trustProxy?: boolean;
+  maxBodyBytes?: number;
+}
+
+// The signal aborts when the client disconnects, so abandoned Gemini calls stop too
+type RouteHandler = (ai: GeminiClient, body: Record<string, unknown>, signal: AbortSignal) => Promise<unknown>;
+
+// Streaming routes emit newline-delimited JSON events instead of a single response
+type StreamRouteHandler = (
+  ai: GeminiClient,
+  body: Record<string, unknown>,
+  emit: (event: Record<string, unknown>) => void,
+  signal: AbortSignal,
+) => Promise<void>;
+
+// Photos arrive as base64 JSON, so allow for a large phone image
+const DEFAULT_MAX_BODY_BYTES = 20 * 1024 * 1024;
+
+const requireString = (body: Record<string, unknown>, field: string): string => {
+  const value = body[field];
+  if (typeof value !== 'string' || value.trim().length === 0) {
+    throw new HttpError(400, `Missing or invalid "${field}" field.`);
+  }
+  return value;
+};
+
+const readLanguage = (body: Record<string, unknown>): LanguageOption => {
+  const code = body.language ?? DEFAULT_LANGUAGE;
+  const language = typeof code === 'string' ? findLanguage(code) : undefined;
+  if (!language) {
+    throw new HttpError(400, `Unsupported language "${String(code)}".`);
+  }
+  return language;
+};
+
+const readPersona = (body: Record<string, unknown>): TourPersona => {
+  const id = body.persona ?? DEFAULT_PERSONA;
+  const persona = typeof id === 'string' ? findPersona(id) : undefined;
+  if (!persona) {
+    throw new HttpError(400, `Unknown persona "${String(id)}".`);
+  }
+  return persona;
+};
+
+// Voice names go straight into the TTS request, so only accept plain identifiers
+const readVoice = (body: Record<string, unknown>, language: LanguageOption): string => {
+  const voice = body.voice ?? language.voice;
+  if (typeof voice !== 'string' || !/^[A-Za-z]+$/.test(voice)) {
+    throw new HttpError(400, 'Missing or invalid "voice" field.');
+  }
+  return voice;
+};
+
+const isCoordinate = (value: unknown, limit: number): value is number => {
+  return typeof value === 'number' && Number.isFinite(value) && Math.abs(value) <= limit;
+};
+
+// Coordinates are interpolated into prompts, so only well-formed values get through
+const readCoordinates = (value: unknown, field: string): Coordinates | null => {
+  if (value === undefined || value === null) return null;
+
+  const { latitude, longitude } = value as Record<string, unknown>;
+  if (!isCoordinate(latitude, 90) || !isCoordinate(longitude, 180)) {
+    throw new HttpError(400, `Invalid "${field}" field.`);
+  }
+  return { latitude, longitude };
+};
+
+// Photo metadata is optional and is interpolated into the prompt, so only well-formed values get through
+const readPhotoContext = (body: Record<string, unknown>): PhotoContext => {
+  const context = body.context ?? {};
+  if (typeof context !== 'object' || context === null || Array.isArray(context)) {
+    throw new HttpError(400, 'Invalid "context" field.');
+  }
+
+  const { coordinates, capturedAt } = context as Record<string, unknown>;
+  const result: PhotoContext = {};
+  const position = readCoordinates(coordinates, 'context.coordinates');
+  if (position) {
+    result.coordinates = position;
+  }
+  if (capturedAt !== undefined && capturedAt !== null) {
+    if (typeof capturedAt !== 'string' || !/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}$/.test(capturedAt)) {
+      throw new HttpError(400, 'Invalid "context.capturedAt" field.');
+    }
+    result.capturedAt = capturedAt;
+  }
+  return result;
+};
+
+// Enough for a long conversation while keeping each request (and its token cost) bounded
+const MAX_CHAT_TURNS = 40;
+const MAX_CHAT_TEXT_LENGTH = 4000;
+
+const readChatHistory = (body: Record<string, unknown>): FollowUpRequest['history'] => {
+  const history = body.history ?? [];
+  if (!Array.isArray(history) || history.length > MAX_CHAT_TURNS) {
+    throw new HttpError(400, `"history" must be a list of at most ${MAX_CHAT_TURNS} turns.`);
+  }
+
+  return history.map((turn, index) => {
+    const { role, text } = (turn ?? {}) as Record<string, unknown>;
+    if ((role !== 'user' && role !== 'model') || typeof text !== 'string' || text.length > MAX_CHAT_TEXT_LENGTH) {
+      throw new HttpError(400, `Invalid "history[${index}]" turn.`);
+    }
+    return { role, text };
+  });
+};
+
+const routes: Record<string, RouteHandler> = {
+  '/api/identify': (ai, body, signal) => identifyLandmark(
+    ai,
+    requireString(body, 'imageBase64'),
+    requireString(body, 'mimeType'),
+    readPhotoContext(body),
+    signal,
+  ),
+  '/api/chat': (ai, body, signal) => {
+    const question = requireString(body, 'question');
+    if (question.length > MAX_CHAT_TEXT_LENGTH) {
+      throw new HttpError(400, 'The question is too long.');
+    }
+    return answerFollowUp(ai, {
+      imageBase64: requireString(body, 'imageBase64'),
+      mimeType: requireString(body, 'mimeType'),
+      landmarkName: requireString(body, 'landmarkName'),
+      landmarkInfo: requireString(body, 'landmarkInfo'),
+      history: readChatHistory(body),
+      question,
+    }, readLanguage(body), signal);
+  },
+  '/api/nearby': (ai, body, signal) => findNearbyPlaces(
+    ai,
+    requireString(body, 'landmarkName'),
+    readCoordinates(body.coordinates, 'coordinates'),
+    readLanguage(body),
+    signal,
+  ),
+  '/api/narration': async (ai, body, signal) => {
+    const language = readLanguage(body);
+    return {
+      audio: await generateNarration(
+        ai,
+        requireString(body, 'text'),
+        language,
+        readVoice(body, language),
+        readPersona(body).speakingStyle,
+        signal,
+      ),
+    };
+  },
+};
+
+const streamRoutes: Record<string, StreamRouteHandler> = {
+  '/api/history': async (ai, body, emit, signal) => {
+    const landmarkName = requireString(body, 'landmarkName');
+    const grounding = await streamLandmarkHistory(ai, landmarkName, readLanguage(body), readPersona(body), text => {
+      emit({ type: 'text', text });
+    }, signal);
+    emit({ type: 'grounding', ...grounding });
+  },
+};
+
+const readJsonBody = (req: IncomingMessage, maxBytes: number): Promise<Record<string, unknown>> => {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > maxBytes) {
+        // Stop reading rather than destroying the socket, so the 413 still reaches the client;
+        // it is sent with Connection: close, which closes the socket once it has been written
+        req.removeAllListeners('data');
+        req.pause();
+        chunks.length = 0;
+        reject(new HttpError(413, 'Request body is too large.', { closeConnection: true }));
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => {
+      try {
+        const parsed = JSON.parse(Buffer.concat(chunks).toString('utf8') || '{}');
+        if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+          throw new Error('not an object');
+        }
+        resolve(parsed);
+      } catch {
+        reject(new HttpError(400, 'Request body must be a JSON object.'));
+      }
+    });
+    req.on('error', reject);
+  });
+};
+
+const sendJson = (res: ServerResponse, status: number, payload: unknown) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(payload));
+};
+
+const getClientId = (req: IncomingMessage, trustProxy: boolean): string => {
+  const forwarded = req.headers['x-forwarded-for'];
+  if (trustProxy && typeof forwarded === 'string' && forwarded.length > 0) {
+    return forwarded.split(',')[0].trim();
+  }
+  return req.socket.remoteAddress ?? 'unknown';
+};
+
+/**
+ * Builds the proxy's request handler; Gemini, the limiter and the logger are injected
+ */
+export const createRequestHandler = ({
+  ai,
+  rateLimiter,
+  logger = { info: console.log, error: console.error },
+  trustProxy = false,
+  maxBodyBytes = DEFAULT_MAX_BODY_BYTES,
+}: AppDependencies) => {
+  return async (req: IncomingMessage, res: ServerResponse) => {
+    const startedAt = Date.now();
+    const clientId = getClientId(req, trustProxy);
+    const path = (req.url ?? '/').split('?')[0];
+
+    res.on('finish', () => {
+      logger.info(`${req.method} ${path} ${res.statusCode} ${Date.now() - startedAt}ms client=${clientId}`);
+    });
+    const disconnect = new AbortController();
+    res.on('close', () => {
+      if (!res.writableFinished) disconnect.abort();
+    });
+
+    try {
+      const handler = routes[path];
+      const streamHandler = streamRoutes[path];
+      if (!handler && !streamHandler) {
+        throw new HttpError(404, `No route for ${path}.`);
+      }
+      if (req.method !== 'POST') {
+        throw new HttpError(405, 'Only POST is supported.');
+      }
+
+      const limit = rateLimiter.check(clientId);
+      res.setHeader('X-RateLimit-Remaining', String(limit.remaining));
+      if (!limit.allowed) {
+        throw new HttpError(429, 'Rate limit exceeded. Please slow down.', { retryAfterSeconds: limit.retryAfterSeconds });
+      }
+
+      const body = await readJsonBody(req, maxBodyBytes);
+      if (handler) {
+        sendJson(res, 200, await handler(ai, body, disconnect.signal));
+        return;
+      }
+
+      await streamHandler(ai, body, event => {
+        if (!res.headersSent) {
+          res.writeHead(200, { 'Content-Type': 'application/x-ndjson', 'Cache-Control': 'no-cache' });
+        }
+        res.write(`${JSON.stringify(event)}\n`);
+      }, disconnect.signal);
+      res.end(`${JSON.stringify({ type: 'done' })}\n`);
+    } catch (error) {
+      // The client went away and the upstream call was cancelled; nobody is listening any more
+      if (disconnect.signal.aborted) {
+        return;
+      }
+
+      const httpError = error instanceof HttpError
+        ? error
+        : new HttpError(500, 'Internal server error.');
+
+      if (httpError.status >= 500) {
+        logger.error(`${req.method} ${path} failed`, error);
+      }
+      // A stream that has already started can only report the failure in-band
+      if (res.headersSent) {
+        res.end(`${JSON.stringify({
+          type: 'error',
+          status: httpError.status,
+          error: httpError.message,
+          category: httpError.category,
+          retryAfterSeconds: httpError.retryAfterSeconds,
+        })}\n`);
+        return;
+      }
+      if (httpError.retryAfterSeconds !== undefined) {
+        res.setHeader('Retry-After', String(httpError.retryAfterSeconds));
+      }
+      if (httpError.closeConnection) {
+        res.setHeader('Connection', 'close');
+      }
+      sendJson(res, httpError.status, { error: httpError.message, category: httpError.category });
+    }
+  };
+};
@@ -0,0 +1,370 @@
+import { FinishReason, GoogleGenAI, Modality, GenerateContentResponse, GroundingMetadata, Type } from '@google/genai';
+import {
+  ChatAnswer,
+  ChatMessage,
+  Coordinates,
+  GroundingChunk,
+  LandmarkHistory,
+  LandmarkIdentification,
+  NearbyPlaces,
+  PhotoContext,
+} from '../types';
+import { HttpError } from './httpError';
+import { LanguageOption } from '../utils/languages';
+import { TourPersona } from '../utils/personas';
+import { IdentificationParseError, MAX_ALTERNATIVES, parseLandmarkIdentification } from '../utils/identification';
+import { MAX_NEARBY_PLACES, MAX_WALKING_DISTANCE_METERS, NearbyPlacesParseError, parseNearbyPlaces } from '../utils/nearby';
+
+// Only the slice of the SDK we use, so tests can pass a stubbed client
+export type GeminiClient = Pick<GoogleGenAI, 'models'>;
+
+const extractErrorMessage = (error: unknown): string => {
+  if (error instanceof Error && error.message) {
+    return error.message;
+  }
+
+  if (typeof error === 'object' && error !== null) {
+    const possibleMessage = (error as { message?: string }).message
+      ?? (error as { error?: { message?: string } }).error?.message
+      ?? (error as { error?: { statusMessage?: string } }).error?.statusMessage;
+
+    if (typeof possibleMessage === 'string' && possibleMessage.trim().length > 0) {
+      return possibleMessage;
+    }
+  }
+
+  return 'An unexpected error occurred while contacting the Gemini service.';
+};
+
+// Gemini answers a bad API key with a 400 rather than a 401, so the message tells them apart
+const AUTH_ERROR_PATTERN = /API[_\s]key/i;
+
+const SAFETY_FINISH_REASONS = new Set<string>([
+  FinishReason.SAFETY,
+  FinishReason.BLOCKLIST,
+  FinishReason.PROHIBITED_CONTENT,
+  FinishReason.SPII,
+  FinishReason.IMAGE_SAFETY,
+]);
+
+/**
+ * Wraps an upstream SDK failure, keeping its HTTP status when it has one
+ */
+const toUpstreamError = (error: unknown): never => {
+  const status = (error as { status?: unknown })?.status;
+  const message = extractErrorMessage(error);
+  // Rate limit errors carry a RetryInfo detail such as "retryDelay": "27s"; pass it on as Retry-After
+  const retryDelay = message.match(/"retryDelay":\s*"(\d+(?:\.\d+)?)s"/)?.[1];
+  const isAuthError = status === 401 || status === 403 || (status === 400 && AUTH_ERROR_PATTERN.test(message));
+  throw new HttpError(typeof status === 'number' ? status : 502, message, {
+    retryAfterSeconds: retryDelay === undefined ? undefined : Math.ceil(Number(retryDelay)),
+    category: isAuthError ? 'auth' : undefined,
+  });
+};
+
+/**
+ * Gemini reports a blocked prompt or answer as a normal response with no content; this makes it an error
+ */
+const assertNotBlocked = (response: GenerateContentResponse) => {
+  const blockReason = response.promptFeedback?.blockReason;
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (blockReason || (finishReason && SAFETY_FINISH_REASONS.has(finishReason))) {
+    throw new HttpError(422, 'Gemini declined this request because of its safety filters.', { category: 'safety' });
+  }
+};
+
+const candidateProperties = {
+  name: { type: Type.STRING, description: 'Name of the landmark, or an empty string if none is visible.' },
+  city: { type: Type.STRING },
+  country: { type: Type.STRING },
+  confidence: { type: Type.NUMBER, description: 'Probability from 0 to 1 that this is the correct landmark.' },
+};
+
+const identificationSchema = {
+  type: Type.OBJECT,
+  properties: {
+    ...candidateProperties,
+    coordinates: {
+      type: Type.OBJECT,
+      nullable: true,
+      properties: {
+        latitude: { type: Type.NUMBER },
+        longitude: { type: Type.NUMBER },
+      },
+      required: ['latitude', 'longitude'],
+    },
+    alternatives: {
+      type: Type.ARRAY,
+      maxItems: String(MAX_ALTERNATIVES),
+      items: {
+        type: Type.OBJECT,
+        properties: candidateProperties,
+        required: ['name', 'city', 'country', 'confidence'],
+      },
+    },
+  },
+  required: ['name', 'city', 'country', 'confidence', 'coordinates', 'alternatives'],
+};
+
+/**
+ * Describes the photo's EXIF position and date for the prompt, or returns '' when there are none
+ */
+const describePhotoContext = ({ coordinates, capturedAt }: PhotoContext): string => {
+  const details = [
+    coordinates && `taken at latitude ${coordinates.latitude.toFixed(5)}, longitude ${coordinates.longitude.toFixed(5)}`,
+    capturedAt && `taken on ${capturedAt.slice(0, 10)}`,
+  ].filter(Boolean);
+  if (details.length === 0) return '';
+
+  return ` The photo's metadata says it was ${details.join(' and ')}. Use this to tell apart landmarks that look alike, but trust what you see if the two disagree.`;
+};
+
+export const identifyLandmark = async (
+  ai: GeminiClient,
+  imageBase64: string,
+  mimeType: string,
+  context: PhotoContext = {},
+  signal?: AbortSignal,
+): Promise<LandmarkIdentification> => {
+  let response: GenerateContentResponse;
+  try {
+    response = await ai.models.generateContent({
+      model: 'gemini-2.5-flash',
+      contents: {
+        parts: [
+          {
+            inlineData: {
+              mimeType: mimeType,
+              data: imageBase64,
+            },
+          },
+          {
+            text: `Identify the primary landmark in this photo. Give its name, city, country and approximate coordinates, with your confidence from 0 to 1. If you are not certain, list up to ${MAX_ALTERNATIVES} other landmarks it could be. If no landmark is present, return an empty name with confidence 0.${describePhotoContext(context)}`,
+          },
+        ],
+      },
+      config: {
+        abortSignal: signal,
+        responseMimeType: 'application/json',
+        responseSchema: identificationSchema,
+      },
+    });
+  } catch (error) {
+    toUpstreamError(error);
+  }
+  assertNotBlocked(response);
+
+  let identification: LandmarkIdentification;
+  try {
+    identification = parseLandmarkIdentification(response.text ?? '');
+  } catch (error) {
+    if (error instanceof IdentificationParseError) {
+      throw new HttpError(502, error.message);
+    }
+    throw error;
+  }
+
+  if (!identification.name && identification.alternatives.length === 0) {
+    throw new HttpError(422, 'Could not identify a landmark in the photo.', { category: 'unrecognized' });
+  }
+  return identification;
+};
+
+/**
+ * Gemini lists sources and the text spans they support separately; this attaches each span to its sources
+ */
+const toGroundingChunks = (metadata: GroundingMetadata | undefined): GroundingChunk[] => {
+  const supports = metadata?.groundingSupports ?? [];
+  return (metadata?.groundingChunks ?? []).map((chunk, index) => ({
+    web: chunk.web?.uri
+      ? { uri: chunk.web.uri, title: chunk.web.title ?? chunk.web.domain ?? chunk.web.uri, domain: chunk.web.domain }
+      : undefined,
+    supports: supports
+      .filter(support => support.groundingChunkIndices?.includes(index))
+      .map(support => support.segment?.text ?? '')
+      .filter(text => text.trim().length > 0),
+  }));
+};
+
+/**
+ * Streams the markdown history through onText as it arrives and resolves with the grounding data
+ */
+export const streamLandmarkHistory = async (
+  ai: GeminiClient,
+  landmarkName: string,
+  language: LanguageOption,
+  persona: TourPersona,
+  onText: (textChunk: string) => void,
+  signal?: AbortSignal,
+): Promise<Omit<LandmarkHistory, 'text'>> => {
+  let stream: AsyncGenerator<GenerateContentResponse>;
+  try {
+    stream = await ai.models.generateContentStream({
+      model: 'gemini-2.5-flash',
+      contents: `Tell me about ${landmarkName}, focusing on ${persona.focus}. Write for ${persona.readingLevel}, in about ${persona.targetWords} words. Write the entire response in ${language.name}. Format the response as markdown.`,
+      config: {
+        abortSignal: signal,
+        tools: [{ googleSearch: {} }],
+      },
+    });
+  } catch (error) {
+    toUpstreamError(error);
+  }
+
+  // Grounding metadata usually arrives with the final chunk, so keep the latest one that has sources.
+  // Its supports refer to the full text, not to the chunk they arrive with.
+  let metadata: GroundingMetadata | undefined;
+  try {
+    for await (const chunk of stream) {
+      assertNotBlocked(chunk);
+      if (chunk.text) {
+        onText(chunk.text);
+      }
+      const chunkMetadata = chunk.candidates?.[0]?.groundingMetadata;
+      if (chunkMetadata?.groundingChunks && chunkMetadata.groundingChunks.length > 0) {
+        metadata = chunkMetadata;
+      }
+    }
+  } catch (error) {
+    if (error instanceof HttpError) throw error;
+    toUpstreamError(error);
+  }
+  return {
+    sources: toGroundingChunks(metadata),
+    searchEntryPoint: metadata?.searchEntryPoint?.renderedContent,
+  };
+};
+
+export const generateNarration = async (
+  ai: GeminiClient,
+  textToNarrate: string,
+  language: LanguageOption,
+  voiceName: string,
+  speakingStyle: string,
+  signal?: AbortSignal,
+): Promise<string> => {
+  let response: GenerateContentResponse;
+  try {
+    response = await ai.models.generateContent({
+      model: 'gemini-2.5-flash-preview-tts',
+      // The TTS model follows a leading delivery instruction ("Say cheerfully: ...") without reading it out
+      contents: [{ parts: [{ text: `${speakingStyle}:\n\n${textToNarrate}` }] }],
+      config: {
+        abortSignal: signal,
+        responseModalities: [Modality.AUDIO],
+        speechConfig: {
+          languageCode: language.code,
+          voiceConfig: {
+            prebuiltVoiceConfig: { voiceName },
+          },
+        },
+      },
+    });
+  } catch (error) {
+    toUpstreamError(error);
+  }
+  assertNotBlocked(response);
+
+  const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+  if (!base64Audio) {
+    throw new HttpError(502, 'Failed to generate audio narration.');
+  }
+  return base64Audio;
+};
+
+export interface FollowUpRequest {
+  imageBase64: string;
+  mimeType: string;
+  landmarkName: string;
+  landmarkInfo: string;
+  history: Pick<ChatMessage, 'role' | 'text'>[];
+  question: string;
+}
+
+/**
+ * Answers a follow-up question as one more turn of a conversation that opens with the photo and the guide
+ */
+export const answerFollowUp = async (
+  ai: GeminiClient,
+  { imageBase64, mimeType, landmarkName, landmarkInfo, history, question }: FollowUpRequest,
+  language: LanguageOption,
+  signal?: AbortSignal,
+): Promise<ChatAnswer> => {
+  let response: GenerateContentResponse;
+  try {
+    response = await ai.models.generateContent({
+      model: 'gemini-2.5-flash',
+      contents: [
+        {
+          role: 'user',
+          parts: [
+            { inlineData: { mimeType, data: imageBase64 } },
+            { text: `This photo shows ${landmarkName}. Here is the guide I was given about it:\n\n${landmarkInfo}` },
+          ],
+        },
+        { role: 'model', parts: [{ text: `Happy to answer any questions about ${landmarkName}.` }] },
+        ...history.map(({ role, text }) => ({ role, parts: [{ text }] })),
+        { role: 'user', parts: [{ text: question }] },
+      ],
+      config: {
+        abortSignal: signal,
+        systemInstruction: `You are a friendly, knowledgeable tour guide answering a visitor's follow-up questions about ${landmarkName}. Answer in ${language.name}, in at most three short paragraphs of markdown. Use Google Search for anything that may have changed, such as opening hours, prices or restoration work, and say so if you cannot find an answer.`,
+        tools: [{ googleSearch: {} }],
+      },
+    });
+  } catch (error) {
+    toUpstreamError(error);
+  }
+  assertNotBlocked(response);
+
+  const text = response.text?.trim();
+  if (!text) {
+    throw new HttpError(502, 'The guide did not return an answer.');
+  }
+  return {
+    text,
+    sources: toGroundingChunks(response.candidates?.[0]?.groundingMetadata),
+  };
+};
+
+/**
+ * Finds landmarks within walking distance with Google Search. Search grounding cannot be combined
+ * with a response schema, so the JSON shape is described in the prompt and validated afterwards.
+ */
+export const findNearbyPlaces = async (
+  ai: GeminiClient,
+  landmarkName: string,
+  coordinates: Coordinates | null,
+  language: LanguageOption,
+  signal?: AbortSignal,
+): Promise<NearbyPlaces> => {
+  const position = coordinates
+    ? ` (latitude ${coordinates.latitude.toFixed(5)}, longitude ${coordinates.longitude.toFixed(5)})`
+    : '';
+  let response: GenerateContentResponse;
+  try {
+    response = await ai.models.generateContent({
+      model: 'gemini-2.5-flash',
+      contents: `List up to ${MAX_NEARBY_PLACES} landmarks or points of interest that a visitor can walk to from ${landmarkName}${position}, within about ${MAX_WALKING_DISTANCE_METERS} meters. Use Google Search to check that each one exists and can be visited. Reply with only a JSON array and no other text. Each item must have "name" (the place's usual name followed by its city, e.g. "Pont d'Iéna, Paris"), "distanceMeters" (the walking distance from ${landmarkName}, as a number), "hook" (one short sentence in ${language.name} on why it is worth a visit) and "coordinates" ({"latitude": number, "longitude": number}, or null if you do not know them). Do not include ${landmarkName} itself.`,
+      config: {
+        abortSignal: signal,
+        tools: [{ googleSearch: {} }],
+      },
+    });
+  } catch (error) {
+    toUpstreamError(error);
+  }
+  assertNotBlocked(response);
+
+  try {
+    return {
+      places: parseNearbyPlaces(response.text ?? '', coordinates),
+      sources: toGroundingChunks(response.candidates?.[0]?.groundingMetadata),
+    };
+  } catch (error) {
+    if (error instanceof NearbyPlacesParseError) {
+      throw new HttpError(502, error.message);
+    }
+    throw error;
+  }
+};
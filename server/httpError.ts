@@ -0,0 +1,28 @@
+import { ErrorCategory } from '../types';
+
+export interface HttpErrorOptions {
+  retryAfterSeconds?: number;
+  // Sent to the client when the status alone does not say what went wrong (e.g. a safety block)
+  category?: ErrorCategory;
+  // For a request whose body was left unread, so the connection cannot be reused
+  closeConnection?: boolean;
+}
+
+/**
+ * Error carrying the HTTP status the proxy should answer with
+ */
+export class HttpError extends Error {
+  status: number;
+  retryAfterSeconds?: number;
+  category?: ErrorCategory;
+  closeConnection: boolean;
+
+  constructor(status: number, message: string, { retryAfterSeconds, category, closeConnection = false }: HttpErrorOptions = {}) {
+    super(message);
+    this.name = 'HttpError';
+    this.status = status;
+    this.retryAfterSeconds = retryAfterSeconds;
+    this.category = category;
+    this.closeConnection = closeConnection;
+  }
+}
@@ -0,0 +1,30 @@
+import { createServer } from 'node:http';
+import { existsSync } from 'node:fs';
+import { GoogleGenAI } from '@google/genai';
+import { createRequestHandler } from './app';
+import { createRateLimiter } from './rateLimiter';
+
+if (existsSync('.env.local')) {
+  process.loadEnvFile('.env.local');
+}
+
+const apiKey = process.env.GEMINI_API_KEY;
+if (!apiKey) {
+  console.error('GEMINI_API_KEY environment variable is not set. Please create a .env.local file with your API key.');
+  process.exit(1);
+}
+
+const port = Number(process.env.PORT) || 8787;
+
+const handler = createRequestHandler({
+  ai: new GoogleGenAI({ apiKey }),
+  rateLimiter: createRateLimiter({
+    windowMs: Number(process.env.RATE_LIMIT_WINDOW_MS) || 60_000,
+    maxRequests: Number(process.env.RATE_LIMIT_MAX) || 30,
+  }),
+  trustProxy: process.env.TRUST_PROXY === 'true',
+});
+
+createServer(handler).listen(port, () => {
+  console.log(`Tour guide API listening on http://localhost:${port}`);
+});
@@ -0,0 +1,53 @@
+export interface RateLimitResult {
+  allowed: boolean;
+  remaining: number;
+  retryAfterSeconds: number;
+}
+
+export interface RateLimiter {
+  check: (clientId: string) => RateLimitResult;
+}
+
+export interface RateLimiterOptions {
+  windowMs: number;
+  maxRequests: number;
+  now?: () => number;
+}
+
+interface WindowState {
+  startedAt: number;
+  count: number;
+}
+
+/**
+ * Fixed-window limiter keyed by client id (usually the caller's IP)
+ */
+export const createRateLimiter = ({ windowMs, maxRequests, now = Date.now }: RateLimiterOptions): RateLimiter => {
+  const windows = new Map<string, WindowState>();
+
+  const pruneExpired = (time: number) => {
+    for (const [clientId, state] of windows) {
+      if (time - state.startedAt >= windowMs) {
+        windows.delete(clientId);
+      }
+    }
+  };
+
+  return {
+    check: (clientId: string) => {
+      const time = now();
+      pruneExpired(time);
+
+      const state = windows.get(clientId) ?? { startedAt: time, count: 0 };
+      windows.set(clientId, state);
+
+      const retryAfterSeconds = Math.ceil((state.startedAt + windowMs - time) / 1000);
+      if (state.count >= maxRequests) {
+        return { allowed: false, remaining: 0, retryAfterSeconds };
+      }
+
+      state.count += 1;
+      return { allowed: true, remaining: maxRequests - state.count, retryAfterSeconds };
+    },
+  };
+};
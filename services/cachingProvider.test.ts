@@ -0,0 +1,101 @@
+import { describe, expect, it, vi } from 'vitest';
+import { LandmarkHistory, TourGuideProvider } from '../types';
+import { withResponseCache } from './cachingProvider';
+
+const history: LandmarkHistory = { text: 'Built for the 1889 World\'s Fair.', sources: [] };
+
+const createFakeProvider = () => ({
+  identifyLandmark: vi.fn<TourGuideProvider['identifyLandmark']>(),
+  fetchLandmarkHistory: vi.fn<TourGuideProvider['fetchLandmarkHistory']>().mockResolvedValue(history),
+  generateNarration: vi.fn<TourGuideProvider['generateNarration']>().mockResolvedValue('pcm'),
+  askFollowUp: vi.fn<TourGuideProvider['askFollowUp']>(),
+  findNearbyPlaces: vi.fn<TourGuideProvider['findNearbyPlaces']>(),
+});
+
+// A history request that stays open until release() is called
+const holdHistory = (provider: ReturnType<typeof createFakeProvider>) => {
+  let release!: () => void;
+  let receivedSignal: AbortSignal | undefined;
+  provider.fetchLandmarkHistory.mockImplementation((_, options) => {
+    receivedSignal = options?.signal;
+    return new Promise(resolve => { release = () => resolve(history); });
+  });
+  return { release: () => release(), signal: () => receivedSignal };
+};
+
+describe('withResponseCache', () => {
+  it('keys guides by landmark, language and persona', async () => {
+    const provider = createFakeProvider();
+    const cached = withResponseCache(provider);
+
+    await cached.fetchLandmarkHistory('Eiffel Tower', { language: 'fr-FR', persona: 'classic' });
+    await cached.fetchLandmarkHistory('  eiffel tower ', { language: 'fr-FR', persona: 'classic' });
+    expect(provider.fetchLandmarkHistory).toHaveBeenCalledTimes(1);
+
+    await cached.fetchLandmarkHistory('Eiffel Tower', { language: 'de-DE', persona: 'classic' });
+    await cached.fetchLandmarkHistory('Eiffel Tower', { language: 'fr-FR', persona: 'kids' });
+    expect(provider.fetchLandmarkHistory).toHaveBeenCalledTimes(3);
+  });
+
+  it('keys narration by text, language, voice and persona', async () => {
+    const provider = createFakeProvider();
+    const cached = withResponseCache(provider);
+
+    await cached.generateNarration('Bonjour.', { language: 'fr-FR', persona: 'classic' });
+    await cached.generateNarration('Bonjour.', { language: 'fr-FR', persona: 'classic' });
+    expect(provider.generateNarration).toHaveBeenCalledTimes(1);
+
+    await cached.generateNarration('Bonjour.', { language: 'en-US', persona: 'classic' });
+    await cached.generateNarration('Bonjour.', { language: 'fr-FR', persona: 'kids' });
+    await cached.generateNarration('Bonjour.', { language: 'fr-FR', persona: 'classic', voice: 'Puck' });
+    expect(provider.generateNarration).toHaveBeenCalledTimes(4);
+  });
+
+  it('replays a cached guide through onText and fetches a fresh one on request', async () => {
+    const provider = createFakeProvider();
+    const cached = withResponseCache(provider);
+    await cached.fetchLandmarkHistory('Eiffel Tower');
+
+    const onText = vi.fn();
+    await cached.fetchLandmarkHistory('Eiffel Tower', { onText });
+    expect(onText).toHaveBeenCalledWith(history.text);
+
+    await cached.fetchLandmarkHistory('Eiffel Tower', { bypassCache: true });
+    expect(provider.fetchLandmarkHistory).toHaveBeenCalledTimes(2);
+  });
+
+  it('sends identical requests made at the same time only once', async () => {
+    const provider = createFakeProvider();
+    const cached = withResponseCache(provider);
+    const pending = holdHistory(provider);
+
+    const onText = vi.fn();
+    const first = cached.fetchLandmarkHistory('Eiffel Tower');
+    const second = cached.fetchLandmarkHistory('Eiffel Tower', { onText });
+    pending.release();
+
+    await expect(first).resolves.toBe(history);
+    await expect(second).resolves.toBe(history);
+    expect(provider.fetchLandmarkHistory).toHaveBeenCalledTimes(1);
+    expect(onText).toHaveBeenCalledWith(history.text);
+  });
+
+  it('keeps a shared request going until every caller has aborted', async () => {
+    const provider = createFakeProvider();
+    const cached = withResponseCache(provider);
+    const pending = holdHistory(provider);
+    const firstCaller = new AbortController();
+    const secondCaller = new AbortController();
+
+    const first = cached.fetchLandmarkHistory('Eiffel Tower', { signal: firstCaller.signal });
+    const second = cached.fetchLandmarkHistory('Eiffel Tower', { signal: secondCaller.signal });
+
+    firstCaller.abort();
+    await expect(first).rejects.toBe(firstCaller.signal.reason);
+    expect(pending.signal()?.aborted).toBe(false);
+
+    secondCaller.abort();
+    await expect(second).rejects.toBe(secondCaller.signal.reason);
+    expect(pending.signal()?.aborted).toBe(true);
+  });
+});
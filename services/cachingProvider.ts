@@ -0,0 +1,113 @@
+import { LandmarkHistory, LandmarkIdentification, NearbyPlaces, TourGuideProvider } from '../types';
+import { sha256Hex } from '../utils/helpers';
+import { normalizeLandmarkName } from '../utils/identification';
+import { DEFAULT_LANGUAGE, getLanguage } from '../utils/languages';
+import { DEFAULT_PERSONA } from '../utils/personas';
+import { createInFlightRequests, createResponseCache } from './responseCache';
+
+const ONE_HOUR_MS = 60 * 60 * 1000;
+// Narration is base64 PCM (~64KB per spoken second), so bound it by size rather than count
+const MAX_NARRATION_CACHE_CHARS = 50 * 1024 * 1024;
+
+/**
+ * Wraps a provider so repeated photos, landmarks and narration text are served from memory.
+ * Identical requests made while the first is still running share its response.
+ */
+export const withResponseCache = (provider: TourGuideProvider): TourGuideProvider => {
+  const identifications = createResponseCache<LandmarkIdentification>({ ttlMs: ONE_HOUR_MS, maxEntries: 100 });
+  const histories = createResponseCache<LandmarkHistory>({
+    ttlMs: ONE_HOUR_MS,
+    maxEntries: 50,
+    maxWeight: 5 * 1024 * 1024,
+    weigh: history => history.text.length,
+  });
+  const narrations = createResponseCache<string>({
+    ttlMs: ONE_HOUR_MS,
+    maxEntries: 500,
+    maxWeight: MAX_NARRATION_CACHE_CHARS,
+    weigh: audio => audio.length,
+  });
+  const nearbyPlaces = createResponseCache<NearbyPlaces>({ ttlMs: ONE_HOUR_MS, maxEntries: 50 });
+  const pendingIdentifications = createInFlightRequests<LandmarkIdentification>();
+  const pendingHistories = createInFlightRequests<LandmarkHistory>();
+  const pendingNarrations = createInFlightRequests<string>();
+  const pendingNearbyPlaces = createInFlightRequests<NearbyPlaces>();
+
+  return {
+    identifyLandmark: async (imageBase64, mimeType, options = {}) => {
+      // The same photo can be identified differently once its location or date is known
+      const { coordinates, capturedAt } = options.context ?? {};
+      const contextKey = `${coordinates ? `${coordinates.latitude},${coordinates.longitude}` : ''}|${capturedAt ?? ''}`;
+      const key = `${await sha256Hex(imageBase64)}|${contextKey}`;
+      // Hashing a large photo takes a moment; the caller may have moved on meanwhile
+      options.signal?.throwIfAborted();
+      const cached = options.bypassCache ? undefined : identifications.get(key);
+      if (cached !== undefined) return cached;
+
+      const request = async (signal?: AbortSignal) => {
+        const identification = await provider.identifyLandmark(imageBase64, mimeType, { ...options, signal });
+        identifications.set(key, identification);
+        return identification;
+      };
+      // A forced refresh should not settle for a response that was already on its way
+      return options.bypassCache ? request(options.signal) : pendingIdentifications(key, options.signal, request);
+    },
+
+    fetchLandmarkHistory: async (landmarkName, options = {}) => {
+      const key = `${normalizeLandmarkName(landmarkName)}|${options.language ?? DEFAULT_LANGUAGE}|${options.persona ?? DEFAULT_PERSONA}`;
+      const cached = options.bypassCache ? undefined : histories.get(key);
+      if (cached !== undefined) {
+        options.onText?.(cached.text);
+        return cached;
+      }
+
+      let isStreaming = false;
+      const request = async (signal?: AbortSignal) => {
+        isStreaming = true;
+        const history = await provider.fetchLandmarkHistory(landmarkName, { ...options, signal });
+        histories.set(key, history);
+        return history;
+      };
+      if (options.bypassCache) return request(options.signal);
+
+      const history = await pendingHistories(key, options.signal, request);
+      // Callers that joined another caller's request only see the guide once it is complete
+      if (!isStreaming) options.onText?.(history.text);
+      return history;
+    },
+
+    generateNarration: async (textToNarrate, options = {}) => {
+      const language = getLanguage(options.language ?? DEFAULT_LANGUAGE);
+      const persona = options.persona ?? DEFAULT_PERSONA;
+      const key = `${await sha256Hex(textToNarrate)}|${language.code}|${options.voice ?? language.voice}|${persona}`;
+      options.signal?.throwIfAborted();
+      const cached = options.bypassCache ? undefined : narrations.get(key);
+      if (cached !== undefined) return cached;
+
+      const request = async (signal?: AbortSignal) => {
+        const audio = await provider.generateNarration(textToNarrate, { ...options, signal });
+        narrations.set(key, audio);
+        return audio;
+      };
+      return options.bypassCache ? request(options.signal) : pendingNarrations(key, options.signal, request);
+    },
+
+    // Answers depend on the whole conversation and on current facts like opening hours, so they are never cached
+    askFollowUp: provider.askFollowUp,
+
+    findNearbyPlaces: async (landmarkName, options = {}) => {
+      const { coordinates } = options;
+      const position = coordinates ? `${coordinates.latitude},${coordinates.longitude}` : '';
+      const key = `${normalizeLandmarkName(landmarkName)}|${options.language ?? DEFAULT_LANGUAGE}|${position}`;
+      const cached = options.bypassCache ? undefined : nearbyPlaces.get(key);
+      if (cached !== undefined) return cached;
+
+      const request = async (signal?: AbortSignal) => {
+        const places = await provider.findNearbyPlaces(landmarkName, { ...options, signal });
+        nearbyPlaces.set(key, places);
+        return places;
+      };
+      return options.bypassCache ? request(options.signal) : pendingNearbyPlaces(key, options.signal, request);
+    },
+  };
+};
@@ -0,0 +1,51 @@
+const DB_NAME = 'photo-tour-guide';
+const DB_VERSION = 2;
+
+export const TOUR_STORE = 'tours';
+export const UPLOAD_QUEUE_STORE = 'pending-uploads';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) => {
+        const db = request.result;
+        // Each step upgrades from the version before it, so any older database catches up
+        if (event.oldVersion < 1) {
+          const store = db.createObjectStore(TOUR_STORE, { keyPath: 'id' });
+          store.createIndex('createdAt', 'createdAt');
+        }
+        if (event.oldVersion < 2) {
+          const store = db.createObjectStore(UPLOAD_QUEUE_STORE, { keyPath: 'id' });
+          store.createIndex('queuedAt', 'queuedAt');
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error ?? new Error('Could not open the tour history database.'));
+      };
+    });
+  }
+  return dbPromise;
+};
+
+/**
+ * Runs a single request against one object store and resolves with its result
+ */
+export const runRequest = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  createRequest: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = createRequest(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error ?? new Error(`Request to "${storeName}" failed.`));
+    transaction.onabort = () => reject(transaction.error ?? new Error(`Request to "${storeName}" was aborted.`));
+  });
+};
@@ -1,122 +1,250 @@
+import {
+  ChatAnswer,
+  ErrorCategory,
+  ChatContext,
+  ChatRequestOptions,
+  GroundingChunk,
+  HistoryRequestOptions,
+  IdentifyRequestOptions,
+  LandmarkHistory,
+  LandmarkIdentification,
+  NarrationRequestOptions,
+  NearbyPlaces,
+  NearbyRequestOptions,
+  TourGuideProvider,
+} from '../types';
+import { TourGuideError } from '../utils/errors';
+import { Deadline, TransientError, createDeadline, parseRetryAfter, withRetry } from '../utils/retry';
+
+// Same-origin by default; the Vite dev server proxies /api to the backend
+const API_BASE_URL = process.env.API_BASE_URL || '';
+
+// Per-attempt limits. The history stream's limit is for silence: it restarts with every event.
+const IDENTIFY_TIMEOUT_MS = 30_000;
+const HISTORY_IDLE_TIMEOUT_MS = 30_000;
+const NARRATION_TIMEOUT_MS = 60_000;
+const CHAT_TIMEOUT_MS = 45_000;
+const NEARBY_TIMEOUT_MS = 45_000;
+
+const TRANSIENT_STATUSES = new Set([500, 502, 503, 504]);
+
+/**
+ * Turns a failed response into a categorized error. The server names the category when the
+ * status alone is ambiguous (a safety block and an unrecognized photo are both 422s).
+ */
+const normalizeGeminiError = (status: number, message: string, retryAfterMs?: number, category?: ErrorCategory): never => {
+  if (/model\s+is\s+overloaded/i.test(message) || /unavailable/i.test(message) || status === 503) {
+    throw new TransientError('Gemini is currently overloaded. Please try again in a few moments.', 'unavailable', retryAfterMs);
+  }
 
-import { GoogleGenAI, Modality, GenerateContentResponse } from "@google/genai";
-import { GroundingChunk } from '../types';
+  if (/rate\s+limit/i.test(message) || status === 429) {
+    throw new TransientError('Gemini rate limit reached. Wait a bit and try again.', 'quota', retryAfterMs);
+  }
 
-let ai: GoogleGenAI | null = null;
+  if (TRANSIENT_STATUSES.has(status)) {
+    throw new TransientError(message, 'unavailable', retryAfterMs);
+  }
+  throw new TourGuideError(message, category ?? (status === 401 || status === 403 ? 'auth' : 'unknown'));
+};
 
-const extractErrorMessage = (error: unknown): string => {
-  if (error instanceof Error && error.message) {
-    return error.message;
+type HistoryStreamEvent =
+  | { type: 'text'; text: string }
+  | ({ type: 'grounding' } & Omit<LandmarkHistory, 'text'>)
+  | { type: 'error'; status: number; error: string; category?: ErrorCategory; retryAfterSeconds?: number }
+  | { type: 'done' };
+
+/**
+ * POSTs JSON to the tour guide backend, which holds the Gemini API key
+ */
+const post = async (path: string, body: unknown, signal: AbortSignal): Promise<Response> => {
+  let response: Response;
+  try {
+    response = await fetch(`${API_BASE_URL}${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+      signal,
+    });
+  } catch (error) {
+    if (signal.aborted) throw error;
+    throw new TransientError('Could not reach the tour guide server. Check your connection and try again.', 'network');
   }
 
-  if (typeof error === 'object' && error !== null) {
-    const possibleMessage = (error as { message?: string }).message
-      ?? (error as { error?: { message?: string } }).error?.message
-      ?? (error as { error?: { statusMessage?: string } }).error?.statusMessage;
+  if (!response.ok) {
+    const payload = await response.json().catch(() => ({}));
+    const message = typeof payload?.error === 'string' && payload.error.trim().length > 0
+      ? payload.error
+      : `The tour guide server responded with status ${response.status}.`;
+    normalizeGeminiError(response.status, message, parseRetryAfter(response.headers.get('Retry-After')), payload?.category);
+  }
+  return response;
+};
 
-    if (typeof possibleMessage === 'string' && possibleMessage.trim().length > 0) {
-      return possibleMessage;
+/**
+ * Runs one attempt under its own deadline. A timeout becomes a TransientError so it is retried;
+ * the caller's own abort is passed through untouched.
+ */
+const attempt = async <T>(timeoutMs: number, signal: AbortSignal | undefined, run: (deadline: Deadline) => Promise<T>): Promise<T> => {
+  const deadline = createDeadline(timeoutMs, signal);
+  try {
+    return await run(deadline);
+  } catch (error) {
+    if (deadline.hasTimedOut()) {
+      throw new TransientError('The tour guide server took too long to respond. Please try again.', 'unavailable');
     }
+    throw error;
+  } finally {
+    deadline.clear();
   }
-
-  return 'An unexpected error occurred while contacting the Gemini service.';
 };
 
-const normalizeGeminiError = (error: unknown): never => {
-  const message = extractErrorMessage(error);
+const postJson = async <T>(path: string, body: unknown, timeoutMs: number, signal?: AbortSignal): Promise<T> => {
+  const result = await withRetry(
+    () => attempt(timeoutMs, signal, async deadline => {
+      const response = await post(path, body, deadline.signal);
+      return response.json() as Promise<T>;
+    }),
+    { signal },
+  );
+  // A response that lands just as the caller gives up is stale and must not be used
+  signal?.throwIfAborted();
+  return result;
+};
 
-  if (/model\s+is\s+overloaded/i.test(message) || /unavailable/i.test(message) || /503/.test(message)) {
-    throw new Error('Gemini is currently overloaded. Please try again in a few moments.');
+/**
+ * Yields each newline-delimited JSON event of a streaming response
+ */
+async function* readNdjson<T>(response: Response): AsyncGenerator<T> {
+  if (!response.body) {
+    throw new Error('The tour guide server returned an empty stream.');
   }
 
-  if (/rate\s+limit/i.test(message) || /429/.test(message)) {
-    throw new Error('Gemini rate limit reached. Wait a bit and try again.');
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffered = '';
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) break;
+
+    buffered += value;
+    const lines = buffered.split('\n');
+    buffered = lines.pop() ?? '';
+    for (const line of lines) {
+      if (line.trim()) {
+        yield JSON.parse(line) as T;
+      }
+    }
   }
-
-  throw new Error(message);
+  if (buffered.trim()) {
+    yield JSON.parse(buffered) as T;
+  }
+}
+
+export const identifyLandmark = (
+  imageBase64: string,
+  mimeType: string,
+  { context, signal }: IdentifyRequestOptions = {},
+): Promise<LandmarkIdentification> => {
+  return postJson<LandmarkIdentification>('/api/identify', { imageBase64, mimeType, context }, IDENTIFY_TIMEOUT_MS, signal);
 };
 
-const getAI = () => {
-  if (!ai) {
-    const apiKey = process.env.API_KEY || process.env.GEMINI_API_KEY;
-    if (!apiKey) {
-      throw new Error("GEMINI_API_KEY environment variable is not set. Please create a .env.local file with your API key.");
+export const fetchLandmarkHistory = async (
+  landmarkName: string,
+  { language, persona, onText, signal }: HistoryRequestOptions = {},
+): Promise<LandmarkHistory> => {
+  let hasShownText = false;
+
+  const streamOnce = () => attempt(HISTORY_IDLE_TIMEOUT_MS, signal, async deadline => {
+    const response = await post('/api/history', { landmarkName, language, persona }, deadline.signal);
+
+    let text = '';
+    let sources: GroundingChunk[] = [];
+    let searchEntryPoint: string | undefined;
+    let isComplete = false;
+    try {
+      for await (const event of readNdjson<HistoryStreamEvent>(response)) {
+        deadline.extend();
+        switch (event.type) {
+          case 'text':
+            text += event.text;
+            hasShownText = true;
+            onText?.(text);
+            break;
+          case 'grounding':
+            sources = event.sources;
+            searchEntryPoint = event.searchEntryPoint;
+            break;
+          case 'error':
+            normalizeGeminiError(
+              event.status,
+              event.error,
+              event.retryAfterSeconds === undefined ? undefined : event.retryAfterSeconds * 1000,
+              event.category,
+            );
+            break;
+          case 'done':
+            isComplete = true;
+            break;
+        }
+      }
+    } catch (error) {
+      if (deadline.signal.aborted || error instanceof TransientError || !(error instanceof TypeError)) throw error;
+      // A TypeError here means the network dropped mid-stream
+      throw new TransientError('The connection closed before the history finished loading.', 'network');
     }
-    ai = new GoogleGenAI({ apiKey });
-  }
-  return ai;
-};
 
-export const identifyLandmark = async (imageBase64: string, mimeType: string): Promise<string> => {
-  let response: GenerateContentResponse;
-  try {
-    response = await getAI().models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: {
-        parts: [
-          {
-            inlineData: {
-              mimeType: mimeType,
-              data: imageBase64,
-            },
-          },
-          {
-            text: 'Identify the primary landmark in this photo. Respond with only the name and city/country of the landmark. If no landmark is present, say "Unknown".',
-          },
-        ],
-      },
-    });
-  } catch (error) {
-    normalizeGeminiError(error);
-  }
+    if (!isComplete) {
+      throw new TransientError('The connection closed before the history finished loading.', 'network');
+    }
+    return { text, sources, searchEntryPoint };
+  });
+
+  const history = await withRetry(async () => {
+    try {
+      return await streamOnce();
+    } catch (error) {
+      // Narration may already be under way for the text shown so far, so a half-streamed guide is not restarted
+      if (hasShownText && error instanceof TransientError) throw new TourGuideError(error.message, error.category);
+      throw error;
+    }
+  }, { signal });
+  signal?.throwIfAborted();
+  return history;
+};
 
-  const text = response.text.trim();
-  if (text.toLowerCase() === 'unknown') {
-    throw new Error('Could not identify a landmark in the photo.');
-  }
-  return text;
+export const generateNarration = async (
+  textToNarrate: string,
+  { language, voice, persona, signal }: NarrationRequestOptions = {},
+): Promise<string> => {
+  const { audio } = await postJson<{ audio: string }>(
+    '/api/narration',
+    { text: textToNarrate, language, voice, persona },
+    NARRATION_TIMEOUT_MS,
+    signal,
+  );
+  return audio;
 };
 
-export const fetchLandmarkHistory = async (landmarkName: string): Promise<{ text: string, sources: GroundingChunk[] }> => {
-  let response: GenerateContentResponse;
-  try {
-    response = await getAI().models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: `Tell me about the history and some interesting facts about ${landmarkName}. Format the response as markdown.`,
-      config: {
-        tools: [{ googleSearch: {} }],
-      },
-    });
-  } catch (error) {
-    normalizeGeminiError(error);
-  }
-  
-  const sources = response.candidates?.[0]?.groundingMetadata?.groundingChunks || [];
-  return { text: response.text, sources: sources as GroundingChunk[] };
+export const askFollowUp = (
+  question: string,
+  { history, ...seed }: ChatContext,
+  { language, signal }: ChatRequestOptions = {},
+): Promise<ChatAnswer> => {
+  // Sources are display-only, so only the text of earlier turns is sent back
+  const turns = history.map(({ role, text }) => ({ role, text }));
+  return postJson<ChatAnswer>('/api/chat', { ...seed, history: turns, question, language }, CHAT_TIMEOUT_MS, signal);
 };
 
-export const generateNarration = async (textToNarrate: string): Promise<string> => {
-  let response: GenerateContentResponse;
-  try {
-    response = await getAI().models.generateContent({
-      model: 'gemini-2.5-flash-preview-tts',
-      contents: [{ parts: [{ text: textToNarrate }] }],
-      config: {
-        responseModalities: [Modality.AUDIO],
-        speechConfig: {
-          voiceConfig: {
-            prebuiltVoiceConfig: { voiceName: 'Kore' },
-          },
-        },
-      },
-    });
-  } catch (error) {
-    normalizeGeminiError(error);
-  }
+export const findNearbyPlaces = (
+  landmarkName: string,
+  { language, coordinates, signal }: NearbyRequestOptions = {},
+): Promise<NearbyPlaces> => {
+  return postJson<NearbyPlaces>('/api/nearby', { landmarkName, language, coordinates }, NEARBY_TIMEOUT_MS, signal);
+};
 
-  const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
-  if (!base64Audio) {
-    throw new Error('Failed to generate audio narration.');
-  }
-  return base64Audio;
+export const geminiProvider: TourGuideProvider = {
+  identifyLandmark,
+  fetchLandmarkHistory,
+  generateNarration,
+  askFollowUp,
+  findNearbyPlaces,
 };
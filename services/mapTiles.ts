@@ -0,0 +1,51 @@
+import { TileSource } from '../types';
+import { TILE_SIZE } from '../utils/mapProjection';
+
+export type TileSourceName = 'osm' | 'offline';
+
+/**
+ * Tiles from a URL template with {z}, {x} and {y} placeholders, as most tile servers use
+ */
+export const createUrlTileSource = (name: string, template: string, attribution: string, maxZoom = 19): TileSource => ({
+  name,
+  attribution,
+  maxZoom,
+  tileUrl: (zoom, x, y) => template.replace('{z}', String(zoom)).replace('{x}', String(x)).replace('{y}', String(y)),
+});
+
+const openStreetMapTiles = createUrlTileSource(
+  'OpenStreetMap',
+  'https://tile.openstreetmap.org/{z}/{x}/{y}.png',
+  '© OpenStreetMap contributors',
+);
+
+// Plain grid tiles drawn locally, labelled with their coordinates, so maps work offline and in tests
+const offlineTiles: TileSource = {
+  name: 'Offline grid',
+  attribution: 'Offline map',
+  maxZoom: 19,
+  tileUrl: (zoom, x, y) => {
+    const shade = (x + y) % 2 === 0 ? '#1f2937' : '#243244';
+    const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${TILE_SIZE}" height="${TILE_SIZE}">`
+      + `<rect width="100%" height="100%" fill="${shade}" stroke="#374151"/>`
+      + `<text x="8" y="20" fill="#6b7280" font-family="sans-serif" font-size="12">${zoom}/${x}/${y}</text>`
+      + '</svg>';
+    return `data:image/svg+xml,${encodeURIComponent(svg)}`;
+  },
+};
+
+const tileSources: Record<TileSourceName, TileSource> = {
+  osm: openStreetMapTiles,
+  offline: offlineTiles,
+};
+
+/**
+ * Selects the map tiles from the MAP_TILES environment variable (defaults to OpenStreetMap)
+ */
+export const getTileSource = (): TileSource => {
+  const name = (process.env.MAP_TILES || 'osm').toLowerCase();
+  if (!Object.hasOwn(tileSources, name)) {
+    throw new Error(`Unknown MAP_TILES "${name}". Expected one of: ${Object.keys(tileSources).join(', ')}.`);
+  }
+  return tileSources[name as TileSourceName];
+};
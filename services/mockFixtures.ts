@@ -0,0 +1,211 @@
+import { GroundingChunk, LandmarkIdentification, NearbyPlace } from '../types';
+
+export interface MockLandmarkFixture {
+  identification: LandmarkIdentification;
+  history: string;
+  sources: GroundingChunk[];
+  // Distances are measured from the identification's coordinates
+  nearby: Omit<NearbyPlace, 'distanceMeters'>[];
+}
+
+export const MOCK_LANDMARKS: MockLandmarkFixture[] = [
+  {
+    identification: {
+      name: 'Eiffel Tower',
+      city: 'Paris',
+      country: 'France',
+      confidence: 0.97,
+      coordinates: { latitude: 48.8584, longitude: 2.2945 },
+      alternatives: [],
+    },
+    history: `## A Tower Built for a World's Fair
+
+The Eiffel Tower was designed by Gustave Eiffel's engineering company and completed in 1889 as the entrance arch to the Exposition Universelle. It was meant to stand for only twenty years.
+
+## Interesting Facts
+
+* The tower grows by around 15 cm in summer as the iron expands in the heat.
+* It is repainted roughly every seven years, using about 60 tonnes of paint.
+* It was the tallest man-made structure in the world until 1930.`,
+    sources: [
+      {
+        web: { uri: 'https://www.toureiffel.paris/en', title: 'Official Eiffel Tower website', domain: 'toureiffel.paris' },
+        supports: [
+          "The Eiffel Tower was designed by Gustave Eiffel's engineering company and completed in 1889 as the entrance arch to the Exposition Universelle.",
+          'It is repainted roughly every seven years, using about 60 tonnes of paint.',
+        ],
+      },
+      {
+        web: { uri: 'https://en.wikipedia.org/wiki/Eiffel_Tower', title: 'Eiffel Tower - Wikipedia', domain: 'en.wikipedia.org' },
+        supports: [
+          'The tower grows by around 15 cm in summer as the iron expands in the heat.',
+          'It was the tallest man-made structure in the world until 1930.',
+        ],
+      },
+    ],
+    nearby: [
+      {
+        name: "Pont d'Iéna, Paris",
+        hook: 'The bridge that lines the tower up perfectly with the Trocadéro.',
+        coordinates: { latitude: 48.8599, longitude: 2.2920 },
+      },
+      {
+        name: 'Trocadéro Gardens, Paris',
+        hook: 'The classic postcard view of the whole tower across the Seine.',
+        coordinates: { latitude: 48.8616, longitude: 2.2893 },
+      },
+      {
+        name: 'Champ de Mars, Paris',
+        hook: 'The former parade ground where the 1889 World\'s Fair was held.',
+        coordinates: { latitude: 48.8556, longitude: 2.2986 },
+      },
+      {
+        name: 'Musée du quai Branly, Paris',
+        hook: 'A museum of world cultures behind a wall covered in living plants.',
+        coordinates: { latitude: 48.8609, longitude: 2.2977 },
+      },
+    ],
+  },
+  {
+    identification: {
+      name: 'Colosseum',
+      city: 'Rome',
+      country: 'Italy',
+      confidence: 0.92,
+      coordinates: { latitude: 41.8902, longitude: 12.4922 },
+      alternatives: [
+        { name: 'Arena di Verona', city: 'Verona', country: 'Italy', confidence: 0.05 },
+      ],
+    },
+    history: `## The Flavian Amphitheatre
+
+Construction of the Colosseum began under Emperor Vespasian around 72 AD and was completed by his son Titus in 80 AD. It could hold an estimated 50,000 spectators.
+
+## Interesting Facts
+
+* The arena floor hid a network of tunnels and lifts called the hypogeum.
+* A retractable awning, the velarium, shaded the crowd from the sun.
+* Earthquakes and stone robbers are responsible for its missing southern side.`,
+    sources: [
+      {
+        web: { uri: 'https://colosseo.it/en/', title: 'Parco archeologico del Colosseo', domain: 'colosseo.it' },
+        supports: ['The arena floor hid a network of tunnels and lifts called the hypogeum.'],
+      },
+      {
+        web: { uri: 'https://en.wikipedia.org/wiki/Colosseum', title: 'Colosseum - Wikipedia', domain: 'en.wikipedia.org' },
+        supports: [
+          'Construction of the Colosseum began under Emperor Vespasian around 72 AD and was completed by his son Titus in 80 AD.',
+          'It could hold an estimated 50,000 spectators.',
+        ],
+      },
+    ],
+    nearby: [
+      {
+        name: 'Arch of Constantine, Rome',
+        hook: 'A triumphal arch built partly from pieces of older monuments.',
+        coordinates: { latitude: 41.8898, longitude: 12.4906 },
+      },
+      {
+        name: 'Ludus Magnus, Rome',
+        hook: 'The ruins of the main gladiator training school, linked to the arena by a tunnel.',
+        coordinates: { latitude: 41.8899, longitude: 12.4952 },
+      },
+      {
+        name: 'Palatine Hill, Rome',
+        hook: 'Where the emperors lived, and where Rome is said to have been founded.',
+        coordinates: { latitude: 41.8894, longitude: 12.4875 },
+      },
+      {
+        name: 'Roman Forum, Rome',
+        hook: 'The heart of ancient Rome\'s public life, temples and law courts.',
+        coordinates: { latitude: 41.8925, longitude: 12.4853 },
+      },
+    ],
+  },
+  {
+    // Deliberately uncertain so the confirmation step can be exercised offline
+    identification: {
+      name: 'Sydney Opera House',
+      city: 'Sydney',
+      country: 'Australia',
+      confidence: 0.45,
+      coordinates: { latitude: -33.8568, longitude: 151.2153 },
+      alternatives: [
+        { name: 'Auditorio de Tenerife', city: 'Santa Cruz de Tenerife', country: 'Spain', confidence: 0.3 },
+        { name: 'Lotus Temple', city: 'New Delhi', country: 'India', confidence: 0.15 },
+      ],
+    },
+    history: `## A Competition-Winning Design
+
+Danish architect Jørn Utzon won the 1957 design competition for the Sydney Opera House. The building opened in 1973, ten years late and far over budget.
+
+## Interesting Facts
+
+* The roof is covered by more than one million self-cleaning tiles.
+* Utzon resigned from the project in 1966 and never saw it completed.
+* It was added to the UNESCO World Heritage List in 2007.`,
+    sources: [
+      {
+        web: { uri: 'https://www.sydneyoperahouse.com/', title: 'Sydney Opera House', domain: 'sydneyoperahouse.com' },
+        supports: ['The roof is covered by more than one million self-cleaning tiles.'],
+      },
+      {
+        web: { uri: 'https://en.wikipedia.org/wiki/Sydney_Opera_House', title: 'Sydney Opera House - Wikipedia', domain: 'en.wikipedia.org' },
+        supports: [
+          'Danish architect Jørn Utzon won the 1957 design competition for the Sydney Opera House.',
+          'It was added to the UNESCO World Heritage List in 2007.',
+        ],
+      },
+    ],
+    nearby: [
+      {
+        name: 'Circular Quay, Sydney',
+        hook: 'The busy ferry harbour where modern Sydney began.',
+        coordinates: { latitude: -33.8611, longitude: 151.2108 },
+      },
+      {
+        name: 'Royal Botanic Garden, Sydney',
+        hook: 'Australia\'s oldest scientific institution, on the edge of the harbour.',
+        coordinates: { latitude: -33.8642, longitude: 151.2166 },
+      },
+      {
+        name: 'The Rocks, Sydney',
+        hook: 'Cobbled lanes and sandstone cottages from the first colonial settlement.',
+        coordinates: { latitude: -33.8599, longitude: 151.2090 },
+      },
+      {
+        name: "Mrs Macquarie's Chair, Sydney",
+        hook: 'A bench carved into the rock in 1810, with a view of the Opera House and the bridge.',
+        coordinates: { latitude: -33.8597, longitude: 151.2226 },
+      },
+    ],
+  },
+];
+
+export const MOCK_SAMPLE_RATE = 24000;
+
+// Rough speaking rate used to size the fake narration to its text
+const MOCK_CHARS_PER_SECOND = 15;
+const MOCK_MAX_SECONDS = 30;
+
+/**
+ * Produces a deterministic mono 16-bit PCM tone, base64 encoded like Gemini TTS output
+ */
+export const createPcmFixture = (text: string): string => {
+  const seconds = Math.min(MOCK_MAX_SECONDS, Math.max(1, Math.round(text.length / MOCK_CHARS_PER_SECOND)));
+  const frameCount = seconds * MOCK_SAMPLE_RATE;
+  const samples = new Int16Array(frameCount);
+
+  for (let i = 0; i < frameCount; i++) {
+    // A soft 220Hz tone that pulses once per second so it sounds like "speech"
+    const envelope = 0.5 - 0.5 * Math.cos((2 * Math.PI * (i % MOCK_SAMPLE_RATE)) / MOCK_SAMPLE_RATE);
+    samples[i] = Math.round(Math.sin((2 * Math.PI * 220 * i) / MOCK_SAMPLE_RATE) * envelope * 8000);
+  }
+
+  const bytes = new Uint8Array(samples.buffer);
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+};
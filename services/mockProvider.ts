@@ -0,0 +1,119 @@
+import {
+  ChatAnswer,
+  ChatContext,
+  ChatRequestOptions,
+  HistoryRequestOptions,
+  IdentifyRequestOptions,
+  LandmarkHistory,
+  LandmarkIdentification,
+  NarrationRequestOptions,
+  NearbyPlaces,
+  NearbyRequestOptions,
+  TourGuideProvider,
+} from '../types';
+import { MOCK_LANDMARKS, createPcmFixture } from './mockFixtures';
+import { DEFAULT_LANGUAGE, getLanguage } from '../utils/languages';
+import { DEFAULT_PERSONA, getPersona } from '../utils/personas';
+import { formatLandmarkName } from '../utils/identification';
+import { distanceInMeters } from '../utils/nearby';
+import { sleep } from '../utils/retry';
+
+// Simulated network latency so loading states are still visible in demos
+const MOCK_DELAY_MS = 600;
+const MOCK_STREAM_CHUNK_DELAY_MS = 40;
+const MOCK_STREAM_WORDS_PER_CHUNK = 4;
+
+/**
+ * Cheap string hash so the same photo always maps to the same fixture
+ */
+const hashString = (value: string): number => {
+  let hash = 0;
+  for (let i = 0; i < value.length; i++) {
+    hash = (hash * 31 + value.charCodeAt(i)) | 0;
+  }
+  return Math.abs(hash);
+};
+
+export const identifyLandmark = async (
+  imageBase64: string,
+  _mimeType: string,
+  { signal }: IdentifyRequestOptions = {},
+): Promise<LandmarkIdentification> => {
+  await sleep(MOCK_DELAY_MS, signal);
+  return MOCK_LANDMARKS[hashString(imageBase64) % MOCK_LANDMARKS.length].identification;
+};
+
+export const fetchLandmarkHistory = async (
+  landmarkName: string,
+  { language = DEFAULT_LANGUAGE, persona = DEFAULT_PERSONA, onText, signal }: HistoryRequestOptions = {},
+): Promise<LandmarkHistory> => {
+  await sleep(MOCK_DELAY_MS, signal);
+  const fixture = MOCK_LANDMARKS.find(landmark => formatLandmarkName(landmark.identification) === landmarkName);
+  const englishText = fixture?.history
+    ?? `## ${landmarkName}\n\nThis is offline mock content. No history is available for this landmark.`;
+  // Fixtures are English only and in one style; tag other choices so switching is still visible offline
+  const notes = [
+    language !== DEFAULT_LANGUAGE && `written in ${getLanguage(language).name}`,
+    persona !== DEFAULT_PERSONA && `written as "${getPersona(persona).label}"`,
+  ].filter(Boolean);
+  const text = notes.length === 0
+    ? englishText
+    : `${englishText}\n\n_Offline mock content. A real guide would be ${notes.join(' and ')}._`;
+
+  // Replay the fixture a few words at a time, like a streamed model response
+  if (onText) {
+    const words = text.split(/(?<=\s)/);
+    for (let i = MOCK_STREAM_WORDS_PER_CHUNK; i < words.length; i += MOCK_STREAM_WORDS_PER_CHUNK) {
+      onText(words.slice(0, i).join(''));
+      await sleep(MOCK_STREAM_CHUNK_DELAY_MS, signal);
+    }
+    onText(text);
+  }
+  return { text, sources: fixture?.sources ?? [] };
+};
+
+export const generateNarration = async (
+  textToNarrate: string,
+  { signal }: NarrationRequestOptions = {},
+): Promise<string> => {
+  await sleep(MOCK_DELAY_MS, signal);
+  return createPcmFixture(textToNarrate);
+};
+
+export const askFollowUp = async (
+  question: string,
+  { landmarkName }: ChatContext,
+  { language = DEFAULT_LANGUAGE, signal }: ChatRequestOptions = {},
+): Promise<ChatAnswer> => {
+  await sleep(MOCK_DELAY_MS, signal);
+  const fixture = MOCK_LANDMARKS.find(landmark => formatLandmarkName(landmark.identification) === landmarkName);
+  const languageNote = language === DEFAULT_LANGUAGE ? '' : ` A real answer would be in ${getLanguage(language).name}.`;
+  return {
+    text: `This is an offline mock answer to "${question.trim()}" about ${landmarkName}.${languageNote} Connect the server with a Gemini API key for real, search-grounded answers.`,
+    sources: fixture?.sources.slice(0, 1) ?? [],
+  };
+};
+
+export const findNearbyPlaces = async (
+  landmarkName: string,
+  { signal }: NearbyRequestOptions = {},
+): Promise<NearbyPlaces> => {
+  await sleep(MOCK_DELAY_MS, signal);
+  const fixture = MOCK_LANDMARKS.find(landmark => formatLandmarkName(landmark.identification) === landmarkName);
+  const origin = fixture?.identification.coordinates;
+  if (!fixture || !origin) {
+    return { places: [], sources: [] };
+  }
+  const places = fixture.nearby
+    .map(place => ({ ...place, distanceMeters: Math.round(distanceInMeters(origin, place.coordinates ?? origin)) }))
+    .sort((a, b) => a.distanceMeters - b.distanceMeters);
+  return { places, sources: fixture.sources.slice(-1) };
+};
+
+export const mockProvider: TourGuideProvider = {
+  identifyLandmark,
+  fetchLandmarkHistory,
+  generateNarration,
+  askFollowUp,
+  findNearbyPlaces,
+};
@@ -0,0 +1,23 @@
+import { TourGuideProvider } from '../types';
+import { geminiProvider } from './geminiService';
+import { mockProvider } from './mockProvider';
+import { withResponseCache } from './cachingProvider';
+
+export type ProviderName = 'gemini' | 'mock';
+
+const providers: Record<ProviderName, TourGuideProvider> = {
+  gemini: geminiProvider,
+  mock: mockProvider,
+};
+
+/**
+ * Selects the AI backend from the AI_PROVIDER environment variable (defaults to Gemini),
+ * wrapped in the in-memory response cache
+ */
+export const getTourGuideProvider = (): TourGuideProvider => {
+  const name = (process.env.AI_PROVIDER || 'gemini').toLowerCase();
+  if (!Object.hasOwn(providers, name)) {
+    throw new Error(`Unknown AI_PROVIDER "${name}". Expected one of: ${Object.keys(providers).join(', ')}.`);
+  }
+  return withResponseCache(providers[name as ProviderName]);
+};
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { createResponseCache } from './responseCache';
+
+const createClock = () => {
+  let time = 0;
+  return { now: () => time, advance: (ms: number) => { time += ms; } };
+};
+
+describe('createResponseCache', () => {
+  it('forgets entries once their time to live has passed', () => {
+    const clock = createClock();
+    const cache = createResponseCache<string>({ ttlMs: 1000, maxEntries: 10, now: clock.now });
+    cache.set('eiffel', 'guide');
+
+    clock.advance(999);
+    expect(cache.get('eiffel')).toBe('guide');
+    clock.advance(1);
+    expect(cache.get('eiffel')).toBeUndefined();
+    expect(cache.size).toBe(0);
+  });
+
+  it('evicts the least recently read entry once there are too many', () => {
+    const cache = createResponseCache<string>({ ttlMs: 1000, maxEntries: 2 });
+    cache.set('eiffel', 'a');
+    cache.set('louvre', 'b');
+    cache.get('eiffel');
+    cache.set('orsay', 'c');
+
+    expect(cache.get('louvre')).toBeUndefined();
+    expect(cache.get('eiffel')).toBe('a');
+    expect(cache.get('orsay')).toBe('c');
+  });
+
+  it('evicts the least recently read entries until the total weight fits', () => {
+    const cache = createResponseCache<string>({ ttlMs: 1000, maxEntries: 10, maxWeight: 10, weigh: value => value.length });
+    cache.set('eiffel', 'aaaa');
+    cache.set('louvre', 'bbbb');
+    cache.get('eiffel');
+    cache.set('orsay', 'cccccc');
+
+    expect(cache.get('louvre')).toBeUndefined();
+    expect(cache.get('eiffel')).toBe('aaaa');
+    expect(cache.get('orsay')).toBe('cccccc');
+  });
+
+  it('skips values heavier than the whole budget instead of flushing the cache for them', () => {
+    const cache = createResponseCache<string>({ ttlMs: 1000, maxEntries: 10, maxWeight: 10, weigh: value => value.length });
+    cache.set('eiffel', 'aaaa');
+    cache.set('panorama', 'x'.repeat(11));
+
+    expect(cache.get('panorama')).toBeUndefined();
+    expect(cache.get('eiffel')).toBe('aaaa');
+  });
+
+  it('counts a replaced value only once towards the weight', () => {
+    const cache = createResponseCache<string>({ ttlMs: 1000, maxEntries: 10, maxWeight: 10, weigh: value => value.length });
+    cache.set('eiffel', 'aaaa');
+    cache.set('eiffel', 'aaaaa');
+    cache.set('louvre', 'bbbbb');
+
+    expect(cache.size).toBe(2);
+  });
+});
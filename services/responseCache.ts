@@ -0,0 +1,136 @@
+export interface ResponseCacheOptions<T> {
+  ttlMs: number;
+  maxEntries: number;
+  // Optional total size budget, measured with weigh (e.g. string length)
+  maxWeight?: number;
+  weigh?: (value: T) => number;
+  now?: () => number;
+}
+
+export interface ResponseCache<T> {
+  get: (key: string) => T | undefined;
+  set: (key: string, value: T) => void;
+  delete: (key: string) => void;
+  clear: () => void;
+  readonly size: number;
+}
+
+interface CacheEntry<T> {
+  value: T;
+  weight: number;
+  expiresAt: number;
+}
+
+/**
+ * In-memory TTL cache with least-recently-used eviction by entry count and total weight.
+ * Map iteration order doubles as the recency list: reads move an entry to the end.
+ */
+export const createResponseCache = <T>({
+  ttlMs,
+  maxEntries,
+  maxWeight = Infinity,
+  weigh = () => 0,
+  now = Date.now,
+}: ResponseCacheOptions<T>): ResponseCache<T> => {
+  const entries = new Map<string, CacheEntry<T>>();
+  let totalWeight = 0;
+
+  const remove = (key: string) => {
+    const entry = entries.get(key);
+    if (entry) {
+      totalWeight -= entry.weight;
+      entries.delete(key);
+    }
+  };
+
+  const evictOverflow = () => {
+    for (const key of entries.keys()) {
+      if (entries.size <= maxEntries && totalWeight <= maxWeight) break;
+      remove(key);
+    }
+  };
+
+  return {
+    get: (key: string) => {
+      const entry = entries.get(key);
+      if (!entry) return undefined;
+      if (entry.expiresAt <= now()) {
+        remove(key);
+        return undefined;
+      }
+      entries.delete(key);
+      entries.set(key, entry);
+      return entry.value;
+    },
+    set: (key: string, value: T) => {
+      const weight = weigh(value);
+      // Anything larger than the whole budget would only flush the cache, so skip it
+      if (weight > maxWeight) return;
+
+      remove(key);
+      entries.set(key, { value, weight, expiresAt: now() + ttlMs });
+      totalWeight += weight;
+      evictOverflow();
+    },
+    delete: remove,
+    clear: () => {
+      entries.clear();
+      totalWeight = 0;
+    },
+    get size() {
+      return entries.size;
+    },
+  };
+};
+
+interface InFlightRequest<T> {
+  promise: Promise<T>;
+  controller: AbortController;
+  // Callers still waiting for the response; the request is cancelled once the last of them aborts
+  waiters: number;
+}
+
+export type InFlightRequests<T> = (
+  key: string,
+  signal: AbortSignal | undefined,
+  request: (signal: AbortSignal) => Promise<T>,
+) => Promise<T>;
+
+/**
+ * Keeps one request per key in flight: callers asking for the same key meanwhile wait for that
+ * response instead of sending the request again. Each caller can still abort on its own; the
+ * request itself is only cancelled when every caller waiting for it has aborted.
+ */
+export const createInFlightRequests = <T>(): InFlightRequests<T> => {
+  const requests = new Map<string, InFlightRequest<T>>();
+
+  const forget = (key: string, entry: InFlightRequest<T>) => {
+    if (requests.get(key) === entry) requests.delete(key);
+  };
+
+  const start = (key: string, request: (signal: AbortSignal) => Promise<T>): InFlightRequest<T> => {
+    const entry = { controller: new AbortController(), waiters: 0 } as InFlightRequest<T>;
+    entry.promise = request(entry.controller.signal).finally(() => forget(key, entry));
+    requests.set(key, entry);
+    return entry;
+  };
+
+  return (key, signal, request) => {
+    if (signal?.aborted) return Promise.reject(signal.reason);
+    const entry = requests.get(key) ?? start(key, request);
+    entry.waiters += 1;
+
+    return new Promise<T>((resolve, reject) => {
+      const leave = () => {
+        reject(signal!.reason);
+        entry.waiters -= 1;
+        if (entry.waiters === 0) {
+          forget(key, entry);
+          entry.controller.abort(signal!.reason);
+        }
+      };
+      signal?.addEventListener('abort', leave, { once: true });
+      entry.promise.then(resolve, reject).finally(() => signal?.removeEventListener('abort', leave));
+    });
+  };
+};
@@ -0,0 +1,24 @@
+import { NewSavedTour, SavedTour } from '../types';
+import { TOUR_STORE, runRequest } from './database';
+
+export const saveTour = async (tour: NewSavedTour): Promise<SavedTour> => {
+  const saved: SavedTour = { ...tour, id: crypto.randomUUID(), createdAt: Date.now() };
+  await runRequest(TOUR_STORE, 'readwrite', store => store.put(saved));
+  return saved;
+};
+
+/**
+ * Lists saved tours, newest first
+ */
+export const listTours = async (): Promise<SavedTour[]> => {
+  const tours = await runRequest<SavedTour[]>(TOUR_STORE, 'readonly', store => store.index('createdAt').getAll());
+  return tours.reverse();
+};
+
+export const getTour = async (id: string): Promise<SavedTour | undefined> => {
+  return runRequest<SavedTour | undefined>(TOUR_STORE, 'readonly', store => store.get(id));
+};
+
+export const deleteTour = async (id: string): Promise<void> => {
+  await runRequest(TOUR_STORE, 'readwrite', store => store.delete(id));
+};
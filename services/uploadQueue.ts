@@ -0,0 +1,27 @@
+import { QueuedUpload } from '../types';
+import { UPLOAD_QUEUE_STORE, runRequest } from './database';
+
+export const queueUploads = async (files: File[]): Promise<void> => {
+  const queuedAt = Date.now();
+  await Promise.all(files.map((file, index) => {
+    // Offset so photos picked together keep their order
+    const upload: QueuedUpload = { id: crypto.randomUUID(), queuedAt: queuedAt + index, file };
+    return runRequest(UPLOAD_QUEUE_STORE, 'readwrite', store => store.put(upload));
+  }));
+};
+
+export const countQueuedUploads = (): Promise<number> => {
+  return runRequest<number>(UPLOAD_QUEUE_STORE, 'readonly', store => store.count());
+};
+
+/**
+ * Every queued photo, oldest first. Photos stay queued until removeQueuedUpload, so one whose tour
+ * failed or was interrupted is still there after a reload.
+ */
+export const listQueuedUploads = (): Promise<QueuedUpload[]> => {
+  return runRequest<QueuedUpload[]>(UPLOAD_QUEUE_STORE, 'readonly', store => store.index('queuedAt').getAll());
+};
+
+export const removeQueuedUpload = async (id: string): Promise<void> => {
+  await runRequest(UPLOAD_QUEUE_STORE, 'readwrite', store => store.delete(id));
+};
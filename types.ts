@@ -2,23 +2,338 @@
 export enum Status {
   Idle = 'idle',
   Identifying = 'identifying',
+  // Identification was uncertain; waiting for the user to pick or type the landmark
+  Confirming = 'confirming',
   Fetching = 'fetching',
   Narrating = 'narrating',
   Done = 'done',
   Error = 'error',
 }
 
+// What kind of failure an error is, so the UI can explain it and suggest what to do next
+export type ErrorCategory =
+  | 'quota'
+  | 'network'
+  // Gemini or the server is overloaded, failing or too slow
+  | 'unavailable'
+  | 'auth'
+  | 'unrecognized'
+  | 'safety'
+  | 'photo'
+  | 'camera'
+  // A share link that is truncated or from an unknown format
+  | 'link'
+  | 'unknown';
+
+// The stages of a tour; each can fail on its own and be retried without re-running the others
+export type PipelineStep = 'identify' | 'history' | 'narration';
+
+export interface StepFailure {
+  step: PipelineStep;
+  category: ErrorCategory;
+  message: string;
+}
+
 export interface GroundingChunk {
   web?: {
     uri: string;
     title: string;
+    // Only reported by Vertex AI; with the Gemini API the title usually holds the domain
+    domain?: string;
   };
+  // Passages of the generated text this source backs up, taken from the response's groundingSupports
+  supports?: string[];
+}
+
+// A deduplicated source as listed in a guide's bibliography
+export interface CitedSource {
+  // 1-based, as shown in the inline markers
+  number: number;
+  uri: string;
+  title: string;
+  domain: string;
+  supports: string[];
+}
+
+export interface Coordinates {
+  latitude: number;
+  longitude: number;
+}
+
+export interface LandmarkCandidate {
+  name: string;
+  city: string;
+  country: string;
+  // 0 to 1, as estimated by the model
+  confidence: number;
+}
+
+export interface LandmarkIdentification extends LandmarkCandidate {
+  coordinates: Coordinates | null;
+  // Up to three other landmarks the photo might show, most likely first
+  alternatives: LandmarkCandidate[];
+}
+
+// Map imagery, in the standard z/x/y tile scheme
+export interface TileSource {
+  name: string;
+  // Shown in the corner of the map, as most tile providers require
+  attribution: string;
+  maxZoom: number;
+  tileUrl: (zoom: number, x: number, y: number) => string;
+}
+
+export interface MapPin {
+  id: string;
+  coordinates: Coordinates;
+  label: string;
+}
+
+// Read from the photo's EXIF block in the browser
+export interface PhotoMetadata {
+  coordinates: Coordinates | null;
+  // Local capture time as "YYYY-MM-DDTHH:mm:ss"; EXIF does not record the time zone
+  capturedAt: string | null;
+  // EXIF orientation from 1 to 8; 1 means the pixels are already upright
+  orientation: number;
+}
+
+// How photos are prepared in the browser before they are sent
+export interface PhotoSettings {
+  // Whether the photo's GPS position may be sent to help identification
+  shareLocation: boolean;
+  // Longest edge in pixels; larger photos are scaled down
+  maxDimension: number;
+  format: 'image/jpeg' | 'image/webp';
+  // Encoder quality from 0 to 1
+  quality: number;
+}
+
+// How the guide is written and read aloud
+export interface GuideSettings {
+  // Persona id from utils/personas.ts
+  persona: string;
+  // Prebuilt TTS voice picked by the user; null uses the persona's or the language's voice
+  voice: string | null;
+}
+
+// Hints sent along with the photo to help tell lookalike landmarks apart
+export interface PhotoContext {
+  coordinates?: Coordinates | null;
+  capturedAt?: string | null;
+}
+
+export interface LandmarkHistory {
+  text: string;
+  sources: GroundingChunk[];
+  // Google Search suggestions HTML that has to be shown alongside grounded results
+  searchEntryPoint?: string;
+}
+
+export interface AbortableRequestOptions {
+  // Aborting cancels the call, including any pending retry, and rejects with an AbortError
+  signal?: AbortSignal;
+}
+
+export interface RequestOptions extends AbortableRequestOptions {
+  // Skip cached responses and fetch fresh ones (the new result is cached again)
+  bypassCache?: boolean;
+}
+
+export interface IdentifyRequestOptions extends RequestOptions {
+  context?: PhotoContext;
+}
+
+export interface HistoryRequestOptions extends RequestOptions {
+  // Language code from utils/languages.ts that the guide should be written in
+  language?: string;
+  // Persona id from utils/personas.ts that shapes the guide's focus, length and reading level
+  persona?: string;
+  // Receives the accumulated markdown each time more of the stream arrives
+  onText?: (textSoFar: string) => void;
+}
+
+export interface NarrationRequestOptions extends RequestOptions {
+  language?: string;
+  // Prebuilt Gemini TTS voice name
+  voice?: string;
+  // Persona id whose speaking style the narration uses
+  persona?: string;
+}
+
+// A landmark within walking distance of another one, found with Google Search
+export interface NearbyPlace {
+  // Specific enough to fetch its own guide, e.g. "Pont d'Iéna, Paris"
+  name: string;
+  // From the landmark the search started at, in meters
+  distanceMeters: number;
+  // One sentence on why it is worth the walk
+  hook: string;
+  coordinates: Coordinates | null;
+}
+
+export interface NearbyPlaces {
+  // Nearest first
+  places: NearbyPlace[];
+  sources: GroundingChunk[];
+}
+
+export interface NearbyRequestOptions extends RequestOptions {
+  // Language of the hooks
+  language?: string;
+  // Position of the landmark, when known, so the search is anchored to the right place
+  coordinates?: Coordinates | null;
+}
+
+export interface ChatMessage {
+  role: 'user' | 'model';
+  text: string;
+  // Search results the answer was grounded in; always empty for the user's questions
+  sources: GroundingChunk[];
+}
+
+// What the follow-up chat is seeded with; the backend keeps no conversation state
+export interface ChatContext {
+  imageBase64: string;
+  mimeType: string;
+  landmarkName: string;
+  landmarkInfo: string;
+  // Earlier turns, oldest first
+  history: ChatMessage[];
+}
+
+export interface ChatAnswer {
+  text: string;
+  sources: GroundingChunk[];
+}
+
+export interface ChatRequestOptions extends AbortableRequestOptions {
+  language?: string;
+}
+
+// AI backend contract implemented by the Gemini client and the offline mock
+export interface TourGuideProvider {
+  identifyLandmark: (imageBase64: string, mimeType: string, options?: IdentifyRequestOptions) => Promise<LandmarkIdentification>;
+  fetchLandmarkHistory: (landmarkName: string, options?: HistoryRequestOptions) => Promise<LandmarkHistory>;
+  generateNarration: (textToNarrate: string, options?: NarrationRequestOptions) => Promise<string>;
+  askFollowUp: (question: string, context: ChatContext, options?: ChatRequestOptions) => Promise<ChatAnswer>;
+  findNearbyPlaces: (landmarkName: string, options?: NearbyRequestOptions) => Promise<NearbyPlaces>;
+}
+
+// A completed tour as persisted in IndexedDB
+export interface SavedTour {
+  id: string;
+  createdAt: number;
+  landmarkName: string;
+  landmarkInfo: string;
+  sources: GroundingChunk[];
+  // Missing on tours saved before inline citations
+  searchEntryPoint?: string;
+  audioChunks: string[];
+  // Missing on tours saved before multi-language support (those are English)
+  language?: string;
+  // Missing on tours saved before personas (those used the classic guide)
+  persona?: string;
+  // Where the landmark is, if known; missing on tours saved before the map view
+  coordinates?: Coordinates | null;
+  image: Blob;
+  thumbnail: Blob;
+}
+
+export type NewSavedTour = Omit<SavedTour, 'id' | 'createdAt'>;
+
+export type SharedNarrationStatus = 'idle' | 'narrating' | 'done';
+
+// What a share link carries: enough to read the guide, with narration generated again on the receiving side
+export interface SharedTour {
+  landmarkName: string;
+  landmarkInfo: string;
+  sources: GroundingChunk[];
+  language: string;
+  persona: string;
+}
+
+// A photo picked while offline, kept in IndexedDB until it can be analyzed
+export interface QueuedUpload {
+  id: string;
+  queuedAt: number;
+  file: File;
+}
+
+// One photo of a batch upload
+export interface BatchItem {
+  id: string;
+  // The prepared photo once it has been downscaled and re-encoded, the upload until then
+  file: File;
+  originalBytes: number;
+  imageUrl: string;
+  // Identification progress; once grouped, the photo follows its tour's status
+  status: Status;
+  // Set once the photo has been prepared
+  metadata: PhotoMetadata | null;
+  identification: LandmarkIdentification | null;
+  // Key of the BatchTour this photo was grouped into, once identified
+  tourKey: string | null;
+  error: string | null;
+}
+
+// Every photo identified as the same landmark shares a single tour
+export interface BatchTour {
+  key: string;
+  landmarkName: string;
+  // Photos of this landmark in upload order; the first one is the tour's image
+  itemIds: string[];
+  status: Status;
+  landmarkInfo: string;
+  sources: GroundingChunk[];
+  searchEntryPoint?: string;
+  audioChunks: string[];
+  language: string;
+  persona: string;
+  // From the identification of the tour's first photo
+  coordinates: Coordinates | null;
+  error: string | null;
+}
+
+// One stop of a walking tour; the first is the landmark the tour was planned from
+export interface WalkingTourStop {
+  key: string;
+  name: string;
+  coordinates: Coordinates | null;
+  // Why the stop was suggested; empty for the first stop
+  hook: string;
+  status: Status;
+  landmarkInfo: string;
+  sources: GroundingChunk[];
+  searchEntryPoint?: string;
+  audioChunks: string[];
+  error: string | null;
 }
 
 // Component Props Interfaces
 export interface ImageUploaderProps {
   onImageSelect: (file: File) => void;
+  // Called instead of onImageSelect when more than one photo is chosen
+  onBatchSelect: (files: File[]) => void;
+  onOpenCamera: () => void;
   isProcessing: boolean;
+  language: string;
+  onLanguageChange: (code: string) => void;
+  photoSettings: PhotoSettings;
+  onPhotoSettingsChange: (settings: PhotoSettings) => void;
+  guideSettings: GuideSettings;
+  onGuideSettingsChange: (settings: GuideSettings) => void;
+  onPreviewVoice: GuideSettingsPanelProps['onPreview'];
+  isOnline: boolean;
+  // Photos picked while offline that are waiting for a connection
+  queuedUploads: number;
+}
+
+export interface CameraCaptureProps {
+  onCapture: (file: File) => void;
+  onCancel: () => void;
+  // Permission denied, no camera, or a failed capture
+  onError: (error: unknown) => void;
 }
 
 export interface InlineLoaderProps {
@@ -29,13 +344,177 @@ export interface AnalysisResultProps {
   imageUrl: string;
   landmarkName: string;
   landmarkInfo: string;
-  audioData: string;
+  // Base64 PCM narration, one chunk per guide segment, in playback order
+  audioChunks: string[];
   sources: GroundingChunk[];
+  searchEntryPoint?: string;
   onReset: () => void;
+  // Re-runs the tour with fresh (uncached) AI responses
+  onRegenerate: () => void;
   status: Status;
+  language: string;
+  // Re-generates the guide and narration in another language, keeping the identification
+  onLanguageChange: (code: string) => void;
+  guideSettings: GuideSettings;
+  // Like onLanguageChange, re-generates a finished tour with the new persona or voice
+  onGuideSettingsChange: (settings: GuideSettings) => void;
+  onPreviewVoice: GuideSettingsPanelProps['onPreview'];
+  identification: LandmarkIdentification | null;
+  // Where the landmark is, for the map; null when neither the identification nor the photo says
+  coordinates: Coordinates | null;
+  tiles: TileSource;
+  // Upload size before and after preparation
+  photoSize: { originalBytes: number; preparedBytes: number } | null;
+  // Called with the landmark the user picked or typed while status is Confirming
+  onConfirmLandmark: (landmarkName: string) => void;
+  onAskQuestion: ChatPanelProps['onAsk'];
+  onSpeakAnswer: ChatPanelProps['onSpeak'];
+  onFindNearby: NearbyPlacesPanelProps['onFind'];
+  // Names of the places already on the walking tour
+  plannedStops: string[];
+  onAddStop: (place: NearbyPlace) => void;
+  onOpenWalkingTour: () => void;
+  // The history or narration step that failed, if any; the rest of the tour stays on screen
+  failure: StepFailure | null;
+  // Re-runs only the failed step
+  onRetryStep: () => void;
+}
+
+export interface ChatPanelProps {
+  landmarkName: string;
+  onAsk: (question: string, history: ChatMessage[]) => Promise<ChatAnswer>;
+  // Resolves with base64 PCM narration of the text
+  onSpeak: (text: string) => Promise<string>;
+}
+
+export interface NearbyPlacesPanelProps {
+  landmarkName: string;
+  onFind: () => Promise<NearbyPlaces>;
+  plannedStops: string[];
+  onAddStop: (place: NearbyPlace) => void;
+  onOpenWalkingTour: () => void;
+}
+
+export interface WalkingTourViewProps {
+  stops: WalkingTourStop[];
+  // Moves a stop up (-1) or down (1) the route
+  onMoveStop: (key: string, offset: number) => void;
+  onRemoveStop: (key: string) => void;
+  // Puts the stops after the first in nearest-next order
+  onOptimizeRoute: () => void;
+  onRetryStop: (key: string) => void;
+  onClose: () => void;
+}
+
+export interface LandmarkMapProps {
+  pins: MapPin[];
+  tiles: TileSource;
+  // Pins are only clickable when this is set
+  onSelectPin?: (id: string) => void;
+  // In pixels
+  height?: number;
+}
+
+export interface MarkdownContentProps {
+  markdown: string;
+  // Wrap every sentence in <span data-sentence="n"> so narration can highlight and seek to it
+  sentenceSpans?: boolean;
+  // Sources to cite after each sentence, by sentence index; needs sentenceSpans
+  citations?: Map<number, CitedSource[]>;
+}
+
+export interface CitationMarkerProps {
+  source: CitedSource;
+}
+
+export interface SearchSuggestionsProps {
+  // HTML snippet from the response's searchEntryPoint
+  renderedContent: string;
 }
 
 export interface ErrorDisplayProps {
   error: string;
+  category: ErrorCategory;
   onReset: () => void;
+  // Tries the failed step again with the same photo; omitted when there is nothing to retry
+  onRetry?: () => void;
+}
+
+export interface StepErrorNoticeProps {
+  failure: StepFailure;
+  onRetry: () => void;
+}
+
+export interface NarrationControlsProps {
+  currentTime: number;
+  duration: number;
+  playbackRate: number;
+  disabled: boolean;
+  onSeek: (time: number) => void;
+  onSkip: (seconds: number) => void;
+  onPlaybackRateChange: (rate: number) => void;
+}
+
+export interface ExportActionsProps {
+  imageUrl: string;
+  landmarkName: string;
+  landmarkInfo: string;
+  sources: GroundingChunk[];
+  audioChunks: string[];
+  isNarrationComplete: boolean;
+}
+
+export interface ShareButtonProps {
+  tour: SharedTour;
+  audioChunks: string[];
+  isNarrationComplete: boolean;
+}
+
+export interface SharedTourViewProps {
+  tour: SharedTour;
+  audioChunks: string[];
+  narrationStatus: SharedNarrationStatus;
+  narrationFailure: StepFailure | null;
+  // Generates the narration; share links carry only the text
+  onNarrate: () => void;
+  onClose: () => void;
+}
+
+export interface TourHistoryProps {
+  onOpenTour: (tour: SavedTour) => void;
+  tiles: TileSource;
+  onClose: () => void;
+}
+
+export interface BatchViewProps {
+  items: BatchItem[];
+  tours: BatchTour[];
+  onRetry: (itemId: string) => void;
+  onOpenTour: (tour: BatchTour) => void;
+  onClose: () => void;
+}
+
+export interface PhotoSettingsPanelProps {
+  value: PhotoSettings;
+  onChange: (settings: PhotoSettings) => void;
+  disabled?: boolean;
+}
+
+export interface GuideSettingsPanelProps {
+  value: GuideSettings;
+  onChange: (settings: GuideSettings) => void;
+  // Resolves with base64 PCM of the persona's sample line in the given voice
+  onPreview: (settings: GuideSettings) => Promise<string>;
+  disabled?: boolean;
+}
+
+export interface LanguageSelectorProps {
+  value: string;
+  onChange: (code: string) => void;
+  disabled?: boolean;
+}
+
+export interface LandmarkConfirmationProps {
+  identification: LandmarkIdentification;
+  onConfirm: (landmarkName: string) => void;
 }
@@ -0,0 +1,53 @@
+import { decode, NARRATION_CHANNELS, NARRATION_SAMPLE_RATE } from './helpers';
+
+const WAV_HEADER_BYTES = 44;
+const BITS_PER_SAMPLE = 16;
+
+/**
+ * Joins the base64 PCM narration chunks into one contiguous PCM byte array
+ */
+export const concatPcmChunks = (audioChunks: string[]): Uint8Array => {
+  const decoded = audioChunks.map(decode);
+  const pcm = new Uint8Array(decoded.reduce((total, chunk) => total + chunk.length, 0));
+  let offset = 0;
+  for (const chunk of decoded) {
+    pcm.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return pcm;
+};
+
+/**
+ * Wraps raw 16-bit little-endian PCM in a RIFF/WAVE container
+ */
+export const encodeWav = (
+  pcm: Uint8Array,
+  sampleRate = NARRATION_SAMPLE_RATE,
+  numChannels = NARRATION_CHANNELS,
+): Blob => {
+  const header = new DataView(new ArrayBuffer(WAV_HEADER_BYTES));
+  const blockAlign = numChannels * (BITS_PER_SAMPLE / 8);
+  const writeAscii = (offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) {
+      header.setUint8(offset + i, text.charCodeAt(i));
+    }
+  };
+
+  writeAscii(0, 'RIFF');
+  header.setUint32(4, WAV_HEADER_BYTES - 8 + pcm.length, true);
+  writeAscii(8, 'WAVE');
+  writeAscii(12, 'fmt ');
+  header.setUint32(16, 16, true); // fmt chunk size
+  header.setUint16(20, 1, true); // PCM format
+  header.setUint16(22, numChannels, true);
+  header.setUint32(24, sampleRate, true);
+  header.setUint32(28, sampleRate * blockAlign, true);
+  header.setUint16(32, blockAlign, true);
+  header.setUint16(34, BITS_PER_SAMPLE, true);
+  writeAscii(36, 'data');
+  header.setUint32(40, pcm.length, true);
+
+  return new Blob([header.buffer, pcm], { type: 'audio/wav' });
+};
+
+export const createNarrationWav = (audioChunks: string[]): Blob => encodeWav(concatPcmChunks(audioChunks));
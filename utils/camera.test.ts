@@ -0,0 +1,24 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { CameraError, startPreview } from './camera';
+import { toStepFailure } from './errors';
+
+describe('startPreview', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('reports a viewfinder that will not play as a camera failure', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const video = {
+      srcObject: null,
+      play: () => Promise.reject(new DOMException('play() can only be initiated by a user gesture.', 'NotAllowedError')),
+    } as unknown as HTMLVideoElement;
+    const stream = {} as MediaStream;
+
+    const error = await startPreview(video, stream).catch((e: unknown) => e);
+
+    expect(video.srcObject).toBe(stream);
+    expect(error).toBeInstanceOf(CameraError);
+    expect(toStepFailure('identify', error)).toMatchObject({ category: 'camera' });
+  });
+});
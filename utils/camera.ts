@@ -0,0 +1,105 @@
+export type CameraFacing = 'environment' | 'user';
+
+/**
+ * Raised when the camera cannot be opened; the message is written for the user
+ */
+export class CameraError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CameraError';
+  }
+}
+
+const describeCameraError = (error: unknown): string => {
+  switch ((error as { name?: string })?.name) {
+    case 'NotAllowedError':
+    case 'SecurityError':
+      return 'Camera access was denied. Allow camera access in your browser settings, or upload a photo instead.';
+    case 'NotFoundError':
+    case 'OverconstrainedError':
+      return 'No camera was found on this device. Upload a photo instead.';
+    case 'NotReadableError':
+    case 'AbortError':
+      return 'The camera is being used by another app. Close it and try again.';
+    default:
+      return 'The camera could not be started. Upload a photo instead.';
+  }
+};
+
+/**
+ * Opens a video stream from the rear or front camera. The facing mode is only a preference,
+ * so devices with a single camera still get a stream.
+ */
+export const openCamera = async (facing: CameraFacing): Promise<MediaStream> => {
+  if (!navigator.mediaDevices?.getUserMedia) {
+    throw new CameraError('Camera capture needs a secure (HTTPS) connection in a browser that supports it.');
+  }
+
+  try {
+    return await navigator.mediaDevices.getUserMedia({
+      video: {
+        facingMode: { ideal: facing },
+        width: { ideal: 1920 },
+        height: { ideal: 1080 },
+      },
+      audio: false,
+    });
+  } catch (error) {
+    console.error('getUserMedia failed:', error);
+    throw new CameraError(describeCameraError(error));
+  }
+};
+
+/**
+ * Shows the stream in the viewfinder. play() rejects when the browser blocks playback or the
+ * stream ends before it starts.
+ */
+export const startPreview = async (video: HTMLVideoElement, stream: MediaStream): Promise<void> => {
+  video.srcObject = stream;
+  try {
+    await video.play();
+  } catch (error) {
+    console.error('Camera preview failed:', error);
+    throw new CameraError('The camera preview could not be started. Try again, or upload a photo instead.');
+  }
+};
+
+export const stopCamera = (stream: MediaStream) => {
+  stream.getTracks().forEach(track => track.stop());
+};
+
+/**
+ * Whether the device reports more than one camera, so switching makes sense
+ */
+export const hasMultipleCameras = async (): Promise<boolean> => {
+  try {
+    const devices = await navigator.mediaDevices.enumerateDevices();
+    return devices.filter(device => device.kind === 'videoinput').length > 1;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Grabs the current viewfinder frame as a JPEG file, ready for the upload pipeline
+ */
+export const captureFrame = (video: HTMLVideoElement): Promise<File> => {
+  const canvas = document.createElement('canvas');
+  canvas.width = video.videoWidth;
+  canvas.height = video.videoHeight;
+  canvas.getContext('2d')?.drawImage(video, 0, 0, canvas.width, canvas.height);
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      blob => {
+        if (!blob) {
+          reject(new CameraError('Could not capture a photo from the camera.'));
+          return;
+        }
+        resolve(new File([blob], `camera-${Date.now()}.jpg`, { type: 'image/jpeg', lastModified: Date.now() }));
+      },
+      'image/jpeg',
+      0.92,
+    );
+  });
+};
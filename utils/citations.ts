@@ -0,0 +1,78 @@
+import { CitedSource, GroundingChunk } from '../types';
+import { listSentences } from './markdown';
+
+// Gemini API grounding links go through this redirect host, which says nothing about the source
+const GROUNDING_REDIRECT_HOST = 'vertexaisearch.cloud.google.com';
+const DOMAIN_PATTERN = /^[a-z0-9-]+(\.[a-z0-9-]+)+$/i;
+// Sentences shorter than this are too generic ("It opened in 1889.") to match on their ending alone
+const MIN_SENTENCE_MATCH_LENGTH = 12;
+
+const sourceDomain = ({ uri, title, domain }: NonNullable<GroundingChunk['web']>): string => {
+  if (domain) return domain;
+  if (DOMAIN_PATTERN.test(title)) return title;
+  try {
+    const host = new URL(uri).hostname.replace(/^www\./, '');
+    return host === GROUNDING_REDIRECT_HOST ? title : host;
+  } catch {
+    return title;
+  }
+};
+
+/**
+ * Numbers the sources in order of appearance. Search often returns the same site several times
+ * (with different redirect links), so sources with the same title and domain are merged.
+ */
+export const buildBibliography = (sources: GroundingChunk[]): CitedSource[] => {
+  const bibliography: CitedSource[] = [];
+  const byKey = new Map<string, CitedSource>();
+
+  sources.forEach(({ web, supports = [] }) => {
+    if (!web) return;
+    const domain = sourceDomain(web);
+    const key = `${web.title}|${domain}`.toLowerCase();
+    const existing = byKey.get(key);
+    if (existing) {
+      existing.supports.push(...supports.filter(text => !existing.supports.includes(text)));
+      return;
+    }
+    const cited: CitedSource = { number: bibliography.length + 1, uri: web.uri, title: web.title, domain, supports: [...supports] };
+    byKey.set(key, cited);
+    bibliography.push(cited);
+  });
+  return bibliography;
+};
+
+// Compares text without markdown symbols, punctuation, spacing or case getting in the way
+const squash = (text: string): string => text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '');
+
+/**
+ * Finds the sentence a supported passage belongs to. A passage covering several sentences is
+ * cited after its last one; a passage that is only part of a sentence is cited after that sentence.
+ */
+const findCitedSentence = (sentences: string[], passage: string): number => {
+  const target = squash(passage);
+  if (!target) return -1;
+  return sentences.findIndex(sentence => sentence.length > 0 && (
+    sentence.includes(target) || (sentence.length >= MIN_SENTENCE_MATCH_LENGTH && target.endsWith(sentence))
+  ));
+};
+
+/**
+ * Maps sentence indexes (as used by MarkdownContent's sentence spans) to the sources backing them up
+ */
+export const mapCitationsToSentences = (markdown: string, bibliography: CitedSource[]): Map<number, CitedSource[]> => {
+  const sentences = listSentences(markdown).map(squash);
+  const citations = new Map<number, CitedSource[]>();
+
+  bibliography.forEach(source => {
+    source.supports.forEach(passage => {
+      const index = findCitedSentence(sentences, passage);
+      if (index === -1) return;
+      const cited = citations.get(index) ?? [];
+      if (!cited.includes(source)) {
+        citations.set(index, [...cited, source].sort((a, b) => a.number - b.number));
+      }
+    });
+  });
+  return citations;
+};
@@ -0,0 +1,81 @@
+import { ErrorCategory, PipelineStep, StepFailure } from '../types';
+import { CameraError } from './camera';
+import { PhotoPreparationError } from './photoPreparation';
+import { ShareLinkError } from './shareLink';
+
+export interface ErrorCategoryDetails {
+  title: string;
+  // What the user can do about it, shown under the error's own message
+  hint: string;
+}
+
+export const ERROR_CATEGORY_DETAILS: Record<ErrorCategory, ErrorCategoryDetails> = {
+  quota: {
+    title: 'Usage Limit Reached',
+    hint: 'Gemini limits how many requests can be made per minute and per day. Wait a little before trying again.',
+  },
+  network: {
+    title: 'Connection Problem',
+    hint: 'Check that you are online and that the tour guide server is running.',
+  },
+  unavailable: {
+    title: 'Service Unavailable',
+    hint: 'Gemini is busy or slow to respond right now. Trying again in a few moments usually works.',
+  },
+  auth: {
+    title: 'Server Not Authorized',
+    hint: 'The server\'s Gemini API key is missing or invalid. Check GEMINI_API_KEY in .env.local and restart the server.',
+  },
+  unrecognized: {
+    title: 'No Landmark Recognized',
+    hint: 'Try a photo where the landmark is in focus and fills more of the frame.',
+  },
+  safety: {
+    title: 'Blocked by Safety Filters',
+    hint: 'Gemini would not process this content. Try a different photo.',
+  },
+  photo: {
+    title: 'Photo Could Not Be Read',
+    hint: 'Nothing was sent. Try another photo, or a smaller version of this one.',
+  },
+  camera: {
+    title: 'Camera Unavailable',
+    // The camera's own messages already say what to do
+    hint: '',
+  },
+  link: {
+    title: 'Share Link Broken',
+    hint: 'Ask whoever shared the tour to send the link again, and check that it was copied in full.',
+  },
+  unknown: {
+    title: 'Analysis Failed',
+    hint: '',
+  },
+};
+
+/**
+ * An error from the tour guide backend, with the message written for the user
+ */
+export class TourGuideError extends Error {
+  category: ErrorCategory;
+
+  constructor(message: string, category: ErrorCategory) {
+    super(message);
+    this.name = 'TourGuideError';
+    this.category = category;
+  }
+}
+
+export const getErrorCategory = (error: unknown): ErrorCategory => {
+  if (error instanceof TourGuideError) return error.category;
+  if (error instanceof PhotoPreparationError) return 'photo';
+  if (error instanceof CameraError) return 'camera';
+  if (error instanceof ShareLinkError) return 'link';
+  return 'unknown';
+};
+
+export const toStepFailure = (step: PipelineStep, error: unknown): StepFailure => ({
+  step,
+  category: getErrorCategory(error),
+  message: error instanceof Error ? error.message : 'An unknown error occurred.',
+});
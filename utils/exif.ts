@@ -0,0 +1,185 @@
+import { Coordinates, PhotoMetadata } from '../types';
+
+const TAG_ORIENTATION = 0x0112;
+const TAG_EXIF_IFD = 0x8769;
+const TAG_GPS_IFD = 0x8825;
+const TAG_DATE_TIME_ORIGINAL = 0x9003;
+const TAG_GPS_LATITUDE_REF = 0x0001;
+const TAG_GPS_LATITUDE = 0x0002;
+const TAG_GPS_LONGITUDE_REF = 0x0003;
+const TAG_GPS_LONGITUDE = 0x0004;
+
+// Byte size of each TIFF field type we read: ASCII, SHORT, LONG, RATIONAL
+const TYPE_SIZES: Record<number, number> = { 2: 1, 3: 2, 4: 4, 5: 8 };
+
+// Marks where the TIFF block sits inside the file
+interface ExifBlock {
+  // End of the whole container (JPEG APP1 segment or WebP chunk)
+  containerEnd: number;
+  tiffStart: number;
+}
+
+const EMPTY_METADATA: PhotoMetadata = { coordinates: null, capturedAt: null, orientation: 1 };
+
+const readAscii = (bytes: Uint8Array, start: number, length: number): string => {
+  return String.fromCharCode(...bytes.subarray(start, start + length));
+};
+
+const hasExifHeader = (bytes: Uint8Array, offset: number): boolean => readAscii(bytes, offset, 6) === 'Exif\0\0';
+
+const findJpegExif = (bytes: Uint8Array): ExifBlock | null => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let offset = 2;
+  while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+    const marker = bytes[offset + 1];
+    // Start of scan: image data follows and there are no more metadata segments
+    if (marker === 0xda) return null;
+
+    const segmentLength = view.getUint16(offset + 2);
+    if (marker === 0xe1 && hasExifHeader(bytes, offset + 4)) {
+      return { containerEnd: offset + 2 + segmentLength, tiffStart: offset + 10 };
+    }
+    offset += 2 + segmentLength;
+  }
+  return null;
+};
+
+const findWebpExif = (bytes: Uint8Array): ExifBlock | null => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let offset = 12;
+  while (offset + 8 <= bytes.length) {
+    const chunkSize = view.getUint32(offset + 4, true);
+    // Chunks are padded to an even length
+    const chunkEnd = offset + 8 + chunkSize + (chunkSize % 2);
+    if (readAscii(bytes, offset, 4) === 'EXIF') {
+      // Some encoders keep the JPEG-style "Exif\0\0" prefix inside the chunk
+      const dataStart = offset + 8;
+      const tiffStart = hasExifHeader(bytes, dataStart) ? dataStart + 6 : dataStart;
+      return { containerEnd: chunkEnd, tiffStart };
+    }
+    offset = chunkEnd;
+  }
+  return null;
+};
+
+const isJpeg = (bytes: Uint8Array): boolean => bytes[0] === 0xff && bytes[1] === 0xd8;
+
+const isWebp = (bytes: Uint8Array): boolean => readAscii(bytes, 0, 4) === 'RIFF' && readAscii(bytes, 8, 4) === 'WEBP';
+
+const findExifBlock = (bytes: Uint8Array): ExifBlock | null => {
+  if (isJpeg(bytes)) return findJpegExif(bytes);
+  if (isWebp(bytes)) return findWebpExif(bytes);
+  return null;
+};
+
+type IfdEntries = Map<number, { type: number; count: number; valueOffset: number }>;
+
+/**
+ * Reads an image file directory; valueOffset points at the value itself, whether inline or not
+ */
+const readIfd = (view: DataView, ifdOffset: number, littleEndian: boolean): IfdEntries => {
+  const entries: IfdEntries = new Map();
+  if (ifdOffset + 2 > view.byteLength) return entries;
+
+  const count = view.getUint16(ifdOffset, littleEndian);
+  for (let i = 0; i < count; i++) {
+    const entryOffset = ifdOffset + 2 + i * 12;
+    if (entryOffset + 12 > view.byteLength) break;
+
+    const tag = view.getUint16(entryOffset, littleEndian);
+    const type = view.getUint16(entryOffset + 2, littleEndian);
+    const valueCount = view.getUint32(entryOffset + 4, littleEndian);
+    const size = (TYPE_SIZES[type] ?? 0) * valueCount;
+    const valueOffset = size > 4 ? view.getUint32(entryOffset + 8, littleEndian) : entryOffset + 8;
+    if (size > 0 && valueOffset + size <= view.byteLength) {
+      entries.set(tag, { type, count: valueCount, valueOffset });
+    }
+  }
+  return entries;
+};
+
+const readNumber = (view: DataView, entries: IfdEntries, tag: number, littleEndian: boolean): number | null => {
+  const entry = entries.get(tag);
+  if (!entry) return null;
+  if (entry.type === 3) return view.getUint16(entry.valueOffset, littleEndian);
+  if (entry.type === 4) return view.getUint32(entry.valueOffset, littleEndian);
+  return null;
+};
+
+const readString = (view: DataView, entries: IfdEntries, tag: number): string | null => {
+  const entry = entries.get(tag);
+  if (!entry || entry.type !== 2) return null;
+  const bytes = new Uint8Array(view.buffer, view.byteOffset + entry.valueOffset, entry.count);
+  return readAscii(bytes, 0, entry.count).replace(/\0+$/, '').trim();
+};
+
+// GPS positions are stored as degrees, minutes and seconds rationals
+const readDegrees = (view: DataView, entries: IfdEntries, tag: number, littleEndian: boolean): number | null => {
+  const entry = entries.get(tag);
+  if (!entry || entry.type !== 5 || entry.count < 3) return null;
+
+  const [degrees, minutes, seconds] = [0, 1, 2].map(index => {
+    const numerator = view.getUint32(entry.valueOffset + index * 8, littleEndian);
+    const denominator = view.getUint32(entry.valueOffset + index * 8 + 4, littleEndian);
+    return denominator === 0 ? 0 : numerator / denominator;
+  });
+  return degrees + minutes / 60 + seconds / 3600;
+};
+
+const readCoordinates = (view: DataView, gps: IfdEntries, littleEndian: boolean): Coordinates | null => {
+  const latitude = readDegrees(view, gps, TAG_GPS_LATITUDE, littleEndian);
+  const longitude = readDegrees(view, gps, TAG_GPS_LONGITUDE, littleEndian);
+  if (latitude === null || longitude === null) return null;
+  // Cameras without a fix often write zeros rather than leaving the tags out
+  if (latitude === 0 && longitude === 0) return null;
+
+  const signedLatitude = readString(view, gps, TAG_GPS_LATITUDE_REF) === 'S' ? -latitude : latitude;
+  const signedLongitude = readString(view, gps, TAG_GPS_LONGITUDE_REF) === 'W' ? -longitude : longitude;
+  if (Math.abs(signedLatitude) > 90 || Math.abs(signedLongitude) > 180) return null;
+  return { latitude: signedLatitude, longitude: signedLongitude };
+};
+
+// EXIF dates look like "2024:06:01 14:30:00" and carry no time zone
+const toCaptureTime = (exifDate: string | null): string | null => {
+  const match = exifDate?.match(/^(\d{4}):(\d{2}):(\d{2}) (\d{2}):(\d{2}):(\d{2})$/);
+  if (!match || match[1] === '0000') return null;
+  const [, year, month, day, hours, minutes, seconds] = match;
+  return `${year}-${month}-${day}T${hours}:${minutes}:${seconds}`;
+};
+
+const parseTiff = (tiff: DataView): PhotoMetadata => {
+  const byteOrder = readAscii(new Uint8Array(tiff.buffer, tiff.byteOffset, 2), 0, 2);
+  if (byteOrder !== 'II' && byteOrder !== 'MM') return EMPTY_METADATA;
+  const littleEndian = byteOrder === 'II';
+
+  const ifd0 = readIfd(tiff, tiff.getUint32(4, littleEndian), littleEndian);
+  const orientation = readNumber(tiff, ifd0, TAG_ORIENTATION, littleEndian) ?? 1;
+
+  const exifOffset = readNumber(tiff, ifd0, TAG_EXIF_IFD, littleEndian);
+  const exif = exifOffset ? readIfd(tiff, exifOffset, littleEndian) : new Map();
+  const gpsOffset = readNumber(tiff, ifd0, TAG_GPS_IFD, littleEndian);
+  const gps = gpsOffset ? readIfd(tiff, gpsOffset, littleEndian) : new Map();
+
+  return {
+    coordinates: readCoordinates(tiff, gps, littleEndian),
+    capturedAt: toCaptureTime(readString(tiff, exif, TAG_DATE_TIME_ORIGINAL)),
+    orientation: orientation >= 1 && orientation <= 8 ? orientation : 1,
+  };
+};
+
+/**
+ * Reads GPS position, capture time and orientation from a JPEG or WebP file.
+ * Files without EXIF, other formats and malformed blocks all yield empty metadata.
+ */
+export const readPhotoMetadata = async (file: Blob): Promise<PhotoMetadata> => {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  const block = findExifBlock(bytes);
+  if (!block) return EMPTY_METADATA;
+
+  try {
+    return parseTiff(new DataView(bytes.buffer, block.tiffStart, block.containerEnd - block.tiffStart));
+  } catch {
+    // A truncated block makes DataView throw; treat it like a photo without metadata
+    return EMPTY_METADATA;
+  }
+};
@@ -0,0 +1,73 @@
+import { describe, expect, it, vi } from 'vitest';
+import { TourGuideProvider } from '../types';
+import { TourGuideError } from './errors';
+import { streamGuide } from './guideGeneration';
+
+const preferences = { language: 'fr-FR', guideSettings: { persona: 'classic', voice: null } };
+
+const paragraphs = [
+  'La tour Eiffel a été construite pour l\'Exposition universelle de 1889, pour célébrer le centenaire de la Révolution française de 1789.',
+  'Elle est repeinte à la main tous les sept ans, avec une soixantaine de tonnes de peinture en trois nuances de brun bronze dégradées.',
+];
+
+const createProvider = () => ({
+  identifyLandmark: vi.fn<TourGuideProvider['identifyLandmark']>(),
+  // Streams the first paragraph, then completes with both
+  fetchLandmarkHistory: vi.fn<TourGuideProvider['fetchLandmarkHistory']>(async (_, options) => {
+    options?.onText?.(`${paragraphs[0]}\n\n`);
+    await Promise.resolve();
+    return { text: paragraphs.join('\n\n'), sources: [] };
+  }),
+  generateNarration: vi.fn<TourGuideProvider['generateNarration']>(async text => `pcm:${text.slice(0, 6)}`),
+  askFollowUp: vi.fn<TourGuideProvider['askFollowUp']>(),
+  findNearbyPlaces: vi.fn<TourGuideProvider['findNearbyPlaces']>(),
+});
+
+describe('streamGuide', () => {
+  it('narrates each paragraph in order, starting while the guide streams', async () => {
+    const provider = createProvider();
+    const onText = vi.fn();
+    const chunks: string[] = [];
+
+    const { history, narration } = await streamGuide(provider, 'Tour Eiffel', preferences, { signal: new AbortController().signal }, {
+      onText,
+      onAudioChunk: chunk => chunks.push(chunk),
+    });
+    await narration.finish();
+
+    expect(history.text).toBe(paragraphs.join('\n\n'));
+    expect(onText).toHaveBeenCalledWith(`${paragraphs[0]}\n\n`);
+    expect(provider.generateNarration.mock.calls.map(([text]) => text)).toEqual(paragraphs);
+    expect(chunks).toEqual(['pcm:La tou', 'pcm:Elle e']);
+    expect(provider.fetchLandmarkHistory).toHaveBeenCalledWith('Tour Eiffel', expect.objectContaining({ language: 'fr-FR', persona: 'classic' }));
+    expect(provider.generateNarration).toHaveBeenCalledWith(paragraphs[0], expect.objectContaining({ language: 'fr-FR', persona: 'classic' }));
+  });
+
+  it('runs every call through the schedule', async () => {
+    const provider = createProvider();
+    let scheduledCount = 0;
+    const schedule = <T>(call: () => Promise<T>) => {
+      scheduledCount++;
+      return call();
+    };
+
+    const { narration } = await streamGuide(provider, 'Tour Eiffel', preferences, { signal: new AbortController().signal, schedule }, {
+      onAudioChunk: () => {},
+    });
+    await narration.finish();
+
+    expect(scheduledCount).toBe(3);
+  });
+
+  it('keeps the guide when only the narration fails', async () => {
+    const provider = createProvider();
+    provider.generateNarration.mockRejectedValueOnce(new TourGuideError('Rate limit reached.', 'quota'));
+
+    const { history, narration } = await streamGuide(provider, 'Tour Eiffel', preferences, { signal: new AbortController().signal }, {
+      onAudioChunk: () => {},
+    });
+
+    expect(history.text).toBe(paragraphs.join('\n\n'));
+    await expect(narration.finish()).rejects.toThrow('Rate limit reached.');
+  });
+});
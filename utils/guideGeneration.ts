@@ -0,0 +1,75 @@
+import { LandmarkHistory, RequestOptions, TourGuideProvider } from '../types';
+import { NarrationQueue, createNarrationQueue, splitIntoNarrationSegments } from './narration';
+import { resolveVoice } from './personas';
+import { PipelinePreferences } from './tourPipeline';
+
+export interface GuideRequestOptions extends RequestOptions {
+  signal: AbortSignal;
+  // Wraps each provider call, e.g. to pace several guides through a rate-limited queue
+  schedule?: <T>(call: () => Promise<T>) => Promise<T>;
+}
+
+export interface GuideCallbacks {
+  // Receives the accumulated markdown as the guide streams in
+  onText?: (textSoFar: string) => void;
+  // Receives each narrated segment's audio, in order; nothing arrives once the signal aborts
+  onAudioChunk: (chunk: string) => void;
+}
+
+export interface StreamedGuide {
+  history: LandmarkHistory;
+  // Still narrating the last paragraphs; finish() rejects with the first narration failure
+  narration: NarrationQueue;
+}
+
+const runNow = <T>(call: () => Promise<T>): Promise<T> => call();
+
+/**
+ * Narrates guide segments one at a time in the given language, persona and voice
+ */
+export const startGuideNarration = (
+  provider: TourGuideProvider,
+  { language, guideSettings }: PipelinePreferences,
+  { schedule = runNow, ...requestOptions }: GuideRequestOptions,
+  onAudioChunk: GuideCallbacks['onAudioChunk'],
+): NarrationQueue => {
+  const narrationOptions = {
+    ...requestOptions,
+    language,
+    voice: resolveVoice(guideSettings, language),
+    persona: guideSettings.persona,
+  };
+  return createNarrationQueue(text => schedule(() => provider.generateNarration(text, narrationOptions)), chunk => {
+    if (!requestOptions.signal.aborted) onAudioChunk(chunk);
+  });
+};
+
+/**
+ * Streams a landmark's guide and narrates it paragraph by paragraph while it arrives. Rejects if the
+ * guide itself fails; narration failures are reported separately by the returned queue's finish().
+ */
+export const streamGuide = async (
+  provider: TourGuideProvider,
+  landmarkName: string,
+  preferences: PipelinePreferences,
+  options: GuideRequestOptions,
+  { onText, onAudioChunk }: GuideCallbacks,
+): Promise<StreamedGuide> => {
+  const { schedule = runNow, ...requestOptions } = options;
+  const narration = startGuideNarration(provider, preferences, options, onAudioChunk);
+
+  const history = await schedule(() => provider.fetchLandmarkHistory(landmarkName, {
+    ...requestOptions,
+    language: preferences.language,
+    persona: preferences.guideSettings.persona,
+    onText: text => {
+      if (requestOptions.signal.aborted) return;
+      onText?.(text);
+      narration.update(splitIntoNarrationSegments(text, false));
+    },
+  }));
+
+  // Narrate the remaining paragraphs
+  narration.update(splitIntoNarrationSegments(history.text));
+  return { history, narration };
+};
@@ -1,3 +1,6 @@
+// Gemini TTS returns raw 24kHz, 16-bit, mono PCM
+export const NARRATION_SAMPLE_RATE = 24000;
+export const NARRATION_CHANNELS = 1;
 
 export const fileToBase64 = (file: File): Promise<string> => {
   return new Promise((resolve, reject) => {
@@ -12,6 +15,14 @@ export const fileToBase64 = (file: File): Promise<string> => {
   });
 };
 
+/**
+ * Hex-encoded SHA-256 digest of a string, used as a compact cache key for large payloads
+ */
+export const sha256Hex = async (value: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
 export const decode = (base64: string): Uint8Array => {
   const binaryString = atob(base64);
   const len = binaryString.length;
@@ -40,3 +51,68 @@ export const decodeAudioData = async (
   }
   return buffer;
 };
+
+/**
+ * Formats seconds as m:ss for playback displays
+ */
+export const formatPlaybackTime = (seconds: number): string => {
+  const totalSeconds = Math.max(0, Math.floor(seconds));
+  const minutes = Math.floor(totalSeconds / 60);
+  const remainder = totalSeconds % 60;
+  return `${minutes}:${remainder.toString().padStart(2, '0')}`;
+};
+
+/**
+ * Renders a small JPEG preview of an image, preserving its aspect ratio
+ */
+export const createThumbnail = async (image: Blob, maxSize = 160): Promise<Blob> => {
+  const bitmap = await createImageBitmap(image);
+  const scale = Math.min(1, maxSize / Math.max(bitmap.width, bitmap.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(bitmap.width * scale);
+  canvas.height = Math.round(bitmap.height * scale);
+  canvas.getContext('2d')?.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      blob => (blob ? resolve(blob) : reject(new Error('Could not create a thumbnail.'))),
+      'image/jpeg',
+      0.8,
+    );
+  });
+};
+
+export const blobToDataUrl = (blob: Blob): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.readAsDataURL(blob);
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = (error) => reject(error);
+  });
+};
+
+/**
+ * Saves a blob through a temporary download link
+ */
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+/**
+ * Turns a landmark name into a safe file name, e.g. "Eiffel Tower, Paris" -> "eiffel-tower-paris"
+ */
+export const toFileSlug = (name: string): string => {
+  const slug = name
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+  return slug || 'tour';
+};
@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { LandmarkIdentification } from '../types';
+import { formatLandmarkName, resolveNamedIdentification } from './identification';
+
+const identification: LandmarkIdentification = {
+  name: 'Trevi Fountain',
+  city: 'Rome',
+  country: 'Italy',
+  confidence: 0.9,
+  coordinates: { latitude: 41.9009, longitude: 12.4833 },
+  alternatives: [
+    { name: 'Fontana del Tritone', city: 'Rome', country: 'Italy', confidence: 0.4 },
+    { name: 'Fontana di Nettuno', city: 'Rome', country: 'Italy', confidence: 0.2 },
+  ],
+};
+
+describe('resolveNamedIdentification', () => {
+  it('keeps a named identification as it is', () => {
+    expect(resolveNamedIdentification(identification)).toBe(identification);
+  });
+
+  it('promotes the top alternative when the model named no landmark', () => {
+    const resolved = resolveNamedIdentification({ ...identification, name: '' });
+    expect(resolved).toEqual({
+      ...identification.alternatives[0],
+      coordinates: null,
+      alternatives: [identification.alternatives[1]],
+    });
+    expect(formatLandmarkName(resolved!)).toBe('Fontana del Tritone, Rome, Italy');
+  });
+
+  it('gives up when there is no named candidate at all', () => {
+    expect(resolveNamedIdentification({ ...identification, name: '', alternatives: [] })).toBeNull();
+  });
+});
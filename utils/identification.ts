@@ -0,0 +1,118 @@
+import { Coordinates, LandmarkCandidate, LandmarkIdentification } from '../types';
+
+// Below this the user is asked to confirm the landmark before the guide is generated
+export const LOW_CONFIDENCE_THRESHOLD = 0.6;
+export const MAX_ALTERNATIVES = 3;
+
+/**
+ * Raised when the model's identification JSON is malformed or does not match the schema
+ */
+export class IdentificationParseError extends Error {
+  constructor(detail: string) {
+    super(`Could not read the landmark identification: ${detail}`);
+    this.name = 'IdentificationParseError';
+  }
+}
+
+type JsonObject = Record<string, unknown>;
+
+const readString = (source: JsonObject, field: string, path: string): string => {
+  const value = source[field];
+  if (typeof value !== 'string') {
+    throw new IdentificationParseError(`"${path}${field}" must be a string.`);
+  }
+  return value.trim();
+};
+
+const readConfidence = (source: JsonObject, path: string): number => {
+  const value = source.confidence;
+  if (typeof value !== 'number' || Number.isNaN(value) || value < 0 || value > 1) {
+    throw new IdentificationParseError(`"${path}confidence" must be a number between 0 and 1.`);
+  }
+  return value;
+};
+
+const readCandidate = (source: unknown, path: string): LandmarkCandidate => {
+  if (typeof source !== 'object' || source === null || Array.isArray(source)) {
+    throw new IdentificationParseError(`"${path || 'response'}" must be an object.`);
+  }
+  const candidate = source as JsonObject;
+  return {
+    name: readString(candidate, 'name', path),
+    city: readString(candidate, 'city', path),
+    country: readString(candidate, 'country', path),
+    confidence: readConfidence(candidate, path),
+  };
+};
+
+const readCoordinates = (source: JsonObject): Coordinates | null => {
+  const value = source.coordinates;
+  if (value === undefined || value === null) return null;
+
+  const { latitude, longitude } = value as JsonObject;
+  if (
+    typeof latitude !== 'number' || latitude < -90 || latitude > 90 ||
+    typeof longitude !== 'number' || longitude < -180 || longitude > 180
+  ) {
+    throw new IdentificationParseError('"coordinates" must hold a valid latitude and longitude.');
+  }
+  return { latitude, longitude };
+};
+
+/**
+ * Parses and validates the JSON the model returns for the identification schema
+ */
+export const parseLandmarkIdentification = (raw: string): LandmarkIdentification => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    throw new IdentificationParseError('the response was not valid JSON.');
+  }
+
+  const primary = readCandidate(parsed, '');
+  const source = parsed as JsonObject;
+  const alternatives = source.alternatives ?? [];
+  if (!Array.isArray(alternatives)) {
+    throw new IdentificationParseError('"alternatives" must be a list.');
+  }
+
+  return {
+    ...primary,
+    coordinates: readCoordinates(source),
+    alternatives: alternatives
+      .slice(0, MAX_ALTERNATIVES)
+      .map((alternative, index) => readCandidate(alternative, `alternatives[${index}].`))
+      .filter(alternative => alternative.name.length > 0),
+  };
+};
+
+/**
+ * Display and prompt form of a candidate, e.g. "Colosseum, Rome, Italy"
+ */
+export const formatLandmarkName = ({ name, city, country }: LandmarkCandidate): string => {
+  return [name, city, country]
+    .filter(part => part.length > 0)
+    .filter((part, index, parts) => parts.indexOf(part) === index)
+    .join(', ');
+};
+
+/**
+ * Case and whitespace-insensitive key, so "Eiffel  Tower" and "eiffel tower" are treated as the same landmark
+ */
+export const normalizeLandmarkName = (name: string): string => name.trim().toLowerCase().replace(/\s+/g, ' ');
+
+/**
+ * The identification to go with when there is no one to confirm it: as returned, or promoted from its
+ * first alternative when the model named no landmark. Null when there is no named candidate at all.
+ * A promoted alternative has no position of its own.
+ */
+export const resolveNamedIdentification = (identification: LandmarkIdentification): LandmarkIdentification | null => {
+  if (identification.name.length > 0) return identification;
+  const [topAlternative, ...alternatives] = identification.alternatives;
+  return topAlternative ? { ...topAlternative, coordinates: null, alternatives } : null;
+};
+
+export const needsConfirmation = (identification: LandmarkIdentification): boolean => {
+  return identification.confidence < LOW_CONFIDENCE_THRESHOLD;
+};
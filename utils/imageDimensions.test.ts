@@ -0,0 +1,83 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { readImageDimensions } from './imageDimensions';
+import { DEFAULT_PHOTO_SETTINGS, PhotoPreparationError, preparePhoto } from './photoPreparation';
+
+const ascii = (text: string) => [...text].map(char => char.charCodeAt(0));
+const uint16 = (value: number) => [value >> 8, value & 0xff];
+const uint32 = (value: number) => [value >>> 24, (value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff];
+const uint32le = (value: number) => uint32(value).reverse();
+
+// Only the headers; nothing here would decode
+const jpeg = (width: number, height: number) => new Blob([new Uint8Array([
+  0xff, 0xd8,
+  // An APP1 segment before the frame header, as in camera photos
+  0xff, 0xe1, ...uint16(8), ...ascii('Exif\0\0'),
+  0xff, 0xc2, ...uint16(11), 8, ...uint16(height), ...uint16(width), 1, 1, 0x11, 0,
+  0xff, 0xda,
+])]);
+
+const png = (width: number, height: number) => new Blob([new Uint8Array([
+  0x89, ...ascii('PNG\r\n\x1a\n'), ...uint32(13), ...ascii('IHDR'), ...uint32(width), ...uint32(height), 8, 2, 0, 0, 0,
+])]);
+
+const webp = (chunk: string, data: number[]) => new Blob([new Uint8Array([
+  ...ascii('RIFF'), ...uint32le(4 + 8 + data.length), ...ascii('WEBP'), ...ascii(chunk), ...uint32le(data.length), ...data,
+])]);
+
+const ispe = (width: number, height: number) => [...uint32(20), ...ascii('ispe'), 0, 0, 0, 0, ...uint32(width), ...uint32(height)];
+
+const heic = (...sizes: [number, number][]) => {
+  const properties = sizes.flatMap(([width, height]) => ispe(width, height));
+  return new Blob([new Uint8Array([
+    ...uint32(16), ...ascii('ftypheic'), ...ascii('mif1'),
+    ...uint32(12 + properties.length), ...ascii('meta'), 0, 0, 0, 0, ...properties,
+    ...uint32(8), ...ascii('mdat'),
+  ])]);
+};
+
+describe('readImageDimensions', () => {
+  it('reads the frame header of a JPEG', async () => {
+    expect(await readImageDimensions(jpeg(4032, 3024))).toEqual({ width: 4032, height: 3024 });
+  });
+
+  it('reads the IHDR chunk of a PNG', async () => {
+    expect(await readImageDimensions(png(1920, 1080))).toEqual({ width: 1920, height: 1080 });
+  });
+
+  it('reads lossy, lossless and extended WebP headers', async () => {
+    const lossy = [0, 0, 0, 0x9d, 0x01, 0x2a, 0x80, 0x07, 0x38, 0x04];
+    expect(await readImageDimensions(webp('VP8 ', lossy))).toEqual({ width: 1920, height: 1080 });
+
+    const packed = (1920 - 1) | ((1080 - 1) << 14);
+    expect(await readImageDimensions(webp('VP8L', [0x2f, ...uint32le(packed), 0, 0, 0, 0, 0]))).toEqual({ width: 1920, height: 1080 });
+
+    const extended = [0, 0, 0, 0, ...uint32le(20000 - 1).slice(0, 3), ...uint32le(15000 - 1).slice(0, 3)];
+    expect(await readImageDimensions(webp('VP8X', extended))).toEqual({ width: 20000, height: 15000 });
+  });
+
+  it('takes the largest image size of a HEIC grid', async () => {
+    expect(await readImageDimensions(heic([512, 512], [4032, 3024], [320, 240]))).toEqual({ width: 4032, height: 3024 });
+  });
+
+  it('gives up on other formats and cut-off headers', async () => {
+    expect(await readImageDimensions(new Blob(['GIF89a']))).toBeNull();
+    expect(await readImageDimensions(new Blob([new Uint8Array([0xff, 0xd8, 0xff, 0xc0, 0, 11])]))).toBeNull();
+  });
+});
+
+describe('preparePhoto', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('rejects a huge photo from its header, before decoding it', async () => {
+    const decode = vi.fn();
+    vi.stubGlobal('createImageBitmap', decode);
+    const file = new File([await jpeg(20000, 20000).arrayBuffer()], 'panorama.jpg', { type: 'image/jpeg' });
+
+    await expect(preparePhoto(file, DEFAULT_PHOTO_SETTINGS)).rejects.toThrow(
+      new PhotoPreparationError('"panorama.jpg" is 20000×20000 pixels, which is too large to process.')
+    );
+    expect(decode).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,105 @@
+export interface ImageDimensions {
+  width: number;
+  height: number;
+}
+
+const readAscii = (bytes: Uint8Array, start: number, length: number): string => {
+  return String.fromCharCode(...bytes.subarray(start, start + length));
+};
+
+// Start-of-frame markers carry the frame size; C4 (DHT), C8 (JPG) and CC (DAC) share the range but do not
+const isStartOfFrame = (marker: number): boolean =>
+  marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc;
+
+const readJpegDimensions = (bytes: Uint8Array, view: DataView): ImageDimensions | null => {
+  let offset = 2;
+  while (offset + 9 <= bytes.length) {
+    if (bytes[offset] !== 0xff) return null;
+    const marker = bytes[offset + 1];
+    // Fill bytes before a marker
+    if (marker === 0xff) {
+      offset += 1;
+      continue;
+    }
+    // Start of scan: entropy-coded data follows, and no frame header was found before it
+    if (marker === 0xda) return null;
+    if (isStartOfFrame(marker)) {
+      return { height: view.getUint16(offset + 5), width: view.getUint16(offset + 7) };
+    }
+    offset += 2 + view.getUint16(offset + 2);
+  }
+  return null;
+};
+
+const readPngDimensions = (bytes: Uint8Array, view: DataView): ImageDimensions | null => {
+  if (bytes.length < 24 || readAscii(bytes, 12, 4) !== 'IHDR') return null;
+  return { width: view.getUint32(16), height: view.getUint32(20) };
+};
+
+const readWebpDimensions = (bytes: Uint8Array, view: DataView): ImageDimensions | null => {
+  if (bytes.length < 30) return null;
+  switch (readAscii(bytes, 12, 4)) {
+    // Extended format: 24-bit canvas size minus one
+    case 'VP8X':
+      return {
+        width: 1 + (view.getUint32(24, true) & 0xffffff),
+        height: 1 + (view.getUint32(26, true) >>> 8),
+      };
+    // Lossy: 14-bit sizes after the key frame start code
+    case 'VP8 ':
+      return { width: view.getUint16(26, true) & 0x3fff, height: view.getUint16(28, true) & 0x3fff };
+    // Lossless: 14-bit sizes minus one, packed after the signature byte
+    case 'VP8L': {
+      const bits = view.getUint32(21, true);
+      return { width: 1 + (bits & 0x3fff), height: 1 + ((bits >>> 14) & 0x3fff) };
+    }
+    default:
+      return null;
+  }
+};
+
+/**
+ * HEIC keeps each image's size in an "ispe" property inside the "meta" box. Grid photos list the
+ * tiles and thumbnail as well, so the largest one is the full image.
+ */
+const readHeicDimensions = (bytes: Uint8Array, view: DataView): ImageDimensions | null => {
+  let offset = 0;
+  while (offset + 8 <= bytes.length) {
+    const boxSize = view.getUint32(offset);
+    if (readAscii(bytes, offset + 4, 4) === 'meta') {
+      const metaEnd = Math.min(bytes.length, offset + boxSize);
+      let largest: ImageDimensions | null = null;
+      for (let at = offset + 8; at + 16 <= metaEnd; at++) {
+        if (readAscii(bytes, at, 4) !== 'ispe') continue;
+        const candidate = { width: view.getUint32(at + 8), height: view.getUint32(at + 12) };
+        if (!largest || candidate.width * candidate.height > largest.width * largest.height) {
+          largest = candidate;
+        }
+      }
+      return largest;
+    }
+    // A size below the header's own length (0 means "to the end of the file") leaves nothing to walk
+    if (boxSize < 8) return null;
+    offset += boxSize;
+  }
+  return null;
+};
+
+/**
+ * Reads the pixel size of a JPEG, PNG, WebP or HEIC photo from its header, without decoding it.
+ * Returns null for other formats and for headers that cannot be read.
+ */
+export const readImageDimensions = async (file: Blob): Promise<ImageDimensions | null> => {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+  try {
+    if (bytes[0] === 0xff && bytes[1] === 0xd8) return readJpegDimensions(bytes, view);
+    if (readAscii(bytes, 0, 8) === '\x89PNG\r\n\x1a\n') return readPngDimensions(bytes, view);
+    if (readAscii(bytes, 0, 4) === 'RIFF' && readAscii(bytes, 8, 4) === 'WEBP') return readWebpDimensions(bytes, view);
+    if (readAscii(bytes, 4, 4) === 'ftyp') return readHeicDimensions(bytes, view);
+  } catch {
+    // A header cut short makes DataView throw
+  }
+  return null;
+};
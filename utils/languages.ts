@@ -0,0 +1,53 @@
+export interface LanguageOption {
+  // BCP-47 code sent to Gemini TTS as speechConfig.languageCode
+  code: string;
+  // English name used in the history prompt
+  name: string;
+  // Native name shown in the selector
+  label: string;
+  // Prebuilt Gemini TTS voice that reads this language well
+  voice: string;
+}
+
+export const LANGUAGES: LanguageOption[] = [
+  { code: 'en-US', name: 'English', label: 'English', voice: 'Kore' },
+  { code: 'es-ES', name: 'Spanish', label: 'Español', voice: 'Aoede' },
+  { code: 'fr-FR', name: 'French', label: 'Français', voice: 'Leda' },
+  { code: 'de-DE', name: 'German', label: 'Deutsch', voice: 'Charon' },
+  { code: 'it-IT', name: 'Italian', label: 'Italiano', voice: 'Zephyr' },
+  { code: 'pt-BR', name: 'Portuguese', label: 'Português', voice: 'Puck' },
+  { code: 'ja-JP', name: 'Japanese', label: '日本語', voice: 'Kore' },
+  { code: 'ko-KR', name: 'Korean', label: '한국어', voice: 'Kore' },
+  { code: 'cmn-CN', name: 'Mandarin Chinese', label: '中文', voice: 'Orus' },
+  { code: 'hi-IN', name: 'Hindi', label: 'हिन्दी', voice: 'Fenrir' },
+];
+
+export const DEFAULT_LANGUAGE = LANGUAGES[0].code;
+
+const LANGUAGE_STORAGE_KEY = 'photo-tour-guide:language';
+
+export const findLanguage = (code: string): LanguageOption | undefined => {
+  return LANGUAGES.find(language => language.code === code);
+};
+
+export const getLanguage = (code: string): LanguageOption => findLanguage(code) ?? LANGUAGES[0];
+
+/**
+ * Reads the remembered language, falling back to English when unset or unknown
+ */
+export const loadPreferredLanguage = (): string => {
+  try {
+    const stored = localStorage.getItem(LANGUAGE_STORAGE_KEY);
+    return stored && findLanguage(stored) ? stored : DEFAULT_LANGUAGE;
+  } catch {
+    return DEFAULT_LANGUAGE;
+  }
+};
+
+export const savePreferredLanguage = (code: string) => {
+  try {
+    localStorage.setItem(LANGUAGE_STORAGE_KEY, code);
+  } catch {
+    // Storage can be unavailable (private mode); the choice just won't be remembered
+  }
+};
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { TILE_SIZE, fitView, project, unproject } from './mapProjection';
+
+const eiffelTower = { latitude: 48.85837, longitude: 2.29448 };
+const louvre = { latitude: 48.86061, longitude: 2.33764 };
+
+describe('project', () => {
+  it('puts the equator and prime meridian in the middle of the world map', () => {
+    expect(project({ latitude: 0, longitude: 0 }, 0)).toEqual({ x: 128, y: 128 });
+    expect(project({ latitude: 0, longitude: 180 }, 2)).toEqual({ x: 4 * TILE_SIZE, y: 2 * TILE_SIZE });
+  });
+
+  it('lands on the same tile as the usual slippy map tile maths', () => {
+    const { x, y } = project(eiffelTower, 15);
+    expect([Math.floor(x / TILE_SIZE), Math.floor(y / TILE_SIZE)]).toEqual([16592, 11272]);
+  });
+
+  it('clamps the poles to the edge of the map', () => {
+    expect(project({ latitude: 90, longitude: 0 }, 0).y).toBeCloseTo(0);
+    expect(project({ latitude: -90, longitude: 0 }, 0).y).toBeCloseTo(TILE_SIZE);
+  });
+});
+
+describe('unproject', () => {
+  it('reverses project', () => {
+    const coordinates = unproject(project(eiffelTower, 17), 17);
+    expect(coordinates.latitude).toBeCloseTo(eiffelTower.latitude, 6);
+    expect(coordinates.longitude).toBeCloseTo(eiffelTower.longitude, 6);
+  });
+
+  it('wraps longitudes past the edge of the map', () => {
+    expect(unproject({ x: TILE_SIZE + 128, y: 128 }, 0).longitude).toBeCloseTo(0);
+  });
+});
+
+describe('fitView', () => {
+  it('centres between the points at the closest zoom that fits them', () => {
+    const { center, zoom } = fitView([eiffelTower, louvre], 400, 300, 18);
+    expect(center.latitude).toBeCloseTo((eiffelTower.latitude + louvre.latitude) / 2, 3);
+    expect(center.longitude).toBeCloseTo((eiffelTower.longitude + louvre.longitude) / 2, 6);
+
+    const span = (level: number) => project(louvre, level).x - project(eiffelTower, level).x;
+    expect(span(zoom)).toBeLessThanOrEqual(400 - 80);
+    expect(span(zoom + 1)).toBeGreaterThan(400 - 80);
+  });
+
+  it('stops at the maximum zoom for a single point, and shows the world for none', () => {
+    expect(fitView([eiffelTower], 400, 300, 16)).toEqual({ center: expect.anything(), zoom: 16 });
+    expect(fitView([], 400, 300, 16)).toEqual({ center: { latitude: 20, longitude: 0 }, zoom: 1 });
+  });
+});
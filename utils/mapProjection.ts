@@ -0,0 +1,67 @@
+import { Coordinates } from '../types';
+
+export const TILE_SIZE = 256;
+// Web Mercator stops here; beyond it the projection runs off to infinity
+const MAX_LATITUDE = 85.05112878;
+
+export interface MapPoint {
+  x: number;
+  y: number;
+}
+
+export interface MapView {
+  center: Coordinates;
+  zoom: number;
+}
+
+/**
+ * Position in pixels on the whole Web Mercator world map at the given zoom
+ */
+export const project = ({ latitude, longitude }: Coordinates, zoom: number): MapPoint => {
+  const size = TILE_SIZE * 2 ** zoom;
+  const sin = Math.sin((Math.max(-MAX_LATITUDE, Math.min(MAX_LATITUDE, latitude)) * Math.PI) / 180);
+  return {
+    x: ((longitude + 180) / 360) * size,
+    y: (0.5 - Math.log((1 + sin) / (1 - sin)) / (4 * Math.PI)) * size,
+  };
+};
+
+export const unproject = ({ x, y }: MapPoint, zoom: number): Coordinates => {
+  const size = TILE_SIZE * 2 ** zoom;
+  const n = Math.PI - (2 * Math.PI * y) / size;
+  return {
+    latitude: (180 / Math.PI) * Math.atan(Math.sinh(n)),
+    // Wrapped, since a map dragged far enough sideways shows the world again
+    longitude: ((((x / size) * 360) % 360) + 360) % 360 - 180,
+  };
+};
+
+/**
+ * The closest view, up to maxZoom, that shows every point inside a viewport of the given size
+ */
+export const fitView = (points: Coordinates[], width: number, height: number, maxZoom: number, padding = 40): MapView => {
+  if (points.length === 0) {
+    return { center: { latitude: 20, longitude: 0 }, zoom: 1 };
+  }
+
+  const latitudes = points.map(point => point.latitude);
+  const longitudes = points.map(point => point.longitude);
+  const northWest = { latitude: Math.max(...latitudes), longitude: Math.min(...longitudes) };
+  const southEast = { latitude: Math.min(...latitudes), longitude: Math.max(...longitudes) };
+  const center = unproject(
+    {
+      x: (project(northWest, 0).x + project(southEast, 0).x) / 2,
+      y: (project(northWest, 0).y + project(southEast, 0).y) / 2,
+    },
+    0,
+  );
+
+  let zoom = maxZoom;
+  while (zoom > 0) {
+    const topLeft = project(northWest, zoom);
+    const bottomRight = project(southEast, zoom);
+    if (bottomRight.x - topLeft.x <= width - 2 * padding && bottomRight.y - topLeft.y <= height - 2 * padding) break;
+    zoom -= 1;
+  }
+  return { center, zoom };
+};
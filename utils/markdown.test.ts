@@ -0,0 +1,155 @@
+import { readFileSync } from 'fs';
+import path from 'path';
+import { describe, expect, it } from 'vitest';
+import { MarkdownBlock, MarkdownInline, SENTENCE_MARKER_SPLIT_PATTERN, isSafeUrl, listSentences, parseMarkdown, stripSentenceMarkers } from './markdown';
+
+const readFixture = (name: string) => readFileSync(path.resolve(__dirname, '__fixtures__', name), 'utf8');
+
+// A guide and a chat answer in Gemini's formatting ("*   " bullets, bold lead-ins, GitHub tables)
+const history = readFixture('gemini-history-eiffel.md');
+const chatAnswer = readFixture('gemini-chat-colosseum.md');
+
+const textOf = (nodes: MarkdownInline[]): string => nodes.map(node => {
+  if (node.type === 'text' || node.type === 'code') return node.text;
+  if (node.type === 'break') return '\n';
+  return textOf(node.children);
+}).join('');
+
+const blocksOf = <T extends MarkdownBlock['type']>(blocks: MarkdownBlock[], type: T) =>
+  blocks.filter((block): block is Extract<MarkdownBlock, { type: T }> => block.type === type);
+
+describe('parseMarkdown with a history guide', () => {
+  const blocks = parseMarkdown(history);
+
+  it('reads the block structure', () => {
+    expect(blocks.map(block => block.type)).toEqual([
+      'heading', 'paragraph',
+      'heading', 'paragraph', 'list', 'paragraph',
+      'heading', 'paragraph', 'list', 'table',
+      'heading', 'paragraph', 'blockquote', 'rule', 'paragraph',
+    ]);
+  });
+
+  it('reads heading levels and text', () => {
+    expect(blocksOf(blocks, 'heading').map(heading => [heading.level, textOf(heading.children)])).toEqual([
+      [1, 'The Eiffel Tower: The Iron Lady of Paris'],
+      [2, 'A Controversial Beginning'],
+      [2, 'Construction by the Numbers'],
+      [2, 'Visiting Today'],
+    ]);
+  });
+
+  it('reads "*   " bullets with bold names', () => {
+    const [bullets] = blocksOf(blocks, 'list');
+    expect(bullets.ordered).toBe(false);
+    expect(bullets.items).toHaveLength(3);
+    expect(bullets.items[0].content[0]).toEqual({ type: 'strong', children: [{ type: 'text', text: 'Guy de Maupassant' }] });
+    expect(textOf(bullets.items[2].content)).toBe('Composer Charles Gounod.');
+  });
+
+  it('nests a bullet list inside a numbered item', () => {
+    const [, steps] = blocksOf(blocks, 'list');
+    expect(steps.ordered).toBe(true);
+    expect(steps.start).toBe(1);
+    expect(steps.items.map(item => textOf(item.content))).toEqual([
+      'Foundations (1887): Work on the four concrete bases started on 28 January 1887.',
+      'The first platform (1888): The legs were joined at 57 metres.',
+      'Completion (March 1889): The tower opened to the public on 15 May 1889.',
+    ]);
+
+    const [nested] = steps.items[1].children;
+    expect(nested.type).toBe('list');
+    expect(nested.type === 'list' && nested.items.map(item => textOf(item.content))).toEqual([
+      'Hydraulic jacks in each foot let the engineers adjust the legs to the millimetre.',
+      'Around 300 workers were on site at any one time.',
+    ]);
+    expect(steps.items[0].children).toEqual([]);
+  });
+
+  it('reads a table with its alignments', () => {
+    const [table] = blocksOf(blocks, 'table');
+    expect(table.alignments).toEqual(['left', 'right']);
+    expect(table.header.map(textOf)).toEqual(['Feature', 'Figure']);
+    expect(table.rows.map(row => row.map(textOf))).toEqual([
+      ['Height', '330 m'],
+      ['Iron parts', '18,038'],
+      ['Rivets', '2.5 million'],
+      ['Paint (every 7 years)', '60 tonnes'],
+    ]);
+  });
+
+  it('keeps the link to the official website', () => {
+    const visiting = blocksOf(blocks, 'paragraph')[4];
+    expect(visiting.children).toContainEqual({
+      type: 'link',
+      href: 'https://www.toureiffel.paris/en',
+      children: [{ type: 'text', text: 'official website' }],
+    });
+  });
+});
+
+describe('parseMarkdown with a chat answer', () => {
+  const blocks = parseMarkdown(chatAnswer);
+
+  it('nests a two-space indented bullet', () => {
+    const [list] = blocksOf(blocks, 'list');
+    expect(list.items).toHaveLength(2);
+    const [nested] = list.items[1].children;
+    expect(nested.type === 'list' && textOf(nested.items[0].content)).toBe('Women and the poor were confined to the upper wooden tiers.');
+  });
+
+  it('drops the title from a link destination', () => {
+    const last = blocks[blocks.length - 1];
+    expect(last.type === 'paragraph' && last.children).toContainEqual({
+      type: 'link',
+      href: 'https://colosseo.it/en/',
+      children: [{ type: 'text', text: 'the Parco archeologico del Colosseo site' }],
+    });
+  });
+});
+
+describe('sentence markers', () => {
+  it('numbers sentences in the same order as listSentences', () => {
+    const blocks = parseMarkdown(chatAnswer, { sentenceMarkers: true });
+    const marked = JSON.stringify(blocks);
+    const indexes = [...marked.matchAll(new RegExp(SENTENCE_MARKER_SPLIT_PATTERN, 'g'))].map(match => Number(match[1]));
+    expect(indexes).toEqual(listSentences(chatAnswer).map((_, index) => index));
+  });
+
+  it('does not change how the markdown is read', () => {
+    // A marker right before an emphasis leaves an empty text node behind, which renders as nothing
+    const strip = (blocks: MarkdownBlock[]) => JSON.parse(stripSentenceMarkers(JSON.stringify(blocks)), (_, value) =>
+      Array.isArray(value) ? value.filter(node => !(node?.type === 'text' && node.text === '')) : value);
+    expect(strip(parseMarkdown(history, { sentenceMarkers: true }))).toEqual(parseMarkdown(history));
+  });
+});
+
+describe('untrusted input', () => {
+  it('keeps raw HTML as literal text', () => {
+    const [paragraph] = parseMarkdown('Built in 1889 <script>alert(1)</script> and <img src=x onerror=alert(1)>.');
+    expect(paragraph).toEqual({
+      type: 'paragraph',
+      children: [{ type: 'text', text: 'Built in 1889 <script>alert(1)</script> and <img src=x onerror=alert(1)>.' }],
+    });
+  });
+
+  it('turns javascript: and data: links into plain text', () => {
+    const [paragraph] = parseMarkdown('[click](javascript:alert(1)) [img](data:text/html;base64,PHNjcmlwdD4=) [ok](https://example.com)');
+    expect(paragraph.type === 'paragraph' && paragraph.children).toEqual([
+      { type: 'text', text: 'click' },
+      { type: 'text', text: ' ' },
+      { type: 'text', text: 'img' },
+      { type: 'text', text: ' ' },
+      { type: 'link', href: 'https://example.com', children: [{ type: 'text', text: 'ok' }] },
+    ]);
+  });
+
+  it('only accepts web and mail URLs', () => {
+    expect(isSafeUrl('https://example.com')).toBe(true);
+    expect(isSafeUrl(' mailto:guide@example.com')).toBe(true);
+    expect(isSafeUrl('JavaScript:alert(1)')).toBe(false);
+    expect(isSafeUrl(' javascript:alert(1)')).toBe(false);
+    expect(isSafeUrl('data:text/html,<script>')).toBe(false);
+    expect(isSafeUrl('//evil.example.com')).toBe(false);
+  });
+});
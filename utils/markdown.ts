@@ -0,0 +1,532 @@
+import { splitTranscriptLine } from './transcript';
+
+export type MarkdownInline =
+  | { type: 'text'; text: string }
+  | { type: 'code'; text: string }
+  | { type: 'strong' | 'emphasis' | 'strikethrough'; children: MarkdownInline[] }
+  // Only links whose URL passed isSafeUrl make it into the tree
+  | { type: 'link'; href: string; children: MarkdownInline[] }
+  | { type: 'break' };
+
+export interface MarkdownListItem {
+  content: MarkdownInline[];
+  // Nested lists and any further paragraphs of the item
+  children: MarkdownBlock[];
+}
+
+export type TableAlignment = 'left' | 'center' | 'right' | null;
+
+export type MarkdownBlock =
+  | { type: 'heading'; level: number; children: MarkdownInline[] }
+  | { type: 'paragraph'; children: MarkdownInline[] }
+  | { type: 'list'; ordered: boolean; start: number; items: MarkdownListItem[] }
+  | { type: 'blockquote'; children: MarkdownBlock[] }
+  | { type: 'code'; language: string; text: string }
+  | { type: 'table'; alignments: TableAlignment[]; header: MarkdownInline[][]; rows: MarkdownInline[][][] }
+  | { type: 'rule' };
+
+interface ParseOptions {
+  // Tag the start of every sentence so the renderer can wrap it for narration highlighting
+  sentenceMarkers?: boolean;
+}
+
+// Sentence markers are private-use characters carrying the sentence's index. They are inserted
+// before parsing so their numbering matches the narration timeline exactly, and every block rule
+// looks through them, so they never change how the markdown is read.
+const SENTENCE_START = '\uE000';
+const SENTENCE_START_END = '\uE001';
+const SENTENCE_MARKER_PATTERN = new RegExp(`${SENTENCE_START}\\d+${SENTENCE_START_END}`, 'g');
+const LEADING_SENTENCE_MARKER = new RegExp(`^${SENTENCE_START}\\d+${SENTENCE_START_END}`);
+// Splitting on this leaves the sentence indexes at the odd positions of the result
+export const SENTENCE_MARKER_SPLIT_PATTERN = new RegExp(`${SENTENCE_START}(\\d+)${SENTENCE_START_END}`);
+
+const SAFE_URL_PATTERN = /^(https?:\/\/|mailto:)/i;
+const ESCAPABLE_CHARACTERS = '\\`*_{}[]()#+-.!|~>';
+
+const FENCE_PATTERN = /^ {0,3}(`{3,}|~{3,})\s*([\w+#-]*)/;
+const HEADING_PATTERN = /^ {0,3}(#{1,6})(?:\s+|$)/;
+const RULE_PATTERN = /^ {0,3}([-*_])(?:\s*\1){2,}\s*$/;
+const BLOCKQUOTE_PATTERN = /^ {0,3}>\s?/;
+const LIST_MARKER_PATTERN = /^(\s*)([*+-]|(\d{1,9})[.)])(\s+|$)/;
+const TABLE_SEPARATOR_PATTERN = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+
+/**
+ * Only web and mail links are rendered; javascript:, data: and everything else become plain text
+ */
+export const isSafeUrl = (url: string): boolean => SAFE_URL_PATTERN.test(url.trim());
+
+export const stripSentenceMarkers = (text: string): string => text.replace(SENTENCE_MARKER_PATTERN, '');
+
+/**
+ * The guide's sentences in narration order, as numbered by sentence spans and the transcript timeline
+ */
+export const listSentences = (markdown: string): string[] => markdown
+  .split('\n')
+  .filter(line => line.trim())
+  .flatMap(line => splitTranscriptLine(line).sentences);
+
+const markSentences = (markdown: string): string => {
+  let sentenceIndex = 0;
+  return markdown
+    .split('\n')
+    .map(line => {
+      if (!line.trim()) return line;
+      const indent = line.match(/^\s*/)?.[0] ?? '';
+      const { prefix, sentences } = splitTranscriptLine(line);
+      const marked = sentences.map(sentence => `${SENTENCE_START}${sentenceIndex++}${SENTENCE_START_END}${sentence}`);
+      return `${indent}${prefix}${marked.join(' ')}`;
+    })
+    .join('\n');
+};
+
+/**
+ * Removes the first `count` visible characters of a line. Sentence markers among them are kept and
+ * moved to the front, so stripping a "## " or "* " prefix never loses a sentence start.
+ */
+const dropVisible = (line: string, count: number): string => {
+  let markers = '';
+  let index = 0;
+  let dropped = 0;
+  while (index < line.length && dropped < count) {
+    const marker = line.slice(index).match(LEADING_SENTENCE_MARKER);
+    if (marker) {
+      markers += marker[0];
+      index += marker[0].length;
+    } else {
+      index += 1;
+      dropped += 1;
+    }
+  }
+  return markers + line.slice(index);
+};
+
+const isBlank = (line: string): boolean => stripSentenceMarkers(line).trim() === '';
+
+const indentOf = (visibleLine: string): number => visibleLine.match(/^\s*/)?.[0].length ?? 0;
+
+const dropIndent = (line: string): string => dropVisible(line, indentOf(stripSentenceMarkers(line)));
+
+interface ListMarker {
+  indent: number;
+  ordered: boolean;
+  start: number;
+  // Columns taken by the indent, the marker and the spaces after it
+  contentOffset: number;
+}
+
+const readListMarker = (visibleLine: string): ListMarker | null => {
+  const match = visibleLine.match(LIST_MARKER_PATTERN);
+  if (!match) return null;
+  return {
+    indent: match[1].length,
+    ordered: match[3] !== undefined,
+    start: match[3] !== undefined ? Number(match[3]) : 1,
+    contentOffset: match[4] ? match[0].length : match[0].length + 1,
+  };
+};
+
+const isTableStart = (lines: string[], index: number): boolean => {
+  if (index + 1 >= lines.length) return false;
+  const header = stripSentenceMarkers(lines[index]);
+  const separator = stripSentenceMarkers(lines[index + 1]);
+  return header.includes('|') && separator.includes('-') && TABLE_SEPARATOR_PATTERN.test(separator);
+};
+
+const startsBlock = (lines: string[], index: number): boolean => {
+  const visibleLine = stripSentenceMarkers(lines[index]);
+  return FENCE_PATTERN.test(visibleLine)
+    || HEADING_PATTERN.test(visibleLine)
+    || RULE_PATTERN.test(visibleLine)
+    || BLOCKQUOTE_PATTERN.test(visibleLine)
+    || readListMarker(visibleLine) !== null
+    || isTableStart(lines, index);
+};
+
+// --- Inline parsing ---
+
+interface InlineMatch {
+  nodes: MarkdownInline[];
+  end: number;
+}
+
+const isWhitespace = (char: string | undefined): boolean => char === undefined || /\s/.test(char);
+const isWordCharacter = (char: string | undefined): boolean => char !== undefined && /[\p{L}\p{N}]/u.test(char);
+
+const DELIMITERS: { token: string; type: 'strong' | 'emphasis' | 'strikethrough' }[] = [
+  { token: '**', type: 'strong' },
+  { token: '__', type: 'strong' },
+  { token: '~~', type: 'strikethrough' },
+  { token: '*', type: 'emphasis' },
+  { token: '_', type: 'emphasis' },
+];
+
+const findClosingDelimiter = (text: string, token: string, from: number): number => {
+  for (let index = from; index < text.length; index++) {
+    // Skip over code spans so "*" inside backticks never closes emphasis
+    if (text[index] === '`') {
+      const close = text.indexOf('`', index + 1);
+      if (close !== -1) index = close;
+      continue;
+    }
+    if (!text.startsWith(token, index)) continue;
+    // A single "*" must not match half of a "**" pair belonging to nested strong text
+    if (token.length === 1 && text[index + 1] === token) {
+      index += 1;
+      continue;
+    }
+    if (isWhitespace(text[index - 1])) continue;
+    if (token[0] === '_' && isWordCharacter(text[index + token.length])) continue;
+
+    // In "***both***" the strong pair closes on the last two stars
+    let close = index;
+    while (text[close + token.length] === token[0]) close += 1;
+    return close;
+  }
+  return -1;
+};
+
+const matchDelimited = (text: string, index: number): InlineMatch | null => {
+  for (const { token, type } of DELIMITERS) {
+    if (!text.startsWith(token, index)) continue;
+    const contentStart = index + token.length;
+    if (isWhitespace(text[contentStart])) return null;
+    // Underscores inside words (snake_case) are literal
+    if (token[0] === '_' && isWordCharacter(text[index - 1])) return null;
+
+    const close = findClosingDelimiter(text, token, contentStart + 1);
+    if (close === -1) continue;
+    return {
+      nodes: [{ type, children: parseInline(text.slice(contentStart, close)) }],
+      end: close + token.length,
+    };
+  }
+  return null;
+};
+
+const findClosingBracket = (text: string, from: number, open: string, close: string): number => {
+  let depth = 0;
+  for (let index = from; index < text.length; index++) {
+    if (text[index] === '\\') {
+      index += 1;
+    } else if (text[index] === open) {
+      depth += 1;
+    } else if (text[index] === close) {
+      if (depth === 0) return index;
+      depth -= 1;
+    }
+  }
+  return -1;
+};
+
+/**
+ * [label](url "title") and ![alt](src). Images are shown as links, so no remote image is ever loaded.
+ */
+const matchLink = (text: string, index: number): InlineMatch | null => {
+  const labelStart = text[index] === '!' ? index + 2 : index + 1;
+  const labelEnd = findClosingBracket(text, labelStart, '[', ']');
+  if (labelEnd === -1 || text[labelEnd + 1] !== '(') return null;
+
+  const destinationEnd = findClosingBracket(text, labelEnd + 2, '(', ')');
+  if (destinationEnd === -1) return null;
+
+  const destination = stripSentenceMarkers(text.slice(labelEnd + 2, destinationEnd)).trim();
+  const href = destination.startsWith('<')
+    ? destination.slice(1, destination.indexOf('>') === -1 ? undefined : destination.indexOf('>'))
+    : destination.split(/\s+/)[0];
+  const label = parseInline(text.slice(labelStart, labelEnd));
+  return {
+    nodes: isSafeUrl(href) ? [{ type: 'link', href: href.trim(), children: label }] : label,
+    end: destinationEnd + 1,
+  };
+};
+
+const parseInline = (text: string): MarkdownInline[] => {
+  const nodes: MarkdownInline[] = [];
+  let buffer = '';
+  const flush = () => {
+    if (buffer) nodes.push({ type: 'text', text: buffer });
+    buffer = '';
+  };
+  const push = (match: InlineMatch) => {
+    flush();
+    nodes.push(...match.nodes);
+  };
+
+  let index = 0;
+  while (index < text.length) {
+    const char = text[index];
+
+    if (char === '\\' && text[index + 1] === '\n') {
+      flush();
+      nodes.push({ type: 'break' });
+      index += 2;
+      continue;
+    }
+    if (char === '\\' && ESCAPABLE_CHARACTERS.includes(text[index + 1] ?? '')) {
+      buffer += text[index + 1];
+      index += 2;
+      continue;
+    }
+
+    // Two trailing spaces make a hard line break; any other newline is just whitespace
+    if (char === '\n') {
+      if (/ {2,}$/.test(buffer)) {
+        buffer = buffer.replace(/ +$/, '');
+        flush();
+        nodes.push({ type: 'break' });
+      } else {
+        buffer = buffer.replace(/ +$/, '') + '\n';
+      }
+      index += 1;
+      continue;
+    }
+
+    if (char === '`') {
+      const run = text.slice(index).match(/^`+/)![0];
+      const close = text.indexOf(run, index + run.length);
+      if (close !== -1) {
+        flush();
+        const code = text.slice(index + run.length, close);
+        nodes.push({ type: 'code', text: code.length > 2 && code.startsWith(' ') && code.endsWith(' ') ? code.slice(1, -1) : code });
+        index = close + run.length;
+      } else {
+        buffer += run;
+        index += run.length;
+      }
+      continue;
+    }
+
+    if (char === '*' || char === '_' || char === '~') {
+      const match = matchDelimited(text, index);
+      if (match) {
+        push(match);
+        index = match.end;
+        continue;
+      }
+    }
+
+    if (char === '[' || (char === '!' && text[index + 1] === '[')) {
+      const match = matchLink(text, index);
+      if (match) {
+        push(match);
+        index = match.end;
+        continue;
+      }
+    }
+
+    if (char === '<') {
+      const autolink = text.slice(index).match(/^<((?:https?:\/\/|mailto:)[^\s<>]+)>/i);
+      if (autolink) {
+        flush();
+        nodes.push({ type: 'link', href: autolink[1], children: [{ type: 'text', text: autolink[1] }] });
+        index += autolink[0].length;
+        continue;
+      }
+    }
+
+    // Anything else, including raw HTML, is kept as literal text and escaped by the renderer
+    buffer += char;
+    index += 1;
+  }
+
+  flush();
+  return nodes;
+};
+
+// --- Block parsing ---
+
+interface BlockMatch {
+  block: MarkdownBlock;
+  next: number;
+}
+
+const parseFence = (lines: string[], start: number): BlockMatch => {
+  const [, fence, language] = stripSentenceMarkers(lines[start]).match(FENCE_PATTERN)!;
+  const code: string[] = [];
+  let index = start + 1;
+  while (index < lines.length) {
+    const visibleLine = stripSentenceMarkers(lines[index]);
+    if (visibleLine.trim().startsWith(fence[0].repeat(fence.length))) {
+      index += 1;
+      break;
+    }
+    code.push(visibleLine);
+    index += 1;
+  }
+  return { block: { type: 'code', language, text: code.join('\n') }, next: index };
+};
+
+const parseBlockquote = (lines: string[], start: number): BlockMatch => {
+  const quoted: string[] = [];
+  let index = start;
+  while (index < lines.length) {
+    const visibleLine = stripSentenceMarkers(lines[index]);
+    const prefix = visibleLine.match(BLOCKQUOTE_PATTERN);
+    if (prefix) {
+      quoted.push(dropVisible(lines[index], prefix[0].length));
+    } else if (!isBlank(lines[index]) && quoted.length > 0 && !isBlank(quoted[quoted.length - 1]) && !startsBlock(lines, index)) {
+      // Lazy continuation of a quoted paragraph
+      quoted.push(lines[index]);
+    } else {
+      break;
+    }
+    index += 1;
+  }
+  return { block: { type: 'blockquote', children: parseBlocks(quoted) }, next: index };
+};
+
+const splitTableRow = (line: string): string[] => {
+  let row = line.trim();
+  const visibleRow = stripSentenceMarkers(row);
+  if (visibleRow.startsWith('|')) row = dropVisible(row, 1);
+  if (visibleRow.endsWith('|')) row = row.replace(/\|\s*$/, '');
+  return row.split(/(?<!\\)\|/).map(cell => dropIndent(cell).trimEnd());
+};
+
+const readAlignment = (cell: string): TableAlignment => {
+  const left = cell.startsWith(':');
+  const right = cell.endsWith(':');
+  if (left && right) return 'center';
+  if (right) return 'right';
+  return left ? 'left' : null;
+};
+
+const parseTable = (lines: string[], start: number): BlockMatch => {
+  const header = splitTableRow(lines[start]);
+  const alignments = splitTableRow(stripSentenceMarkers(lines[start + 1])).map(readAlignment);
+  const rows: MarkdownInline[][][] = [];
+  let index = start + 2;
+  while (index < lines.length && !isBlank(lines[index]) && stripSentenceMarkers(lines[index]).includes('|')) {
+    const cells = splitTableRow(lines[index]);
+    // Rows are padded or cut to the header's width, as GitHub does
+    rows.push(header.map((_, column) => parseInline(cells[column] ?? '')));
+    index += 1;
+  }
+  return {
+    block: {
+      type: 'table',
+      alignments: header.map((_, column) => alignments[column] ?? null),
+      header: header.map(cell => parseInline(cell)),
+      rows,
+    },
+    next: index,
+  };
+};
+
+const parseList = (lines: string[], start: number): BlockMatch => {
+  const first = readListMarker(stripSentenceMarkers(lines[start]))!;
+  const itemBodies: string[][] = [];
+  let contentIndent = first.contentOffset;
+  let index = start;
+
+  while (index < lines.length) {
+    const visibleLine = stripSentenceMarkers(lines[index]);
+    const marker = readListMarker(visibleLine);
+    const current = itemBodies[itemBodies.length - 1];
+
+    // Sibling items may be indented a column or two differently from the first one
+    if (marker && marker.indent < contentIndent && Math.abs(marker.indent - first.indent) <= 1) {
+      if (marker.ordered !== first.ordered) break;
+      contentIndent = marker.contentOffset;
+      itemBodies.push([dropVisible(lines[index], marker.contentOffset)]);
+      index += 1;
+      continue;
+    }
+
+    if (isBlank(lines[index])) {
+      // A blank line only stays inside the list if more of it follows
+      let next = index + 1;
+      while (next < lines.length && isBlank(lines[next])) next += 1;
+      if (next >= lines.length) break;
+      const nextVisible = stripSentenceMarkers(lines[next]);
+      const nextMarker = readListMarker(nextVisible);
+      const continuesItem = indentOf(nextVisible) >= contentIndent;
+      const isSibling = nextMarker !== null && Math.abs(nextMarker.indent - first.indent) <= 1
+        && nextMarker.ordered === first.ordered;
+      if (!continuesItem && !isSibling) break;
+      current.push('');
+      index += 1;
+      continue;
+    }
+
+    const indent = indentOf(visibleLine);
+    if (indent >= contentIndent || (marker && marker.indent > first.indent)) {
+      current.push(dropVisible(lines[index], Math.min(indent, contentIndent)));
+      index += 1;
+      continue;
+    }
+
+    // Lazy continuation: an unindented line right after item text still belongs to it
+    if (!isBlank(current[current.length - 1]) && !startsBlock(lines, index)) {
+      current.push(dropVisible(lines[index], indent));
+      index += 1;
+      continue;
+    }
+    break;
+  }
+
+  const items = itemBodies.map((body): MarkdownListItem => {
+    const blocks = parseBlocks(body);
+    const [lead, ...rest] = blocks;
+    return lead?.type === 'paragraph'
+      ? { content: lead.children, children: rest }
+      : { content: [], children: blocks };
+  });
+  return { block: { type: 'list', ordered: first.ordered, start: first.start, items }, next: index };
+};
+
+const parseParagraph = (lines: string[], start: number): BlockMatch => {
+  const paragraph = [dropIndent(lines[start])];
+  let index = start + 1;
+  while (index < lines.length && !isBlank(lines[index]) && !startsBlock(lines, index)) {
+    paragraph.push(dropIndent(lines[index]));
+    index += 1;
+  }
+  return { block: { type: 'paragraph', children: parseInline(paragraph.join('\n')) }, next: index };
+};
+
+const parseBlocks = (lines: string[]): MarkdownBlock[] => {
+  const blocks: MarkdownBlock[] = [];
+  let index = 0;
+
+  while (index < lines.length) {
+    if (isBlank(lines[index])) {
+      index += 1;
+      continue;
+    }
+
+    const visibleLine = stripSentenceMarkers(lines[index]);
+    let match: BlockMatch;
+    if (FENCE_PATTERN.test(visibleLine)) {
+      match = parseFence(lines, index);
+    } else if (HEADING_PATTERN.test(visibleLine)) {
+      const [prefix, hashes] = visibleLine.match(HEADING_PATTERN)!;
+      const text = dropVisible(lines[index], prefix.length).replace(/\s+#+\s*$/, '').trim();
+      match = { block: { type: 'heading', level: hashes.length, children: parseInline(text) }, next: index + 1 };
+    } else if (RULE_PATTERN.test(visibleLine)) {
+      match = { block: { type: 'rule' }, next: index + 1 };
+    } else if (BLOCKQUOTE_PATTERN.test(visibleLine)) {
+      match = parseBlockquote(lines, index);
+    } else if (readListMarker(visibleLine)) {
+      match = parseList(lines, index);
+    } else if (isTableStart(lines, index)) {
+      match = parseTable(lines, index);
+    } else {
+      match = parseParagraph(lines, index);
+    }
+
+    blocks.push(match.block);
+    index = match.next;
+  }
+  return blocks;
+};
+
+/**
+ * Parses the CommonMark subset Gemini writes (headings, paragraphs, nested lists, emphasis, links,
+ * code, quotes, rules and GitHub tables) into a tree. Raw HTML is never interpreted.
+ */
+export const parseMarkdown = (markdown: string, { sentenceMarkers = false }: ParseOptions = {}): MarkdownBlock[] => {
+  const normalized = markdown.replace(/\r\n?/g, '\n').replace(/\t/g, '    ');
+  const source = sentenceMarkers ? markSentences(normalized) : normalized;
+  return parseBlocks(source.split('\n'));
+};
@@ -0,0 +1,70 @@
+// Short blocks (headings, one-liners) are merged forward so each TTS call has enough to say
+const MIN_SEGMENT_LENGTH = 120;
+
+/**
+ * Splits the guide markdown into paragraph-sized narration segments.
+ * While the text is still streaming (isComplete = false) only segments that can no longer
+ * change are returned, so the result only ever grows as more text arrives.
+ */
+export const splitIntoNarrationSegments = (markdown: string, isComplete = true): string[] => {
+  const stableText = isComplete ? markdown : markdown.slice(0, markdown.lastIndexOf('\n\n') + 1);
+  const paragraphs = stableText
+    .split(/\n\s*\n/)
+    .map(paragraph => paragraph.trim())
+    .filter(paragraph => paragraph.length > 0);
+
+  const segments: string[] = [];
+  let current = '';
+  for (const paragraph of paragraphs) {
+    current = current ? `${current}\n\n${paragraph}` : paragraph;
+    if (current.length >= MIN_SEGMENT_LENGTH) {
+      segments.push(current);
+      current = '';
+    }
+  }
+  if (isComplete && current) {
+    segments.push(current);
+  }
+  return segments;
+};
+
+export interface NarrationQueue {
+  // Queues any segments beyond those already seen; pass the full segment list each time
+  update: (segments: string[]) => void;
+  // Resolves once every queued segment is narrated, rejecting with the first failure
+  finish: () => Promise<void>;
+}
+
+/**
+ * Narrates segments one at a time, in order, handing each audio chunk to onChunk as soon as it is ready
+ */
+export const createNarrationQueue = (
+  narrate: (text: string) => Promise<string>,
+  onChunk: (audioChunk: string) => void,
+): NarrationQueue => {
+  let queuedCount = 0;
+  let tail = Promise.resolve();
+  let failure: unknown = null;
+
+  return {
+    update: (segments: string[]) => {
+      for (const segment of segments.slice(queuedCount)) {
+        tail = tail.then(async () => {
+          if (failure) return;
+          try {
+            onChunk(await narrate(segment));
+          } catch (error) {
+            failure = error;
+          }
+        });
+      }
+      queuedCount = Math.max(queuedCount, segments.length);
+    },
+    finish: async () => {
+      await tail;
+      if (failure) {
+        throw failure;
+      }
+    },
+  };
+};
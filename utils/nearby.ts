@@ -0,0 +1,121 @@
+import { Coordinates, NearbyPlace } from '../types';
+
+export const MAX_NEARBY_PLACES = 6;
+// About twenty minutes on foot
+export const MAX_WALKING_DISTANCE_METERS = 1500;
+
+const EARTH_RADIUS_METERS = 6_371_000;
+
+/**
+ * Raised when the model's list of nearby places is malformed
+ */
+export class NearbyPlacesParseError extends Error {
+  constructor(detail: string) {
+    super(`Could not read the nearby places: ${detail}`);
+    this.name = 'NearbyPlacesParseError';
+  }
+}
+
+const toRadians = (degrees: number): number => (degrees * Math.PI) / 180;
+
+/**
+ * Straight-line (great-circle) distance between two points, in meters
+ */
+export const distanceInMeters = (from: Coordinates, to: Coordinates): number => {
+  const dLatitude = toRadians(to.latitude - from.latitude);
+  const dLongitude = toRadians(to.longitude - from.longitude);
+  const a = Math.sin(dLatitude / 2) ** 2
+    + Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(dLongitude / 2) ** 2;
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.sqrt(a));
+};
+
+/**
+ * Short display form, e.g. "350 m" or "1.2 km"
+ */
+export const formatDistance = (meters: number): string => {
+  if (meters < 1000) {
+    return `${Math.max(10, Math.round(meters / 10) * 10)} m`;
+  }
+  return `${(meters / 1000).toFixed(1)} km`;
+};
+
+const readCoordinates = (value: unknown): Coordinates | null => {
+  if (typeof value !== 'object' || value === null) return null;
+  const { latitude, longitude } = value as Record<string, unknown>;
+  if (
+    typeof latitude !== 'number' || Math.abs(latitude) > 90 ||
+    typeof longitude !== 'number' || Math.abs(longitude) > 180
+  ) {
+    return null;
+  }
+  return { latitude, longitude };
+};
+
+const readPlace = (source: unknown, index: number, origin: Coordinates | null): NearbyPlace | null => {
+  if (typeof source !== 'object' || source === null || Array.isArray(source)) {
+    throw new NearbyPlacesParseError(`item ${index} must be an object.`);
+  }
+  const { name, hook, distanceMeters } = source as Record<string, unknown>;
+  if (typeof name !== 'string' || typeof hook !== 'string') {
+    throw new NearbyPlacesParseError(`item ${index} must have a "name" and a "hook".`);
+  }
+  if (name.trim().length === 0) return null;
+
+  const coordinates = readCoordinates((source as Record<string, unknown>).coordinates);
+  // The model's own distances are rough guesses; measure them when both positions are known
+  const distance = origin && coordinates
+    ? distanceInMeters(origin, coordinates)
+    : typeof distanceMeters === 'number' && distanceMeters >= 0 ? distanceMeters : null;
+  if (distance === null) {
+    throw new NearbyPlacesParseError(`item ${index} must have a "distanceMeters" number.`);
+  }
+  return { name: name.trim(), hook: hook.trim(), distanceMeters: Math.round(distance), coordinates };
+};
+
+/**
+ * Parses the JSON list the model is asked for. Grounded answers cannot use a response schema, so
+ * the list may come wrapped in a markdown code fence or a sentence of text.
+ */
+export const parseNearbyPlaces = (raw: string, origin: Coordinates | null = null): NearbyPlace[] => {
+  const start = raw.indexOf('[');
+  const end = raw.lastIndexOf(']');
+  if (start === -1 || end < start) {
+    throw new NearbyPlacesParseError('the response did not contain a list.');
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw.slice(start, end + 1));
+  } catch {
+    throw new NearbyPlacesParseError('the response was not valid JSON.');
+  }
+  if (!Array.isArray(parsed)) {
+    throw new NearbyPlacesParseError('the response must be a list.');
+  }
+
+  return parsed
+    .map((item, index) => readPlace(item, index, origin))
+    .filter((place): place is NearbyPlace => place !== null)
+    .sort((a, b) => a.distanceMeters - b.distanceMeters)
+    .slice(0, MAX_NEARBY_PLACES);
+};
+
+/**
+ * Orders stops greedily, always walking to the closest remaining one. Stops without coordinates
+ * keep their relative order at the end.
+ */
+export const orderByNearestNext = <T extends { coordinates: Coordinates | null }>(start: T, stops: T[]): T[] => {
+  const remaining = stops.filter(stop => stop.coordinates);
+  const route: T[] = [];
+  let current = start.coordinates;
+  while (current && remaining.length > 0) {
+    const from: Coordinates = current;
+    const closest = remaining.reduce((best, stop) =>
+      distanceInMeters(from, stop.coordinates!) < distanceInMeters(from, best.coordinates!) ? stop : best
+    );
+    route.push(closest);
+    remaining.splice(remaining.indexOf(closest), 1);
+    current = closest.coordinates;
+  }
+  return [...route, ...remaining, ...stops.filter(stop => !stop.coordinates)];
+};
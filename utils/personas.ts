@@ -0,0 +1,144 @@
+import { GuideSettings } from '../types';
+import { getLanguage } from './languages';
+
+export interface TourPersona {
+  id: string;
+  label: string;
+  // One line shown in the settings panel
+  description: string;
+  // What the guide concentrates on; completes "Tell me about <landmark>, focusing on ..."
+  focus: string;
+  // Who the guide is written for; completes "Write for ..."
+  readingLevel: string;
+  // Rough length of the guide; narration runs at about 150 words a minute
+  targetWords: number;
+  // Delivery instruction prepended to the text sent to Gemini TTS
+  speakingStyle: string;
+  // Prebuilt Gemini TTS voice; the guide language's voice when omitted
+  voice?: string;
+  // Read aloud by the voice preview
+  sampleLine: string;
+}
+
+// Adding a persona only takes a new entry here; the server builds its prompts from these fields
+export const PERSONAS: TourPersona[] = [
+  {
+    id: 'classic',
+    label: 'Classic guide',
+    description: 'History and interesting facts, like a friendly tour guide.',
+    focus: 'its history and some interesting facts',
+    readingLevel: 'a general audience',
+    targetWords: 450,
+    speakingStyle: 'Read this like a friendly, knowledgeable tour guide',
+    sampleLine: 'Welcome! Let me tell you the story of the place in front of you.',
+  },
+  {
+    id: 'kids',
+    label: 'Kid-friendly',
+    description: 'Fun facts and simple words for young explorers.',
+    focus: 'fun facts, surprising stories and comparisons a child can picture',
+    readingLevel: 'children aged 6 to 10, using short sentences and simple words',
+    targetWords: 250,
+    speakingStyle: 'Read this in a cheerful, playful and excited voice for children',
+    voice: 'Leda',
+    sampleLine: 'Hi, explorers! Are you ready to discover some amazing secrets?',
+  },
+  {
+    id: 'architecture',
+    label: 'Architecture buff',
+    description: 'Style, materials, construction and details worth a closer look.',
+    focus: 'its architecture: the style, the architects, materials and building techniques, and details to look out for',
+    readingLevel: 'an adult interested in architecture, using the correct technical terms',
+    targetWords: 500,
+    speakingStyle: 'Read this in a calm, precise and appreciative tone',
+    voice: 'Charon',
+    sampleLine: 'Look closely at the facade, and notice how the proportions guide your eye upward.',
+  },
+  {
+    id: 'quick',
+    label: 'Quick 60-second summary',
+    description: 'Only the essentials, in about a minute of narration.',
+    focus: 'only the essentials: what it is, when and why it was built, and one memorable fact',
+    readingLevel: 'a general audience',
+    targetWords: 150,
+    speakingStyle: 'Read this briskly and clearly',
+    voice: 'Puck',
+    sampleLine: 'Here is everything you need to know, in about a minute.',
+  },
+  {
+    id: 'deep-history',
+    label: 'Deep history',
+    description: 'A detailed story from its origins to today.',
+    focus: 'a detailed chronological history: its origins, the people involved, key events over the centuries and how it changed',
+    readingLevel: 'an adult history enthusiast',
+    targetWords: 900,
+    speakingStyle: 'Read this in a measured, storytelling tone',
+    voice: 'Gacrux',
+    sampleLine: 'Our story begins many centuries ago, long before the first stone was laid.',
+  },
+];
+
+export const DEFAULT_PERSONA = PERSONAS[0].id;
+
+export interface VoiceOption {
+  name: string;
+  // Gemini's one-word description of the voice
+  character: string;
+}
+
+// A selection of Gemini TTS prebuilt voices; all of them can speak every supported language
+export const VOICES: VoiceOption[] = [
+  { name: 'Kore', character: 'Firm' },
+  { name: 'Puck', character: 'Upbeat' },
+  { name: 'Charon', character: 'Informative' },
+  { name: 'Leda', character: 'Youthful' },
+  { name: 'Aoede', character: 'Breezy' },
+  { name: 'Zephyr', character: 'Bright' },
+  { name: 'Fenrir', character: 'Excitable' },
+  { name: 'Orus', character: 'Firm' },
+  { name: 'Gacrux', character: 'Mature' },
+  { name: 'Sulafat', character: 'Warm' },
+  { name: 'Achird', character: 'Friendly' },
+  { name: 'Sadaltager', character: 'Knowledgeable' },
+];
+
+export const DEFAULT_GUIDE_SETTINGS: GuideSettings = {
+  persona: DEFAULT_PERSONA,
+  voice: null,
+};
+
+const GUIDE_SETTINGS_STORAGE_KEY = 'photo-tour-guide:guide-settings';
+
+export const findPersona = (id: string): TourPersona | undefined => PERSONAS.find(persona => persona.id === id);
+
+export const getPersona = (id: string): TourPersona => findPersona(id) ?? PERSONAS[0];
+
+/**
+ * The voice a guide is read in: the user's choice, else the persona's, else the language's
+ */
+export const resolveVoice = ({ persona, voice }: GuideSettings, languageCode: string): string => {
+  return voice ?? getPersona(persona).voice ?? getLanguage(languageCode).voice;
+};
+
+/**
+ * Reads the remembered persona and voice, dropping any that no longer exist
+ */
+export const loadGuideSettings = (): GuideSettings => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(GUIDE_SETTINGS_STORAGE_KEY) ?? '{}') as Partial<GuideSettings>;
+    return {
+      persona: typeof stored.persona === 'string' && findPersona(stored.persona) ? stored.persona : DEFAULT_PERSONA,
+      voice: VOICES.some(voice => voice.name === stored.voice) ? stored.voice! : null,
+    };
+  } catch {
+    return DEFAULT_GUIDE_SETTINGS;
+  }
+};
+
+export const saveGuideSettings = (settings: GuideSettings) => {
+  try {
+    localStorage.setItem(GUIDE_SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+  } catch {
+    // Storage can be unavailable (private mode); the choice just won't be remembered
+  }
+};
@@ -0,0 +1,110 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { PhotoSettings } from '../types';
+import { DEFAULT_PHOTO_SETTINGS, preparePhoto, toPhotoContext } from './photoPreparation';
+
+const ascii = (text: string) => [...text].map(char => char.charCodeAt(0));
+const uint16 = (value: number) => [value >> 8, value & 0xff];
+const uint32 = (value: number) => [value >>> 24, (value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff];
+const uint32le = (value: number) => uint32(value).reverse();
+
+// A big-endian TIFF block whose GPS IFD places the photo at 48°51'30"N 2°17'40"E
+const gpsTiff = () => [
+  ...ascii('MM'), ...uint16(42), ...uint32(8),
+  // IFD0: a pointer to the GPS IFD
+  ...uint16(1), ...uint16(0x8825), ...uint16(4), ...uint32(1), ...uint32(26), ...uint32(0),
+  // GPS IFD: latitude and longitude with their references
+  ...uint16(4),
+  ...uint16(1), ...uint16(2), ...uint32(2), ...ascii('N\0\0\0'),
+  ...uint16(2), ...uint16(5), ...uint32(3), ...uint32(80),
+  ...uint16(3), ...uint16(2), ...uint32(2), ...ascii('E\0\0\0'),
+  ...uint16(4), ...uint16(5), ...uint32(3), ...uint32(104),
+  ...uint32(0),
+  ...[48, 51, 30, 2, 17, 40].flatMap(value => [...uint32(value), ...uint32(1)]),
+];
+
+// A TIFF block with only an orientation tag, as written by some editors ahead of the camera's own block
+const plainTiff = () => [
+  ...ascii('MM'), ...uint16(42), ...uint32(8),
+  ...uint16(1), ...uint16(0x0112), ...uint16(3), ...uint32(1), ...uint16(1), 0, 0, ...uint32(0),
+];
+
+const xmpPacket = () => ascii(
+  '<x:xmpmeta xmlns:x="adobe:ns:meta/"><rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">'
+  + '<rdf:Description xmlns:exif="http://ns.adobe.com/exif/1.0/" exif:GPSLatitude="48,51.5N" exif:GPSLongitude="2,17.67E"/>'
+  + '</rdf:RDF></x:xmpmeta>'
+);
+
+const jpegSegment = (marker: number, data: number[]) => [0xff, marker, ...uint16(data.length + 2), ...data];
+const jpeg = (...segments: number[][]) => [0xff, 0xd8, ...segments.flat(), 0xff, 0xda, 0, 2, 0xff, 0xd9];
+const exifSegment = (tiff: number[]) => jpegSegment(0xe1, [...ascii('Exif\0\0'), ...tiff]);
+const xmpSegment = () => jpegSegment(0xe1, [...ascii('http://ns.adobe.com/xap/1.0/\0'), ...xmpPacket()]);
+// Photoshop image resources, here carrying an XMP copy (resource 0x0424)
+const photoshopSegment = () => {
+  const xmp = xmpPacket();
+  return jpegSegment(0xed, [
+    ...ascii('Photoshop 3.0\0'), ...ascii('8BIM'), ...uint16(0x0424), 0, 0, ...uint32(xmp.length), ...xmp, ...(xmp.length % 2 ? [0] : []),
+  ]);
+};
+
+// Chunk CRCs are left at zero; nothing here checks them
+const pngChunk = (type: string, data: number[]) => [...uint32(data.length), ...ascii(type), ...data, 0, 0, 0, 0];
+const png = (...chunks: number[][]) => [
+  0x89, ...ascii('PNG\r\n\x1a\n'),
+  ...pngChunk('IHDR', [...uint32(800), ...uint32(600), 8, 2, 0, 0, 0]),
+  ...chunks.flat(),
+  ...pngChunk('IEND', []),
+];
+
+const webpChunk = (type: string, data: number[]) => [...ascii(type), ...uint32le(data.length), ...data, ...(data.length % 2 ? [0] : [])];
+const webp = (...chunks: number[][]) => {
+  const body = [...ascii('WEBP'), ...webpChunk('VP8 ', [0, 0, 0, 0x9d, 0x01, 0x2a, 0x20, 0x03, 0x58, 0x02]), ...chunks.flat()];
+  return [...ascii('RIFF'), ...uint32le(body.length), ...body];
+};
+
+const photoFile = (bytes: number[], name: string, type: string) => new File([new Uint8Array(bytes)], name, { type });
+
+// Larger than every photo here, so keeping the original would always have been tempting
+const ENCODED = new Uint8Array(4096).fill(0x42);
+
+const withoutLocation: PhotoSettings = { ...DEFAULT_PHOTO_SETTINGS, shareLocation: false };
+
+const readLatin1 = async (file: Blob) => Buffer.from(await file.arrayBuffer()).toString('latin1');
+
+beforeEach(() => {
+  vi.stubGlobal('createImageBitmap', vi.fn(async () => ({ width: 800, height: 600, close: () => {} })));
+  vi.stubGlobal('document', {
+    createElement: () => ({
+      getContext: () => ({ drawImage: () => {} }),
+      toBlob: (callback: (blob: Blob) => void) => callback(new Blob([ENCODED])),
+    }),
+  });
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('preparePhoto without location sharing', () => {
+  it.each([
+    ['a JPEG Exif segment', photoFile(jpeg(exifSegment(gpsTiff())), 'tower.jpg', 'image/jpeg')],
+    ['a second JPEG Exif segment', photoFile(jpeg(exifSegment(plainTiff()), exifSegment(gpsTiff())), 'tower.jpg', 'image/jpeg')],
+    ['a JPEG XMP packet', photoFile(jpeg(xmpSegment()), 'tower.jpg', 'image/jpeg')],
+    ['a JPEG Photoshop segment', photoFile(jpeg(photoshopSegment()), 'tower.jpg', 'image/jpeg')],
+    ['a WebP EXIF chunk', photoFile(webp(webpChunk('EXIF', gpsTiff())), 'tower.webp', 'image/webp')],
+    ['a WebP XMP chunk', photoFile(webp(webpChunk('XMP ', xmpPacket())), 'tower.webp', 'image/webp')],
+    ['a PNG eXIf chunk', photoFile(png(pngChunk('eXIf', gpsTiff())), 'tower.png', 'image/png')],
+    ['a PNG iTXt XMP chunk', photoFile(png(pngChunk('iTXt', [...ascii('XML:com.adobe.xmp\0\0\0\0\0'), ...xmpPacket()])), 'tower.png', 'image/png')],
+  ])('sends the re-encoded copy instead of GPS tags in %s', async (_, file) => {
+    const prepared = await preparePhoto(file, withoutLocation);
+
+    expect(toPhotoContext(prepared.metadata).coordinates).toBeNull();
+    expect(new Uint8Array(await prepared.file.arrayBuffer())).toEqual(ENCODED);
+    expect(await readLatin1(prepared.file)).not.toContain('GPS');
+  });
+
+  it('keeps a small original as it is when the location may be shared', async () => {
+    const file = photoFile(png(pngChunk('eXIf', gpsTiff())), 'tower.png', 'image/png');
+    const prepared = await preparePhoto(file, DEFAULT_PHOTO_SETTINGS);
+    expect(prepared.file).toBe(file);
+  });
+});
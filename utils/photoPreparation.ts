@@ -0,0 +1,194 @@
+import { PhotoContext, PhotoMetadata, PhotoSettings } from '../types';
+import { readPhotoMetadata } from './exif';
+import { ImageDimensions, readImageDimensions } from './imageDimensions';
+
+export interface PreparedPhoto {
+  // The image that is displayed, saved and sent for identification
+  file: File;
+  // Location is null when the user chose not to share it
+  metadata: PhotoMetadata;
+  originalBytes: number;
+}
+
+/**
+ * Raised for files that cannot be turned into an uploadable photo; the message is shown to the user
+ */
+export class PhotoPreparationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PhotoPreparationError';
+  }
+}
+
+// Anything larger is almost certainly not a single photo, and would exhaust memory while decoding
+export const MAX_INPUT_BYTES = 50 * 1024 * 1024;
+// Decoded size limit (about 100 megapixels) so a small but huge-dimension file can't freeze the tab.
+// It is checked against the file header before decoding; only photos whose header can't be read
+// are checked after decoding, which then just spares the canvas work.
+const MAX_INPUT_PIXELS = 100_000_000;
+
+export const MAX_DIMENSION_OPTIONS = [1024, 1600, 2048, 3072];
+
+export const DEFAULT_PHOTO_SETTINGS: PhotoSettings = {
+  shareLocation: true,
+  // Gemini tiles images at 768px, so larger photos cost more tokens without helping recognition
+  maxDimension: 1600,
+  format: 'image/jpeg',
+  quality: 0.85,
+};
+
+const PHOTO_SETTINGS_STORAGE_KEY = 'photo-tour-guide:photo-settings';
+
+// Formats sent to Gemini as they are when re-encoding would not make them smaller
+const PASSTHROUGH_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+
+const isHeic = (file: File): boolean => /^image\/hei[cf]/.test(file.type) || /\.hei[cf]$/i.test(file.name);
+
+/**
+ * Whether a file looks like a photo we can prepare; HEIC files often arrive without a MIME type
+ */
+export const isImageFile = (file: File): boolean => file.type.startsWith('image/') || isHeic(file);
+
+export const formatByteSize = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+const assertPixelLimit = (file: File, { width, height }: ImageDimensions) => {
+  if (width * height > MAX_INPUT_PIXELS) {
+    throw new PhotoPreparationError(`"${file.name}" is ${width}×${height} pixels, which is too large to process.`);
+  }
+};
+
+const decodeImage = async (file: File): Promise<ImageBitmap> => {
+  try {
+    return await createImageBitmap(file);
+  } catch {
+    // Safari decodes HEIC natively; elsewhere it is converted with libheif, loaded only when needed
+    if (!isHeic(file)) {
+      throw new PhotoPreparationError(`"${file.name}" could not be read as an image. The file may be corrupt.`);
+    }
+  }
+
+  try {
+    const { default: heic2any } = await import('heic2any');
+    const converted = await heic2any({ blob: file, toType: 'image/jpeg', quality: 0.95 });
+    return await createImageBitmap(Array.isArray(converted) ? converted[0] : converted);
+  } catch (error) {
+    console.error('HEIC conversion failed:', error);
+    throw new PhotoPreparationError(`"${file.name}" could not be converted from HEIC. The file may be corrupt.`);
+  }
+};
+
+/**
+ * Draws the bitmap scaled down to fit maxDimension and encodes it. Browsers apply the EXIF orientation
+ * when decoding, so the result is upright; canvas output never carries EXIF, so no location survives.
+ */
+const encodeImage = async (bitmap: ImageBitmap, settings: PhotoSettings): Promise<Blob> => {
+  const scale = Math.min(1, settings.maxDimension / Math.max(bitmap.width, bitmap.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(bitmap.width * scale);
+  canvas.height = Math.round(bitmap.height * scale);
+  canvas.getContext('2d')?.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      blob => (blob ? resolve(blob) : reject(new PhotoPreparationError('The photo could not be re-encoded.'))),
+      settings.format,
+      settings.quality,
+    );
+  });
+};
+
+const toExtension = (type: string): string => (type === 'image/webp' ? 'webp' : 'jpg');
+
+/**
+ * Decodes the photo (including HEIC), downscales and re-encodes it, and reads its EXIF position and date.
+ * The original bytes are kept only when they are already small, upright and in a format Gemini accepts,
+ * and only when the user agreed to share the photo's location.
+ */
+export const preparePhoto = async (file: File, settings: PhotoSettings): Promise<PreparedPhoto> => {
+  if (file.size > MAX_INPUT_BYTES) {
+    throw new PhotoPreparationError(
+      `"${file.name}" is ${formatByteSize(file.size)}; photos can be at most ${formatByteSize(MAX_INPUT_BYTES)}.`
+    );
+  }
+  if (!isImageFile(file)) {
+    throw new PhotoPreparationError(`"${file.name}" is not a supported image. Use a JPG, PNG, WEBP or HEIC photo.`);
+  }
+
+  const dimensions = await readImageDimensions(file);
+  if (dimensions) {
+    assertPixelLimit(file, dimensions);
+  }
+
+  const exif = await readPhotoMetadata(file);
+  const metadata = settings.shareLocation ? exif : { ...exif, coordinates: null };
+  const bitmap = await decodeImage(file);
+
+  try {
+    assertPixelLimit(file, bitmap);
+
+    const fitsAlready = Math.max(bitmap.width, bitmap.height) <= settings.maxDimension;
+    const encoded = await encodeImage(bitmap, settings);
+    // Location can hide in more places than EXIF (XMP, PNG eXIf), so without consent only the
+    // re-encoded copy, which carries no metadata at all, leaves the device
+    const canKeepOriginal = settings.shareLocation
+      && fitsAlready
+      && exif.orientation === 1
+      && PASSTHROUGH_TYPES.includes(file.type);
+    if (canKeepOriginal && encoded.size >= file.size) {
+      return { file, metadata, originalBytes: file.size };
+    }
+
+    const name = `${file.name.replace(/\.\w+$/, '')}.${toExtension(settings.format)}`;
+    return {
+      file: new File([encoded], name, { type: settings.format, lastModified: file.lastModified }),
+      metadata,
+      originalBytes: file.size,
+    };
+  } finally {
+    bitmap.close();
+  }
+};
+
+/**
+ * Wraps an image that needs no preparation, such as one reopened from history
+ */
+export const toPreparedPhoto = (file: File): PreparedPhoto => ({
+  file,
+  metadata: { coordinates: null, capturedAt: null, orientation: 1 },
+  originalBytes: file.size,
+});
+
+export const toPhotoContext = ({ coordinates, capturedAt }: PhotoMetadata): PhotoContext => ({ coordinates, capturedAt });
+
+/**
+ * Reads the remembered photo settings, filling anything missing or invalid with the defaults
+ */
+export const loadPhotoSettings = (): PhotoSettings => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(PHOTO_SETTINGS_STORAGE_KEY) ?? '{}') as Partial<PhotoSettings>;
+    return {
+      shareLocation: typeof stored.shareLocation === 'boolean' ? stored.shareLocation : DEFAULT_PHOTO_SETTINGS.shareLocation,
+      maxDimension: MAX_DIMENSION_OPTIONS.includes(stored.maxDimension ?? 0)
+        ? stored.maxDimension!
+        : DEFAULT_PHOTO_SETTINGS.maxDimension,
+      format: stored.format === 'image/webp' ? 'image/webp' : 'image/jpeg',
+      quality: typeof stored.quality === 'number' && stored.quality > 0 && stored.quality <= 1
+        ? stored.quality
+        : DEFAULT_PHOTO_SETTINGS.quality,
+    };
+  } catch {
+    return DEFAULT_PHOTO_SETTINGS;
+  }
+};
+
+export const savePhotoSettings = (settings: PhotoSettings) => {
+  try {
+    localStorage.setItem(PHOTO_SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+  } catch {
+    // Storage can be unavailable (private mode); the settings just won't be remembered
+  }
+};
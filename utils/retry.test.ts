@@ -0,0 +1,41 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { TourGuideError } from './errors';
+import { TransientError, withRetry } from './retry';
+
+// Retry-After of 5 ms, which outweighs the 1 ms backoff used below
+const busy = () => new TransientError('The server is busy.', 'network', 5);
+
+describe('withRetry', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('retries transient failures, waiting at least the Retry-After each time', async () => {
+    vi.useFakeTimers();
+    const call = vi.fn<() => Promise<string>>()
+      .mockRejectedValueOnce(busy())
+      .mockRejectedValueOnce(busy())
+      .mockResolvedValue('ok');
+
+    const result = withRetry(call, { baseDelayMs: 1, maxDelayMs: 1 });
+    await vi.advanceTimersByTimeAsync(4);
+    expect(call).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(call).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(5);
+
+    await expect(result).resolves.toBe('ok');
+    expect(call).toHaveBeenCalledTimes(3);
+  });
+
+  it('gives up on other errors and once the retries run out', async () => {
+    const fatal = new TourGuideError('Blocked.', 'safety');
+    const failing = vi.fn(() => Promise.reject(fatal));
+    await expect(withRetry(failing)).rejects.toBe(fatal);
+    expect(failing).toHaveBeenCalledTimes(1);
+
+    const call = vi.fn(() => Promise.reject(busy()));
+    await expect(withRetry(call, { retries: 2, baseDelayMs: 1, maxDelayMs: 1 })).rejects.toBeInstanceOf(TransientError);
+    expect(call).toHaveBeenCalledTimes(3);
+  });
+});
@@ -0,0 +1,143 @@
+import { ErrorCategory } from '../types';
+import { TourGuideError } from './errors';
+
+export interface RetryOptions {
+  signal?: AbortSignal;
+  // Attempts after the first one
+  retries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+}
+
+export interface Deadline {
+  // Aborted when the deadline passes or the caller's signal aborts
+  signal: AbortSignal;
+  // Restarts the countdown, for streams that are still making progress
+  extend: () => void;
+  hasTimedOut: () => boolean;
+  clear: () => void;
+}
+
+const DEFAULT_RETRIES = 3;
+const DEFAULT_BASE_DELAY_MS = 1000;
+const DEFAULT_MAX_DELAY_MS = 15_000;
+// A Retry-After longer than this (e.g. a daily quota) is not worth waiting for in the UI
+const MAX_RETRY_AFTER_MS = 30_000;
+
+/**
+ * A failure worth trying again: overload, rate limiting, a dropped connection or a timeout.
+ * The message is written for the user, for when the retries run out.
+ */
+export class TransientError extends TourGuideError {
+  retryAfterMs?: number;
+
+  constructor(message: string, category: ErrorCategory, retryAfterMs?: number) {
+    super(message, category);
+    this.name = 'TransientError';
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+export const isAbortError = (error: unknown): boolean => (error as { name?: string })?.name === 'AbortError';
+
+/**
+ * Reads a Retry-After header, which is either a number of seconds or an HTTP date
+ */
+export const parseRetryAfter = (value: string | null, now = Date.now()): number | undefined => {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+};
+
+/**
+ * Exponential backoff with full jitter, so clients that failed together do not retry together
+ */
+export const getBackoffDelay = (attempt: number, baseDelayMs: number, maxDelayMs: number): number => {
+  return Math.random() * Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+};
+
+/**
+ * Resolves after `ms`, or rejects with the signal's reason as soon as it aborts
+ */
+export const sleep = (ms: number, signal?: AbortSignal): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+};
+
+/**
+ * Links a per-call timeout to the caller's signal; the returned signal aborts on either
+ */
+export const createDeadline = (timeoutMs: number, signal?: AbortSignal): Deadline => {
+  const controller = new AbortController();
+  let timedOut = false;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const abortFromCaller = () => controller.abort(signal?.reason);
+  const start = () => {
+    clearTimeout(timer);
+    timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort(new DOMException('The request timed out.', 'TimeoutError'));
+    }, timeoutMs);
+  };
+
+  if (signal?.aborted) {
+    abortFromCaller();
+  } else {
+    signal?.addEventListener('abort', abortFromCaller, { once: true });
+    start();
+  }
+
+  return {
+    signal: controller.signal,
+    extend: () => {
+      if (!controller.signal.aborted) start();
+    },
+    hasTimedOut: () => timedOut,
+    clear: () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', abortFromCaller);
+    },
+  };
+};
+
+/**
+ * Runs `call` until it succeeds, retrying TransientErrors with backoff. A server's Retry-After is
+ * used as the minimum wait. Any other error, or an abort, ends the retries immediately.
+ */
+export const withRetry = async <T>(
+  call: () => Promise<T>,
+  {
+    signal,
+    retries = DEFAULT_RETRIES,
+    baseDelayMs = DEFAULT_BASE_DELAY_MS,
+    maxDelayMs = DEFAULT_MAX_DELAY_MS,
+  }: RetryOptions = {},
+): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await call();
+    } catch (error) {
+      if (!(error instanceof TransientError) || attempt >= retries || signal?.aborted) throw error;
+      if ((error.retryAfterMs ?? 0) > MAX_RETRY_AFTER_MS) throw error;
+
+      const delay = Math.max(error.retryAfterMs ?? 0, getBackoffDelay(attempt, baseDelayMs, maxDelayMs));
+      await sleep(delay, signal);
+    }
+  }
+};
@@ -0,0 +1,12 @@
+/**
+ * Registers /sw.js, which makes the app installable and lets saved tours open offline. Only
+ * production builds have one (see pwa/precachePlugin.ts).
+ */
+export const registerServiceWorker = () => {
+  if (!process.env.ENABLE_SERVICE_WORKER || !('serviceWorker' in navigator)) return;
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('/sw.js').catch(error => {
+      console.error('Service worker registration failed:', error);
+    });
+  });
+};
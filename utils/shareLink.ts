@@ -0,0 +1,146 @@
+import { GroundingChunk, SharedTour } from '../types';
+import { buildBibliography } from './citations';
+import { DEFAULT_LANGUAGE, findLanguage } from './languages';
+import { isSafeUrl } from './markdown';
+import { DEFAULT_PERSONA, findPersona } from './personas';
+
+// Share links keep the tour in the fragment, so it never reaches a server
+const FRAGMENT_KEY = 'tour';
+const FORMAT_VERSION = 1;
+const COMPRESSION: CompressionFormat = 'deflate-raw';
+// A tour is tens of kilobytes of text; a few kilobytes of crafted link can inflate to gigabytes
+const MAX_PAYLOAD_BYTES = 1024 * 1024;
+
+// Short keys keep the payload small; sources are the merged bibliography as [uri, title, domain, supports]
+interface SharePayload {
+  v: number;
+  n: string;
+  t: string;
+  l: string;
+  p: string;
+  s: [string, string, string, string[]][];
+}
+
+/**
+ * Raised when a share link is truncated, tampered with or from an unknown format
+ */
+export class ShareLinkError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ShareLinkError';
+  }
+}
+
+const toBase64Url = (bytes: Uint8Array): string => {
+  let binary = '';
+  bytes.forEach(byte => { binary += String.fromCharCode(byte); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (text: string): Uint8Array => {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+};
+
+const transform = (bytes: Uint8Array, stream: CompressionStream | DecompressionStream): Promise<Uint8Array> => {
+  return new Response(new Blob([bytes]).stream().pipeThrough(stream)).arrayBuffer().then(buffer => new Uint8Array(buffer));
+};
+
+// Decompresses chunk by chunk and stops as soon as the output grows past the cap
+const inflate = async (bytes: Uint8Array): Promise<Uint8Array> => {
+  const reader = new Blob([bytes]).stream().pipeThrough(new DecompressionStream(COMPRESSION)).getReader();
+  const chunks: Uint8Array[] = [];
+  let length = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    length += value.length;
+    if (length > MAX_PAYLOAD_BYTES) {
+      await reader.cancel();
+      throw new ShareLinkError('This link holds more than a tour and was not opened.');
+    }
+    chunks.push(value);
+  }
+  return new Uint8Array(await new Blob(chunks).arrayBuffer());
+};
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+
+const isPayload = (value: unknown): value is SharePayload => {
+  const payload = value as Partial<SharePayload> | null;
+  return !!payload
+    && isString(payload.n) && payload.n.trim().length > 0
+    && isString(payload.t) && isString(payload.l) && isString(payload.p)
+    && Array.isArray(payload.s)
+    && payload.s.every(source => Array.isArray(source) && source.slice(0, 3).every(isString) && Array.isArray(source[3]) && source[3].every(isString));
+};
+
+/**
+ * Serializes a tour into a compressed, URL-safe string
+ */
+export const encodeSharedTour = async (tour: SharedTour): Promise<string> => {
+  const payload: SharePayload = {
+    v: FORMAT_VERSION,
+    n: tour.landmarkName,
+    t: tour.landmarkInfo,
+    l: tour.language,
+    p: tour.persona,
+    s: buildBibliography(tour.sources).map(({ uri, title, domain, supports }) => [uri, title, domain, supports]),
+  };
+  const json = new TextEncoder().encode(JSON.stringify(payload));
+  return toBase64Url(await transform(json, new CompressionStream(COMPRESSION)));
+};
+
+export const decodeSharedTour = async (encoded: string): Promise<SharedTour> => {
+  let payload: unknown;
+  try {
+    const json = await inflate(fromBase64Url(encoded));
+    payload = JSON.parse(new TextDecoder().decode(json));
+  } catch (error) {
+    if (error instanceof ShareLinkError) throw error;
+    throw new ShareLinkError('This link is incomplete or damaged.');
+  }
+  if ((payload as Partial<SharePayload> | null)?.v !== FORMAT_VERSION) {
+    throw new ShareLinkError('This link was made by a different version of the app.');
+  }
+  if (!isPayload(payload)) {
+    throw new ShareLinkError('The tour in this link is malformed.');
+  }
+
+  // Anyone can craft a link, so sources that would render as javascript: or data: links are dropped,
+  // and unknown languages and personas fall back to the defaults like stored preferences do
+  const sources: GroundingChunk[] = payload.s
+    .filter(([uri]) => isSafeUrl(uri))
+    .map(([uri, title, domain, supports]) => ({ web: { uri: uri.trim(), title, domain }, supports }));
+  return {
+    landmarkName: payload.n,
+    landmarkInfo: payload.t,
+    sources,
+    language: findLanguage(payload.l)?.code ?? DEFAULT_LANGUAGE,
+    persona: findPersona(payload.p)?.id ?? DEFAULT_PERSONA,
+  };
+};
+
+/**
+ * Link to this app that opens the tour read-only
+ */
+export const createShareUrl = async (tour: SharedTour): Promise<string> => {
+  const url = new URL(window.location.href);
+  url.search = '';
+  url.hash = `${FRAGMENT_KEY}=${await encodeSharedTour(tour)}`;
+  return url.toString();
+};
+
+/**
+ * The encoded tour in a URL fragment such as window.location.hash, or null when there is none
+ */
+export const readShareFragment = (hash: string): string | null => {
+  return new URLSearchParams(hash.replace(/^#/, '')).get(FRAGMENT_KEY);
+};
+
+// Drops the tour from the address bar, so reloading or closing the shared tour leads back to the app
+export const clearShareFragment = () => {
+  const url = new URL(window.location.href);
+  url.hash = '';
+  window.history.replaceState(null, '', url.toString());
+};
@@ -0,0 +1,62 @@
+export interface TaskQueueOptions {
+  // Maximum number of tasks running at once
+  concurrency: number;
+  // Minimum gap between task starts, to stay under the backend's rate limit
+  minStartIntervalMs?: number;
+}
+
+export interface TaskQueue {
+  add: <T>(task: () => Promise<T>) => Promise<T>;
+  readonly pending: number;
+}
+
+interface QueuedTask {
+  run: () => Promise<unknown>;
+  resolve: (value: unknown) => void;
+  reject: (error: unknown) => void;
+}
+
+/**
+ * FIFO queue that runs at most `concurrency` tasks at a time, spaced out by minStartIntervalMs
+ */
+export const createTaskQueue = ({ concurrency, minStartIntervalMs = 0 }: TaskQueueOptions): TaskQueue => {
+  const waiting: QueuedTask[] = [];
+  let running = 0;
+  let lastStartedAt = -Infinity;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const pump = () => {
+    if (timer) return;
+
+    while (running < concurrency && waiting.length > 0) {
+      const wait = lastStartedAt + minStartIntervalMs - Date.now();
+      if (wait > 0) {
+        timer = setTimeout(() => {
+          timer = null;
+          pump();
+        }, wait);
+        return;
+      }
+
+      const next = waiting.shift()!;
+      running += 1;
+      lastStartedAt = Date.now();
+      next.run()
+        .then(next.resolve, next.reject)
+        .finally(() => {
+          running -= 1;
+          pump();
+        });
+    }
+  };
+
+  return {
+    add: <T>(task: () => Promise<T>) => new Promise<T>((resolve, reject) => {
+      waiting.push({ run: task, resolve: resolve as (value: unknown) => void, reject });
+      pump();
+    }),
+    get pending() {
+      return waiting.length + running;
+    },
+  };
+};
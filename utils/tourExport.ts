@@ -0,0 +1,143 @@
+import { GroundingChunk } from '../types';
+import { buildBibliography } from './citations';
+import { MarkdownBlock, MarkdownInline, TableAlignment, parseMarkdown } from './markdown';
+
+export interface OfflineGuideData {
+  landmarkName: string;
+  landmarkInfo: string;
+  sources: GroundingChunk[];
+  imageDataUrl: string;
+  // Omitted when the narration is not ready yet
+  audioDataUrl?: string;
+}
+
+export const escapeHtml = (value: string): string => {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+};
+
+// The app relies on the Tailwind CDN, which is not available offline, so the guide carries its own styles
+const OFFLINE_STYLES = `
+  body { margin: 0; background: #111827; color: #d1d5db; font-family: 'Inter', system-ui, sans-serif; line-height: 1.6; }
+  main { max-width: 56rem; margin: 0 auto; padding: 2rem 1rem 4rem; }
+  img { width: 100%; max-height: 50vh; object-fit: cover; border-radius: 1rem; }
+  h1 { color: #fff; font-size: 2.25rem; margin: 1.5rem 0 1rem; }
+  h2 { color: #67e8f9; font-size: 1.5rem; margin: 1.5rem 0 0.75rem; }
+  h3 { color: #67e8f9; font-size: 1.25rem; margin: 1rem 0 0.5rem; }
+  h4, h5, h6 { color: #a5f3fc; font-size: 1.125rem; margin: 1rem 0 0.5rem; }
+  ul, ol { margin: 0.5rem 0; padding-left: 1.25rem; }
+  ul { list-style: disc; }
+  strong { color: #fff; }
+  blockquote { margin: 0.75rem 0; padding-left: 1rem; border-left: 4px solid rgba(6, 182, 212, 0.4); font-style: italic; color: #9ca3af; }
+  code { background: rgba(17, 24, 39, 0.6); color: #a5f3fc; padding: 0.1rem 0.25rem; border-radius: 0.25rem; }
+  pre { background: rgba(17, 24, 39, 0.6); padding: 0.75rem; border-radius: 0.5rem; overflow-x: auto; }
+  pre code { background: none; padding: 0; }
+  table { width: 100%; border-collapse: collapse; font-size: 0.875rem; }
+  th, td { padding: 0.5rem 0.75rem; border-bottom: 1px solid rgba(255, 255, 255, 0.1); text-align: left; }
+  th { color: #a5f3fc; }
+  hr { border: 0; border-top: 1px solid rgba(255, 255, 255, 0.1); margin: 1.5rem 0; }
+  audio { width: 100%; margin: 1rem 0 1.5rem; }
+  a { color: #06b6d4; }
+  .sources { margin-top: 2rem; padding-top: 1.5rem; border-top: 1px solid rgba(255, 255, 255, 0.1); font-size: 0.875rem; }
+`;
+
+const renderInlineHtml = (nodes: MarkdownInline[]): string => nodes.map(node => {
+  switch (node.type) {
+    case 'text':
+      return escapeHtml(node.text);
+    case 'code':
+      return `<code>${escapeHtml(node.text)}</code>`;
+    case 'strong':
+      return `<strong>${renderInlineHtml(node.children)}</strong>`;
+    case 'emphasis':
+      return `<em>${renderInlineHtml(node.children)}</em>`;
+    case 'strikethrough':
+      return `<del>${renderInlineHtml(node.children)}</del>`;
+    case 'link':
+      return `<a href="${escapeHtml(node.href)}">${renderInlineHtml(node.children)}</a>`;
+    case 'break':
+      return '<br />';
+  }
+}).join('');
+
+const renderCellsHtml = (cells: MarkdownInline[][], tag: 'th' | 'td', alignments: TableAlignment[]): string => cells
+  .map((cell, column) => {
+    const align = alignments[column] ? ` style="text-align: ${alignments[column]}"` : '';
+    return `<${tag}${align}>${renderInlineHtml(cell)}</${tag}>`;
+  })
+  .join('');
+
+// Same markup as the in-app MarkdownContent, minus the Tailwind classes
+const renderBlocksHtml = (blocks: MarkdownBlock[]): string => blocks.map(block => {
+  switch (block.type) {
+    case 'heading': {
+      const tag = `h${Math.min(block.level + 1, 6)}`;
+      return `<${tag}>${renderInlineHtml(block.children)}</${tag}>`;
+    }
+    case 'paragraph':
+      return `<p>${renderInlineHtml(block.children).replace(/\n/g, '<br />')}</p>`;
+    case 'list': {
+      const items = block.items
+        .map(item => `<li>${renderInlineHtml(item.content)}${renderBlocksHtml(item.children)}</li>`)
+        .join('');
+      return block.ordered ? `<ol start="${block.start}">${items}</ol>` : `<ul>${items}</ul>`;
+    }
+    case 'blockquote':
+      return `<blockquote>${renderBlocksHtml(block.children)}</blockquote>`;
+    case 'code':
+      return `<pre><code>${escapeHtml(block.text)}</code></pre>`;
+    case 'table':
+      return `<table><thead><tr>${renderCellsHtml(block.header, 'th', block.alignments)}</tr></thead><tbody>${
+        block.rows.map(row => `<tr>${renderCellsHtml(row, 'td', block.alignments)}</tr>`).join('')
+      }</tbody></table>`;
+    case 'rule':
+      return '<hr />';
+  }
+}).join('\n');
+
+/**
+ * Builds a single self-contained HTML page with the photo, guide, sources and narration inlined
+ */
+export const createOfflineGuideHtml = ({
+  landmarkName,
+  landmarkInfo,
+  sources,
+  imageDataUrl,
+  audioDataUrl,
+}: OfflineGuideData): string => {
+  const title = escapeHtml(landmarkName);
+  const sourceItems = buildBibliography(sources)
+    .map(source => `<li><a href="${escapeHtml(source.uri)}">${escapeHtml(source.title)}</a>${
+      source.domain !== source.title ? ` · ${escapeHtml(source.domain)}` : ''
+    }</li>`)
+    .join('\n        ');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+  <head>
+    <meta charset="UTF-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+    <title>${title} – Photo Tour Guide</title>
+    <style>${OFFLINE_STYLES}</style>
+  </head>
+  <body>
+    <main>
+      <img src="${imageDataUrl}" alt="${title}" />
+      <h1>${title}</h1>
+      ${audioDataUrl ? `<audio controls src="${audioDataUrl}"></audio>` : ''}
+      <article>${renderBlocksHtml(parseMarkdown(landmarkInfo))}</article>
+      ${sourceItems ? `<section class="sources">
+        <h3>Sources</h3>
+        <ol>
+        ${sourceItems}
+        </ol>
+      </section>` : ''}
+    </main>
+  </body>
+</html>
+`;
+};
@@ -0,0 +1,146 @@
+import { describe, expect, it } from 'vitest';
+import { LandmarkIdentification, Status, StepFailure } from '../types';
+import { toPreparedPhoto } from './photoPreparation';
+import { TourPipelineEvent, TourPipelineState, createInitialPipelineState, transitionPipeline } from './tourPipeline';
+
+const preferences = { language: 'en-US', guideSettings: { persona: 'classic', voice: null } };
+
+const photo = {
+  ...toPreparedPhoto(new File(['jpeg'], 'eiffel.jpg', { type: 'image/jpeg' })),
+  metadata: { coordinates: { latitude: 48.8584, longitude: 2.2945 }, capturedAt: null, orientation: 1 },
+};
+
+const identification: LandmarkIdentification = {
+  name: 'Eiffel Tower',
+  city: 'Paris',
+  country: 'France',
+  confidence: 0.95,
+  coordinates: { latitude: 48.85837, longitude: 2.29448 },
+  alternatives: [],
+};
+
+const history = { text: '# Eiffel Tower\n\nBuilt in 1889.', sources: [], searchEntryPoint: undefined };
+
+const narrationFailure: StepFailure = { step: 'narration', category: 'quota', message: 'Rate limit reached.' };
+const historyFailure: StepFailure = { step: 'history', category: 'network', message: 'Offline.' };
+
+// Applies events one second apart, starting at t = 0
+const replay = (events: TourPipelineEvent[], state: TourPipelineState = createInitialPipelineState(preferences)) =>
+  events.reduce((current, event, index) => transitionPipeline(current, event, index * 1000), state);
+
+const happyPath: TourPipelineEvent[] = [
+  { type: 'photoSelected', photo, imageUrl: 'blob:eiffel' },
+  { type: 'identified', identification, landmarkName: 'Eiffel Tower, Paris, France', needsConfirmation: false },
+  { type: 'guideRequested', landmarkName: 'Eiffel Tower, Paris, France', preferences },
+  { type: 'historyProgress', text: '# Eiffel Tower' },
+  { type: 'audioChunk', chunk: 'pcm-1' },
+  { type: 'historyLoaded', history },
+  { type: 'audioChunk', chunk: 'pcm-2' },
+  { type: 'narrationFinished' },
+];
+
+describe('transitionPipeline', () => {
+  it('runs a tour from photo to narrated guide', () => {
+    const state = replay(happyPath);
+
+    expect(state.status).toBe(Status.Done);
+    expect(state.failure).toBeNull();
+    expect(state.landmarkInfo).toBe(history.text);
+    expect(state.audioChunks).toEqual(['pcm-1', 'pcm-2']);
+    expect(state.coordinates).toEqual(identification.coordinates);
+  });
+
+  it('times each stage; narration overlaps the history', () => {
+    const { timings } = replay(happyPath);
+
+    expect(timings.identify).toEqual({ startedAt: 0, durationMs: 1000 });
+    expect(timings.history).toEqual({ startedAt: 2000, durationMs: 3000 });
+    expect(timings.narration).toEqual({ startedAt: 2000, durationMs: 5000 });
+  });
+
+  it('waits for confirmation when the identification is uncertain', () => {
+    const state = replay([
+      happyPath[0],
+      { type: 'identified', identification: { ...identification, confidence: 0.3 }, landmarkName: 'Eiffel Tower', needsConfirmation: true },
+    ]);
+    expect(state.status).toBe(Status.Confirming);
+
+    // Picking an alternative drops the identified position for the photo's own
+    const confirmed = transitionPipeline(state, { type: 'guideRequested', landmarkName: 'Tokyo Tower', preferences }, 5000);
+    expect(confirmed.status).toBe(Status.Fetching);
+    expect(confirmed.coordinates).toEqual(photo.metadata.coordinates);
+  });
+
+  it('takes only the language and guide settings from a guide request', () => {
+    const identified = replay(happyPath.slice(0, 2));
+    // Handlers may pass a whole (older) state as the preferences
+    const stale = { ...createInitialPipelineState({ ...preferences, language: 'it-IT' }) };
+
+    const state = transitionPipeline(identified, { type: 'guideRequested', landmarkName: identified.landmarkName, preferences: stale }, 5000);
+    expect(state.status).toBe(Status.Fetching);
+    expect(state.photo).toBe(photo);
+    expect(state.language).toBe('it-IT');
+  });
+
+  it('ignores events that do not fit the current status', () => {
+    const idle = createInitialPipelineState(preferences);
+    expect(transitionPipeline(idle, { type: 'audioChunk', chunk: 'late' }, 0)).toBe(idle);
+    expect(transitionPipeline(idle, { type: 'narrationFinished' }, 0)).toBe(idle);
+
+    const identifying = replay(happyPath.slice(0, 1));
+    expect(transitionPipeline(identifying, { type: 'historyLoaded', history }, 0)).toBe(identifying);
+    expect(transitionPipeline(identifying, { type: 'failed', failure: narrationFailure }, 0)).toBe(identifying);
+  });
+
+  it('drops audio that arrives after the history failed', () => {
+    const failed = replay([...happyPath.slice(0, 3), { type: 'failed', failure: historyFailure }]);
+    expect(failed.status).toBe(Status.Error);
+    expect(failed.timings.narration?.durationMs).not.toBeNull();
+
+    expect(transitionPipeline(failed, { type: 'audioChunk', chunk: 'late' }, 9000)).toBe(failed);
+  });
+
+  it('keeps a guide readable when narration fails, and retries only the narration', () => {
+    const failed = replay([...happyPath.slice(0, 6), { type: 'failed', failure: narrationFailure }]);
+    expect(failed.status).toBe(Status.Done);
+    expect(failed.failure).toEqual(narrationFailure);
+    expect(failed.audioChunks).toEqual(['pcm-1']);
+
+    const retried = replay([{ type: 'narrationRetried' }, { type: 'audioChunk', chunk: 'pcm-2' }, { type: 'narrationFinished' }], failed);
+    expect(retried.status).toBe(Status.Done);
+    expect(retried.failure).toBeNull();
+    expect(retried.audioChunks).toEqual(['pcm-1', 'pcm-2']);
+  });
+
+  it('opens a saved tour as finished, in its own language and persona', () => {
+    const state = replay([
+      { type: 'guideSettingsChanged', guideSettings: { persona: 'classic', voice: 'Puck' } },
+      {
+        type: 'tourOpened',
+        tour: {
+          photo,
+          imageUrl: 'blob:saved',
+          identification: null,
+          landmarkName: 'Eiffel Tower',
+          coordinates: null,
+          landmarkInfo: history.text,
+          sources: [],
+          searchEntryPoint: undefined,
+          audioChunks: ['pcm-1'],
+          language: 'fr-FR',
+          persona: 'kids',
+        },
+      },
+    ]);
+
+    expect(state.status).toBe(Status.Done);
+    expect(state.language).toBe('fr-FR');
+    expect(state.guideSettings).toEqual({ persona: 'kids', voice: 'Puck' });
+    expect(state.timings).toEqual({});
+  });
+
+  it('keeps the preferences on reset', () => {
+    const state = replay([...happyPath, { type: 'languageChanged', language: 'de-DE' }, { type: 'reset' }]);
+    expect(state).toEqual(createInitialPipelineState({ ...preferences, language: 'de-DE' }));
+  });
+});
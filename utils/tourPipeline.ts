@@ -0,0 +1,225 @@
+import { Coordinates, GroundingChunk, GuideSettings, LandmarkHistory, LandmarkIdentification, PipelineStep, Status, StepFailure } from '../types';
+import { PreparedPhoto } from './photoPreparation';
+
+// When a stage started and, once it has ended, how long it took
+export interface StageTiming {
+  startedAt: number;
+  durationMs: number | null;
+}
+
+export interface TourPipelineState {
+  status: Status;
+  // The step that failed, if any; a narration failure leaves the tour Done
+  failure: StepFailure | null;
+  // The prepared (downscaled, re-encoded) photo with its EXIF hints
+  photo: PreparedPhoto | null;
+  imageUrl: string;
+  identification: LandmarkIdentification | null;
+  landmarkName: string;
+  // Where the landmark is: from the identification, else where the photo was taken
+  coordinates: Coordinates | null;
+  landmarkInfo: string;
+  sources: GroundingChunk[];
+  searchEntryPoint?: string;
+  audioChunks: string[];
+  // Language, persona and voice of the guide, and of the next one to be generated
+  language: string;
+  guideSettings: GuideSettings;
+  // Narration starts while the guide is still streaming, so its timing overlaps the history's
+  timings: Partial<Record<PipelineStep, StageTiming>>;
+}
+
+// The user's choices that carry over from one tour to the next
+export type PipelinePreferences = Pick<TourPipelineState, 'language' | 'guideSettings'>;
+
+// A finished tour shown again without calling the AI backend, from history or a batch. Its imageUrl is
+// handed over: the pipeline revokes it once another photo or a reset replaces it
+export type OpenedTour = Pick<
+  TourPipelineState,
+  | 'photo'
+  | 'identification'
+  | 'landmarkName'
+  | 'coordinates'
+  | 'landmarkInfo'
+  | 'sources'
+  | 'searchEntryPoint'
+  | 'audioChunks'
+  | 'language'
+> & { imageUrl: string; persona: string };
+
+export type TourPipelineEvent =
+  | { type: 'reset' }
+  | { type: 'photoSelected'; photo: PreparedPhoto; imageUrl: string }
+  | { type: 'identified'; identification: LandmarkIdentification; landmarkName: string; needsConfirmation: boolean }
+  | { type: 'guideRequested'; landmarkName: string; preferences: PipelinePreferences }
+  | { type: 'historyProgress'; text: string }
+  | { type: 'historyLoaded'; history: LandmarkHistory }
+  | { type: 'audioChunk'; chunk: string }
+  | { type: 'narrationRetried' }
+  | { type: 'narrationFinished' }
+  | { type: 'failed'; failure: StepFailure }
+  | { type: 'languageChanged'; language: string }
+  | { type: 'guideSettingsChanged'; guideSettings: GuideSettings }
+  | { type: 'tourOpened'; tour: OpenedTour };
+
+export const createInitialPipelineState = ({ language, guideSettings }: PipelinePreferences): TourPipelineState => ({
+  status: Status.Idle,
+  failure: null,
+  photo: null,
+  imageUrl: '',
+  identification: null,
+  landmarkName: '',
+  coordinates: null,
+  landmarkInfo: '',
+  sources: [],
+  searchEntryPoint: undefined,
+  audioChunks: [],
+  language,
+  guideSettings,
+  timings: {},
+});
+
+// Statuses a failure of each step can be reported from. Photo and camera problems count as
+// identification failures and happen before identification starts, while still Idle.
+const FAILABLE_STATUSES: Record<PipelineStep, Status[]> = {
+  identify: [Status.Idle, Status.Identifying],
+  history: [Status.Fetching],
+  narration: [Status.Narrating],
+};
+
+/**
+ * Whether the event is a valid transition from the current state. Anything else (typically a
+ * late response for a step that has already moved on) is ignored.
+ */
+export const canHandleEvent = ({ status, failure }: TourPipelineState, event: TourPipelineEvent): boolean => {
+  switch (event.type) {
+    case 'reset':
+    case 'photoSelected':
+    case 'languageChanged':
+    case 'guideSettingsChanged':
+    case 'tourOpened':
+      return true;
+    case 'identified':
+      return status === Status.Identifying;
+    case 'guideRequested':
+      return status === Status.Identifying
+        || status === Status.Confirming
+        || status === Status.Done
+        || (status === Status.Error && failure?.step === 'history');
+    case 'historyProgress':
+    case 'historyLoaded':
+      return status === Status.Fetching;
+    case 'audioChunk':
+      return status === Status.Fetching || status === Status.Narrating;
+    case 'narrationRetried':
+      return status === Status.Done && failure?.step === 'narration';
+    case 'narrationFinished':
+      return status === Status.Narrating;
+    case 'failed':
+      return FAILABLE_STATUSES[event.failure.step].includes(status);
+  }
+};
+
+const startStage = (at: number): StageTiming => ({ startedAt: at, durationMs: null });
+
+const endStage = (
+  timings: TourPipelineState['timings'],
+  step: PipelineStep,
+  at: number,
+): TourPipelineState['timings'] => {
+  const timing = timings[step];
+  if (!timing || timing.durationMs !== null) return timings;
+  return { ...timings, [step]: { ...timing, durationMs: at - timing.startedAt } };
+};
+
+/**
+ * Applies an event at time `at`. Pure, so the whole pipeline can be replayed without React or a network.
+ */
+export const transitionPipeline = (state: TourPipelineState, event: TourPipelineEvent, at: number): TourPipelineState => {
+  if (!canHandleEvent(state, event)) return state;
+
+  switch (event.type) {
+    case 'reset':
+      return createInitialPipelineState(state);
+    case 'photoSelected':
+      return {
+        ...createInitialPipelineState(state),
+        status: Status.Identifying,
+        photo: event.photo,
+        imageUrl: event.imageUrl,
+        coordinates: event.photo.metadata.coordinates,
+        timings: { identify: startStage(at) },
+      };
+    case 'identified':
+      return {
+        ...state,
+        status: event.needsConfirmation ? Status.Confirming : state.status,
+        identification: event.identification,
+        landmarkName: event.landmarkName,
+        coordinates: event.identification.coordinates ?? state.coordinates,
+        timings: endStage(state.timings, 'identify', at),
+      };
+    case 'guideRequested':
+      return {
+        ...state,
+        status: Status.Fetching,
+        failure: null,
+        landmarkName: event.landmarkName,
+        // The identified position only belongs to the top candidate, not to an alternative the user picked
+        coordinates: event.landmarkName === state.landmarkName
+          ? state.coordinates
+          : state.photo?.metadata.coordinates ?? null,
+        language: event.preferences.language,
+        guideSettings: event.preferences.guideSettings,
+        landmarkInfo: '',
+        sources: [],
+        searchEntryPoint: undefined,
+        audioChunks: [],
+        timings: { ...state.timings, history: startStage(at), narration: startStage(at) },
+      };
+    case 'historyProgress':
+      return { ...state, landmarkInfo: event.text };
+    case 'historyLoaded':
+      return {
+        ...state,
+        status: Status.Narrating,
+        landmarkInfo: event.history.text,
+        sources: event.history.sources,
+        searchEntryPoint: event.history.searchEntryPoint,
+        timings: endStage(state.timings, 'history', at),
+      };
+    case 'audioChunk':
+      return { ...state, audioChunks: [...state.audioChunks, event.chunk] };
+    case 'narrationRetried':
+      return {
+        ...state,
+        status: Status.Narrating,
+        failure: null,
+        timings: { ...state.timings, narration: startStage(at) },
+      };
+    case 'narrationFinished':
+      return { ...state, status: Status.Done, timings: endStage(state.timings, 'narration', at) };
+    case 'failed': {
+      const { step } = event.failure;
+      const timings = endStage(state.timings, step, at);
+      return {
+        ...state,
+        // A guide without (all of) its audio can still be read, asked about and exported
+        status: step === 'narration' ? Status.Done : Status.Error,
+        failure: event.failure,
+        // Narration cannot finish without the rest of the guide either
+        timings: step === 'history' ? endStage(timings, 'narration', at) : timings,
+      };
+    }
+    case 'languageChanged':
+      return { ...state, language: event.language };
+    case 'guideSettingsChanged':
+      return { ...state, guideSettings: event.guideSettings };
+    case 'tourOpened': {
+      const { persona, ...tour } = event.tour;
+      // The tour's own persona, read in the voice currently chosen
+      const guideSettings = { ...state.guideSettings, persona };
+      return { ...createInitialPipelineState({ language: tour.language, guideSettings }), ...tour, status: Status.Done };
+    }
+  }
+};
@@ -0,0 +1,72 @@
+export interface TranscriptLine {
+  // Markdown line marker such as "## " or "* " that is not part of any sentence
+  prefix: string;
+  sentences: string[];
+}
+
+export interface TimedSentence {
+  index: number;
+  segmentIndex: number;
+  text: string;
+  start: number;
+  end: number;
+}
+
+const LINE_PREFIX_PATTERN = /^(#{1,6}\s+|[*-]\s+|\d+\.\s+)?/;
+const SENTENCE_BOUNDARY_PATTERN = /(?<=[.!?]["')\]]?)\s+(?=\S)/;
+
+/**
+ * Splits one markdown line into its marker and the sentences that follow it.
+ * The renderer and the narration timeline both use this so their sentence indexes line up.
+ */
+export const splitTranscriptLine = (line: string): TranscriptLine => {
+  const trimmed = line.trim();
+  const prefix = trimmed.match(LINE_PREFIX_PATTERN)?.[0] ?? '';
+  const sentences = trimmed
+    .slice(prefix.length)
+    .split(SENTENCE_BOUNDARY_PATTERN)
+    .filter(sentence => sentence.length > 0);
+  return { prefix, sentences };
+};
+
+const splitSegmentIntoSentences = (segment: string): string[] => {
+  return segment
+    .split('\n')
+    .filter(line => line.trim().length > 0)
+    .flatMap(line => splitTranscriptLine(line).sentences);
+};
+
+// Markdown symbols are not spoken, so they should not count towards a sentence's airtime
+const spokenLength = (sentence: string): number => Math.max(1, sentence.replace(/[*_#`]/g, '').length);
+
+/**
+ * Estimates when each sentence is spoken. Every narration segment has its own audio chunk,
+ * so segment boundaries are exact; within a segment time is shared out by character count.
+ */
+export const buildTranscriptTimeline = (segments: string[], chunkDurations: number[]): TimedSentence[] => {
+  const timeline: TimedSentence[] = [];
+  let chunkStart = 0;
+
+  segments.forEach((segment, segmentIndex) => {
+    const chunkDuration = chunkDurations[segmentIndex];
+    if (chunkDuration === undefined) return;
+
+    const sentences = splitSegmentIntoSentences(segment);
+    const totalLength = sentences.reduce((total, sentence) => total + spokenLength(sentence), 0);
+    let elapsedLength = 0;
+
+    sentences.forEach(sentence => {
+      const start = chunkStart + (elapsedLength / totalLength) * chunkDuration;
+      elapsedLength += spokenLength(sentence);
+      const end = chunkStart + (elapsedLength / totalLength) * chunkDuration;
+      timeline.push({ index: timeline.length, segmentIndex, text: sentence, start, end });
+    });
+    chunkStart += chunkDuration;
+  });
+
+  return timeline;
+};
+
+export const findSentenceAt = (timeline: TimedSentence[], time: number): TimedSentence | undefined => {
+  return timeline.find(sentence => time >= sentence.start && time < sentence.end);
+};
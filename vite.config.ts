@@ -1,18 +1,28 @@
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
+import { precachePlugin } from './pwa/precachePlugin';
 
-export default defineConfig(({ mode }) => {
+export default defineConfig(({ command, mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        proxy: {
+          '/api': `http://localhost:${env.PORT || 8787}`,
+        },
       },
-      plugins: [react()],
+      plugins: [react(), precachePlugin()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        // Never expose GEMINI_API_KEY here: the key stays on the server (see server/)
+        'process.env.API_BASE_URL': JSON.stringify(env.API_BASE_URL),
+        'process.env.AI_PROVIDER': JSON.stringify(env.AI_PROVIDER),
+        'process.env.MAP_TILES': JSON.stringify(env.MAP_TILES),
+        // The service worker only exists in builds; in development it would serve stale modules
+        'process.env.ENABLE_SERVICE_WORKER': JSON.stringify(command === 'build' ? 'true' : ''),
+        // Stage timings of each tour are logged to the console while developing
+        'process.env.LOG_TOUR_TIMINGS': JSON.stringify(command === 'serve' ? 'true' : '')
       },
       resolve: {
         alias: {